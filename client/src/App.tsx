@@ -1,36 +1,53 @@
 
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { Toaster } from '@/components/ui/toaster';
+import { fetchCurrentUser } from '@/lib/auth';
 import Auth from './pages/Auth';
 import AdminDashboard from './pages/AdminDashboard';
 import CounselorDashboard from './pages/CounselorDashboard';
+import ManagerDashboard from './pages/ManagerDashboard';
 import AdminLeads from './pages/AdminLeads';
 import CounselorLeads from './pages/CounselorLeads';
 import ManageUsers from './pages/ManageUsers';
 import ImportLeads from './pages/ImportLeads';
 import ViewReports from './pages/ViewReports';
+import AuditLog from './pages/AuditLog';
+import DuplicateLeads from './pages/DuplicateLeads';
+import ArchivedLeads from './pages/ArchivedLeads';
+import CustomFields from './pages/CustomFields';
+import Tags from './pages/Tags';
+import LeadScoring from './pages/LeadScoring';
+import AssignmentRules from './pages/AssignmentRules';
 import LeadWorkspace from './pages/LeadWorkspace';
 import ProductionSetup from './pages/ProductionSetup';
+import ResetPassword from './pages/ResetPassword';
 import NotFound from './pages/NotFound';
 import Index from './pages/Index';
 
-// Mock authentication check
-const isAuthenticated = () => {
-  return localStorage.getItem('user') !== null;
-};
+// Protected Route component - the session is verified with the server; the
+// role check here only decides which screens to show, the API enforces access
+const ProtectedRoute = ({ children, requiredRole }: { children: React.ReactNode, requiredRole?: string }) => {
+  const { data: user, isLoading } = useQuery({
+    queryKey: ['/api/auth/me'],
+    queryFn: fetchCurrentUser,
+    retry: false,
+  });
 
-const getUserRole = () => {
-  const user = localStorage.getItem('user');
-  return user ? JSON.parse(user).role : null;
-};
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
 
-// Protected Route component
-const ProtectedRoute = ({ children, requiredRole }: { children: React.ReactNode, requiredRole?: string }) => {
-  if (!isAuthenticated()) {
+  // Users holding a temporary password or owing 2FA enrollment finish that on the sign-in page first
+  if (!user || user.mustChangePassword || (user.totpRequired && !user.totpEnabled)) {
     return <Navigate to="/auth" replace />;
   }
   
-  if (requiredRole && getUserRole() !== requiredRole) {
+  if (requiredRole && user.role !== requiredRole) {
     return <Navigate to="/" replace />;
   }
   
@@ -43,6 +60,8 @@ function App() {
       <div className="min-h-screen bg-background">
         <Routes>
           <Route path="/auth" element={<Auth />} />
+          <Route path="/setup" element={<ProductionSetup />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
           <Route path="/" element={
             <ProtectedRoute>
               <Index />
@@ -80,9 +99,56 @@ function App() {
               <ViewReports />
             </ProtectedRoute>
           } />
-          <Route path="/admin/production-setup" element={
+          <Route path="/admin/audit" element={
+            <ProtectedRoute requiredRole="admin">
+              <AuditLog />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/duplicates" element={
+            <ProtectedRoute requiredRole="admin">
+              <DuplicateLeads />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/archived" element={
+            <ProtectedRoute requiredRole="admin">
+              <ArchivedLeads />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/custom-fields" element={
+            <ProtectedRoute requiredRole="admin">
+              <CustomFields />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/tags" element={
+            <ProtectedRoute requiredRole="admin">
+              <Tags />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/scoring" element={
+            <ProtectedRoute requiredRole="admin">
+              <LeadScoring />
+            </ProtectedRoute>
+          } />
+          <Route path="/admin/assignment-rules" element={
             <ProtectedRoute requiredRole="admin">
-              <ProductionSetup />
+              <AssignmentRules />
+            </ProtectedRoute>
+          } />
+          
+          {/* Manager Routes */}
+          <Route path="/manager" element={
+            <ProtectedRoute requiredRole="manager">
+              <Navigate to="/manager/dashboard" replace />
+            </ProtectedRoute>
+          } />
+          <Route path="/manager/dashboard" element={
+            <ProtectedRoute requiredRole="manager">
+              <ManagerDashboard />
+            </ProtectedRoute>
+          } />
+          <Route path="/manager/leads" element={
+            <ProtectedRoute requiredRole="manager">
+              <AdminLeads />
             </ProtectedRoute>
           } />
           
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { getCachedUser } from '../lib/auth';
+import { useToast } from '@/hooks/use-toast';
+
+// Which leads a bulk action applies to: the checked rows, or every lead matching a Leads page query
+export type BulkLeadSelection = { leadIds: number[] } | { query: string };
+
+export interface BulkLeadActionResult {
+  action: string;
+  total: number;
+  updated: number;
+  unchanged: number;
+  results: { leadId: number; name: string; status: 'updated' | 'unchanged' }[];
+}
+
+// Fields the server accepts for a bulk update (BULK_UPDATE_FIELDS)
+const BULK_UPDATE_FIELDS = [
+  { key: 'country', label: 'Country' },
+  { key: 'course', label: 'Course' },
+  { key: 'intake', label: 'Intake' },
+  { key: 'source', label: 'Source' },
+  { key: 'passportStatus', label: 'Passport Status' },
+  { key: 'preferredLanguage', label: 'Preferred Language' },
+  { key: 'prevConsultancy', label: 'Previous Consultancy' }
+];
+
+// Runs a bulk action through POST /api/leads/bulk and refreshes everything that shows leads
+export const useBulkLeadAction = (onSuccess?: (result: BulkLeadActionResult) => void) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: (body: BulkLeadSelection & Record<string, unknown>): Promise<BulkLeadActionResult> =>
+      apiRequest('/api/leads/bulk', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-views'] });
+      toast({
+        title: 'Bulk action complete',
+        description: `${result.updated} leads updated${result.unchanged > 0 ? `, ${result.unchanged} already up to date` : ''}`
+      });
+      onSuccess?.(result);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Bulk action failed', variant: 'destructive' });
+    }
+  });
+};
+
+// Stage change, field update and (admins only) archive for the selected leads
+const BulkLeadActions = ({
+  selection,
+  count,
+  stages,
+  onDone,
+  onCancel
+}: {
+  selection: BulkLeadSelection;
+  count: number;
+  stages: string[];
+  onDone: () => void;
+  onCancel: () => void;
+}) => {
+  const isAdmin = getCachedUser()?.role === 'admin';
+  const [action, setAction] = useState<'stage' | 'update' | 'archive'>('stage');
+  const [stage, setStage] = useState('');
+  const [field, setField] = useState('');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [result, setResult] = useState<BulkLeadActionResult | null>(null);
+
+  const bulkMutation = useBulkLeadAction((done) => {
+    setResult(done);
+    onDone();
+  });
+
+  const canApply =
+    action === 'stage' ? !!stage && !!reason.trim() : action === 'update' ? !!field : !!reason.trim();
+
+  const apply = () => {
+    const body =
+      action === 'stage'
+        ? { action, stage, reason }
+        : action === 'update'
+          ? { action, fields: { [field]: value } }
+          : { action, reason };
+    bulkMutation.mutate({ ...selection, ...body });
+  };
+
+  return (
+    <Card className="border-purple-200 bg-purple-50 mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Bulk Update</CardTitle>
+        <CardDescription>
+          Applies to {count} leads at once; if any lead cannot be changed, none are
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-44 space-y-2">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={(next) => setAction(next as typeof action)}>
+              <SelectTrigger data-testid="select-bulk-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="stage">Change stage</SelectItem>
+                <SelectItem value="update">Update a field</SelectItem>
+                {isAdmin && <SelectItem value="archive">Archive</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {action === 'stage' && (
+            <div className="w-60 space-y-2">
+              <Label>New stage</Label>
+              <Select value={stage} onValueChange={setStage}>
+                <SelectTrigger data-testid="select-bulk-stage">
+                  <SelectValue placeholder="Select stage..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {action === 'update' && (
+            <>
+              <div className="w-52 space-y-2">
+                <Label>Field</Label>
+                <Select value={field} onValueChange={setField}>
+                  <SelectTrigger data-testid="select-bulk-field">
+                    <SelectValue placeholder="Select field..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BULK_UPDATE_FIELDS.map((f) => (
+                      <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex-1 min-w-48 space-y-2">
+                <Label htmlFor="bulk-field-value">New value (leave empty to clear)</Label>
+                <Input id="bulk-field-value" value={value} onChange={(e) => setValue(e.target.value)} />
+              </div>
+            </>
+          )}
+
+          {(action === 'stage' || action === 'archive') && (
+            <div className="flex-1 min-w-48 space-y-2">
+              <Label htmlFor="bulk-reason">Reason</Label>
+              <Input
+                id="bulk-reason"
+                value={reason}
+                placeholder="Recorded in each lead's stage history"
+                onChange={(e) => setReason(e.target.value)}
+                data-testid="input-bulk-reason"
+              />
+            </div>
+          )}
+
+          <Button onClick={apply} disabled={!canApply || bulkMutation.isPending} data-testid="button-bulk-apply">
+            {bulkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply to {count} leads
+          </Button>
+          <Button variant="outline" onClick={onCancel}>
+            Close
+          </Button>
+        </div>
+
+        {result && (
+          <div className="rounded-md border bg-white p-3">
+            <p className="text-sm font-medium mb-2">
+              {result.updated} updated, {result.unchanged} unchanged
+            </p>
+            <ul className="max-h-48 overflow-y-auto text-sm divide-y" data-testid="list-bulk-results">
+              {result.results.map((r) => (
+                <li key={r.leadId} className="flex items-center justify-between py-1">
+                  <span>{r.name}</span>
+                  <Badge variant={r.status === 'updated' ? 'default' : 'secondary'}>
+                    {r.status === 'updated' ? 'Updated' : 'Already up to date'}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkLeadActions;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect';
+export type CustomFieldValue = string | number | string[];
+
+export interface CustomFieldDefinition {
+  id: number;
+  key: string;
+  label: string;
+  fieldType: CustomFieldType;
+  options: string[];
+  validation: { min?: number; max?: number; maxLength?: number };
+  required: boolean;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Single select',
+  multiselect: 'Multi select'
+};
+
+// Active custom field definitions, in display order (admins can ask for inactive ones too)
+export const useCustomFields = (includeInactive = false) =>
+  useQuery<CustomFieldDefinition[]>({
+    queryKey: ['/api/custom-fields', includeInactive],
+    queryFn: () => apiRequest(`/api/custom-fields${includeInactive ? '?all=true' : ''}`)
+  });
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.fieldType === 'date') return new Date(`${value}T00:00:00`).toLocaleDateString();
+  return String(value);
+};
+
+const NO_VALUE = '__none__';
+
+// Form control for one custom field; `value` is the stored form (string, number or string[])
+const CustomFieldInput = ({
+  field,
+  value,
+  onChange
+}: {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+}) => {
+  const id = `custom-field-${field.key}`;
+
+  switch (field.fieldType) {
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' && value ? value : NO_VALUE}
+          onValueChange={(selected) => onChange(selected === NO_VALUE ? null : selected)}
+        >
+          <SelectTrigger id={id} data-testid={`input-${id}`}>
+            <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {!field.required && <SelectItem value={NO_VALUE}>None</SelectItem>}
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2" data-testid={`input-${id}`}>
+          {field.options.map((option) => (
+            <div key={option} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${id}-${option}`}
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) => {
+                  const next = checked ? [...selected, option] : selected.filter((o) => o !== option);
+                  onChange(next.length > 0 ? next : null);
+                }}
+              />
+              <Label htmlFor={`${id}-${option}`} className="font-normal">{option}</Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    case 'number':
+      return (
+        <Input
+          id={id}
+          type="number"
+          value={value === undefined || value === null ? '' : String(value)}
+          min={field.validation.min}
+          max={field.validation.max}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          data-testid={`input-${id}`}
+        />
+      );
+    case 'date':
+      return (
+        <Input
+          id={id}
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          data-testid={`input-${id}`}
+        />
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          value={value === undefined || value === null ? '' : String(value)}
+          maxLength={field.validation.maxLength}
+          onChange={(e) => onChange(e.target.value || null)}
+          data-testid={`input-${id}`}
+        />
+      );
+  }
+};
+
+export default CustomFieldInput;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '../lib/queryClient';
+
+interface DeactivationPlan {
+  user: { id: number; name: string; role: string };
+  openLeads: { id: number; name: string; currentStage: string; country: string | null }[];
+  counselors: { counselorId: number; name: string; openLeads: number }[];
+  proposal: { leadId: number; counselorId: number }[];
+}
+
+interface DeactivateUserDialogProps {
+  user: { id: number; name: string } | null;
+  onClose: () => void;
+}
+
+// Guided deactivation: every open lead gets a new counselor (pre-filled least-loaded first) before the account is switched off
+const DeactivateUserDialog = ({ user, onClose }: DeactivateUserDialogProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [assignments, setAssignments] = useState<Record<number, string>>({});
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: plan, isLoading } = useQuery<DeactivationPlan>({
+    queryKey: ['/api/users', user?.id, 'deactivation-plan'],
+    queryFn: () => apiRequest(`/api/users/${user!.id}/deactivation-plan`),
+    enabled: !!user,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (plan) {
+      setAssignments(Object.fromEntries(plan.proposal.map((a) => [a.leadId, String(a.counselorId)])));
+      setError('');
+    }
+  }, [plan]);
+
+  const unassignedCount = plan ? plan.openLeads.filter((lead) => !assignments[lead.id]).length : 0;
+
+  const handleConfirm = async () => {
+    if (!user) return;
+    setError('');
+    setIsSaving(true);
+    try {
+      const data = await apiRequest(`/api/users/${user.id}/deactivate`, {
+        method: 'POST',
+        body: JSON.stringify({
+          assignments: Object.entries(assignments).map(([leadId, counselorId]) => ({
+            leadId: Number(leadId),
+            counselorId: Number(counselorId),
+          })),
+        }),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/counselors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: "User deactivated",
+        description: data.reassigned > 0
+          ? `${data.reassigned} open lead(s) were reassigned.`
+          : "The user can no longer sign in.",
+      });
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not deactivate user');
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(value) => { if (!value) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Deactivate {user?.name}</DialogTitle>
+          <DialogDescription>
+            Deactivated users can no longer sign in. Their open leads must be handed to another counselor first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !plan ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : plan.openLeads.length === 0 ? (
+          <p className="text-sm text-gray-600">This user has no open leads to reassign.</p>
+        ) : plan.counselors.length === 0 ? (
+          <Alert variant="destructive">
+            <AlertDescription>
+              There are no other active counselors to take over {plan.openLeads.length} open lead(s). Add or reactivate a counselor first.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {plan.openLeads.map((lead) => (
+              <div key={lead.id} className="flex items-center justify-between gap-4 border rounded-lg p-2" data-testid={`row-reassign-${lead.id}`}>
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{lead.name}</div>
+                  <div className="text-xs text-gray-500">
+                    <Badge variant="outline" className="mr-1">{lead.currentStage}</Badge>
+                    {lead.country}
+                  </div>
+                </div>
+                <Select
+                  value={assignments[lead.id] || ''}
+                  onValueChange={(value) => setAssignments((prev) => ({ ...prev, [lead.id]: value }))}
+                >
+                  <SelectTrigger className="w-56" data-testid={`select-reassign-${lead.id}`}>
+                    <SelectValue placeholder="Choose counselor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {plan.counselors.map((counselor) => (
+                      <SelectItem key={counselor.counselorId} value={String(counselor.counselorId)}>
+                        {counselor.name} ({counselor.openLeads} open)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel-deactivate">
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={!plan || isSaving || unassignedCount > 0}
+            onClick={handleConfirm}
+            data-testid="button-confirm-deactivate"
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {plan && plan.openLeads.length > 0 ? 'Reassign Leads & Deactivate' : 'Deactivate'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeactivateUserDialog;
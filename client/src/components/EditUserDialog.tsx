@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '../lib/queryClient';
+
+interface EditUserDialogProps {
+  user: { id: number; name: string; phone: string | null; role: string; teamId: number | null } | null;
+  onClose: () => void;
+}
+
+const NO_TEAM = 'none';
+
+// Admin edit of a user's name, phone, role and team
+const EditUserDialog = ({ user, onClose }: EditUserDialogProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [role, setRole] = useState('counselor');
+  const [teamId, setTeamId] = useState(NO_TEAM);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      setName(user.name);
+      setPhone(user.phone || '');
+      setRole(user.role);
+      setTeamId(user.teamId ? String(user.teamId) : NO_TEAM);
+      setError('');
+    }
+  }, [user]);
+
+  const { data: teams = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['/api/teams'],
+    queryFn: () => apiRequest('/api/teams'),
+    enabled: !!user
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setError('');
+    setIsSaving(true);
+    try {
+      await apiRequest(`/api/users/${user.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ name, phone, role, teamId: teamId === NO_TEAM ? null : Number(teamId) }),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/counselors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: "Success",
+        description: "User updated successfully.",
+      });
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not update user');
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(value) => { if (!value) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit User</DialogTitle>
+          <DialogDescription>Update this team member's details, role and team.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-user-name">Full Name</Label>
+            <Input
+              id="edit-user-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              minLength={2}
+              required
+              data-testid="input-edit-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-user-phone">Phone (Optional)</Label>
+            <Input
+              id="edit-user-phone"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              data-testid="input-edit-phone"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger data-testid="select-edit-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="counselor">Counselor</SelectItem>
+                <SelectItem value="manager">Manager</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Team</Label>
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger data-testid="select-edit-team">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEAM}>No team</SelectItem>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={String(team.id)}>{team.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel-edit">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} data-testid="button-save-user">
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditUserDialog;
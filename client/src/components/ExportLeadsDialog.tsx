@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Download, Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+// Downloads the leads matching the Leads page filters (query) as CSV or XLSX, with the chosen columns
+const ExportLeadsDialog = ({ query, total }: { query: string; total: number }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<'csv' | 'xlsx'>('csv');
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: columns = [] } = useQuery<ExportColumn[]>({
+    queryKey: ['/api/leads/export-columns'],
+    queryFn: () => apiRequest('/api/leads/export-columns'),
+    enabled: open
+  });
+  const selected = columns.filter((column) => !excluded.includes(column.key));
+
+  const toggle = (key: string) =>
+    setExcluded((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams(query);
+      params.set('format', format);
+      params.set('columns', selected.map((column) => column.key).join(','));
+      const response = await fetch(`/api/leads/export?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+      const blob = await response.blob();
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `leads.${format}`;
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Could not export leads',
+        variant: 'destructive'
+      });
+    }
+    setIsExporting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="whitespace-nowrap" data-testid="button-export-leads">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Leads</DialogTitle>
+          <DialogDescription>
+            Exports all {total} leads matching the current filters, not just this page. Exports are recorded in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as 'csv' | 'xlsx')}>
+              <SelectTrigger data-testid="select-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns ({selected.length} of {columns.length})</Label>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setExcluded([])}>All</Button>
+                <Button variant="ghost" size="sm" onClick={() => setExcluded(columns.map((column) => column.key))}>None</Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto rounded-md border p-3">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={!excluded.includes(column.key)} onCheckedChange={() => toggle(column.key)} />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || selected.length === 0 || total === 0}
+              data-testid="button-download-export"
+            >
+              {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Download
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportLeadsDialog;
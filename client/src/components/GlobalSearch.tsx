@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Search, Loader2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+interface SearchResult {
+  lead: {
+    id: number;
+    name: string;
+    email: string | null;
+    phone: string;
+    uid: string | null;
+    currentStage: string;
+    counselorName: string | null;
+  };
+  matchedField: 'name' | 'email' | 'phone' | 'uid' | 'remarks' | 'contact_phone';
+  snippet: string;
+  score: number;
+}
+
+const FIELD_LABELS: Record<SearchResult['matchedField'], string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  uid: 'UID',
+  remarks: 'Remark',
+  contact_phone: 'Contact phone'
+};
+
+// Bold the parts of the snippet that contain a search word
+const highlight = (text: string, term: string) => {
+  const words = term.trim().split(/\s+/).filter(Boolean).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return text;
+  const parts = text.split(new RegExp(`(${words.join('|')})`, 'gi'));
+  return parts.map((part, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-yellow-100 rounded-sm">{part}</mark> : part
+  );
+};
+
+// Header search over every lead the user can see; opens with the button or Ctrl/Cmd+K
+const GlobalSearch = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [term, setTerm] = useState('');
+  const [debouncedTerm, setDebouncedTerm] = useState('');
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((value) => !value);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedTerm(term.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: ['/api/leads/search', debouncedTerm],
+    queryFn: () => apiRequest(`/api/leads/search?q=${encodeURIComponent(debouncedTerm)}`),
+    enabled: open && debouncedTerm.length >= 2
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setTerm('');
+  };
+
+  const handleSelect = (leadId: number) => {
+    handleOpenChange(false);
+    navigate(`/lead/${leadId}`);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} className="text-gray-500" data-testid="button-global-search">
+        <Search className="h-4 w-4 mr-2" />
+        Search leads
+        <kbd className="ml-3 hidden md:inline text-xs border rounded px-1">Ctrl K</kbd>
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search leads</DialogTitle>
+          <Command shouldFilter={false}>
+            <CommandInput
+              placeholder="Name, phone, email, UID or remark text..."
+              value={term}
+              onValueChange={setTerm}
+              data-testid="input-global-search"
+            />
+            <CommandList>
+              {debouncedTerm.length >= 2 && !isFetching && (
+                <CommandEmpty>No leads found.</CommandEmpty>
+              )}
+              {isFetching && results.length === 0 && (
+                <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Searching...
+                </div>
+              )}
+              {results.length > 0 && (
+                <CommandGroup heading="Leads">
+                  {results.map((result) => (
+                    <CommandItem
+                      key={result.lead.id}
+                      value={String(result.lead.id)}
+                      onSelect={() => handleSelect(result.lead.id)}
+                      data-testid={`search-result-${result.lead.id}`}
+                    >
+                      <div className="flex flex-col gap-1 w-full min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium truncate">{result.lead.name}</span>
+                          <span className="text-xs text-gray-500 whitespace-nowrap">
+                            {result.lead.currentStage} · {result.lead.counselorName || 'Unassigned'}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-gray-600 min-w-0">
+                          <Badge variant="outline" className="text-[10px] px-1 py-0">{FIELD_LABELS[result.matchedField]}</Badge>
+                          <span className="truncate">{highlight(result.snippet || '', debouncedTerm)}</span>
+                        </div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default GlobalSearch;
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Edit3, Loader2, Mail, Phone, Plus, Trash2, Users } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+export interface LeadContact {
+  id: number;
+  leadId: number;
+  name: string;
+  relationship: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+// LEAD_CONTACT_RELATIONSHIPS with display names
+export const RELATIONSHIP_LABELS: Record<string, string> = {
+  parent: 'Parent',
+  guardian: 'Guardian',
+  sibling: 'Sibling',
+  spouse: 'Spouse',
+  sponsor: 'Sponsor',
+  other: 'Other'
+};
+
+export const useLeadContacts = (leadId: string | number) =>
+  useQuery<LeadContact[]>({
+    queryKey: [`/api/leads/${leadId}/contacts`],
+    queryFn: () => apiRequest(`/api/leads/${leadId}/contacts`)
+  });
+
+const emptyForm = { name: '', relationship: 'parent', phone: '', email: '', notes: '' };
+
+// Adds a contact, or edits the given one
+const ContactDialog = ({ leadId, contact }: { leadId: string | number; contact?: LeadContact }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setForm(
+        contact
+          ? {
+              name: contact.name,
+              relationship: contact.relationship,
+              phone: contact.phone ?? '',
+              email: contact.email ?? '',
+              notes: contact.notes ?? ''
+            }
+          : emptyForm
+      );
+    }
+    setOpen(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(contact ? `/api/leads/${leadId}/contacts/${contact.id}` : `/api/leads/${leadId}/contacts`, {
+        method: contact ? 'PUT' : 'POST',
+        body: JSON.stringify(form)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/contacts`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/tasks`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`, 'timeline'] });
+      toast({ title: 'Success', description: contact ? 'Contact updated' : 'Contact added' });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to save contact', variant: 'destructive' });
+    }
+  });
+
+  const set = (key: keyof typeof emptyForm) => (value: string) => setForm((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {contact ? (
+          <Button variant="ghost" size="sm" data-testid={`button-edit-contact-${contact.id}`}>
+            <Edit3 className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" data-testid="button-add-contact">
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{contact ? `Edit ${contact.name}` : 'Add Contact'}</DialogTitle>
+          <DialogDescription>A parent, sibling or sponsor involved in the student's decision</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="contact-name">Name</Label>
+              <Input id="contact-name" value={form.name} onChange={(e) => set('name')(e.target.value)} data-testid="input-contact-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Relationship</Label>
+              <Select value={form.relationship} onValueChange={set('relationship')}>
+                <SelectTrigger data-testid="select-contact-relationship">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RELATIONSHIP_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="contact-phone">Phone</Label>
+            <Input id="contact-phone" value={form.phone} onChange={(e) => set('phone')(e.target.value)} data-testid="input-contact-phone" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="contact-email">Email</Label>
+            <Input id="contact-email" type="email" value={form.email} onChange={(e) => set('email')(e.target.value)} data-testid="input-contact-email" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="contact-notes">Notes</Label>
+            <Textarea
+              id="contact-notes"
+              value={form.notes}
+              rows={3}
+              onChange={(e) => set('notes')(e.target.value)}
+              placeholder="e.g. Father, decides on funding; prefers calls after 6pm"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || (!form.phone.trim() && !form.email.trim()) || saveMutation.isPending}
+              data-testid="button-save-contact"
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// The lead's family and sponsor contacts, each with their own phone and email
+const LeadContactsCard = ({ leadId }: { leadId: string | number }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: contacts = [], isLoading } = useLeadContacts(leadId);
+
+  const deleteMutation = useMutation({
+    mutationFn: (contactId: number) => apiRequest(`/api/leads/${leadId}/contacts/${contactId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/contacts`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`, 'timeline'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/tasks`] });
+      toast({ title: 'Success', description: 'Contact removed' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to remove contact', variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Users className="mr-2 h-5 w-5" />
+            Family & Contacts
+          </CardTitle>
+          <ContactDialog leadId={leadId} />
+        </div>
+        <CardDescription>Calls with a contact can be logged from Create Task</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          </div>
+        ) : contacts.length === 0 ? (
+          <p className="text-sm text-gray-500">No family or sponsor contacts added yet</p>
+        ) : (
+          <div className="space-y-3">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="border rounded-lg p-3" data-testid={`lead-contact-${contact.id}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{contact.name}</span>
+                      <Badge variant="outline">{RELATIONSHIP_LABELS[contact.relationship] ?? contact.relationship}</Badge>
+                    </div>
+                    {contact.phone && (
+                      <a href={`tel:${contact.phone}`} className="flex items-center text-sm text-gray-600 mt-1 hover:underline">
+                        <Phone className="mr-1 h-3 w-3" />
+                        {contact.phone}
+                      </a>
+                    )}
+                    {contact.email && (
+                      <a href={`mailto:${contact.email}`} className="flex items-center text-sm text-gray-600 mt-1 hover:underline break-all">
+                        <Mail className="mr-1 h-3 w-3" />
+                        {contact.email}
+                      </a>
+                    )}
+                    {contact.notes && <p className="text-xs text-gray-500 mt-1 whitespace-pre-wrap">{contact.notes}</p>}
+                  </div>
+                  <div className="flex">
+                    <ContactDialog leadId={leadId} contact={contact} />
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" data-testid={`button-delete-contact-${contact.id}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Remove {contact.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Calls already logged with this contact stay in the task history.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteMutation.mutate(contact.id)}>Remove</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeadContactsCard;
@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ArrowRightLeft, Check, Loader2, Pin, UserCheck } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { getCachedUser } from '../lib/auth';
+import { useToast } from '@/hooks/use-toast';
+
+export interface OwnershipChange {
+  id: number;
+  leadId: number;
+  fromCounselorId: number | null;
+  toCounselorId: number;
+  kind: 'assign' | 'handover' | 'assignment_rules' | 'deactivation' | 'edit' | 'merge';
+  stage: string;
+  note: string | null;
+  changedBy: number;
+  acknowledgedAt: string | null;
+  createdAt: string;
+  fromCounselorName: string | null;
+  toCounselorName: string | null;
+  changedByName: string | null;
+}
+
+type PendingHandover = OwnershipChange & { leadName: string };
+
+export const OWNERSHIP_KIND_LABELS: Record<OwnershipChange['kind'], string> = {
+  assign: 'Assigned',
+  handover: 'Handover',
+  assignment_rules: 'Assignment rules',
+  deactivation: 'Counselor deactivated',
+  edit: 'Edited',
+  merge: 'Merged lead'
+};
+
+const MAX_NOTE_LENGTH = 2000;
+
+export const useOwnershipTimeline = (leadId: string | number) =>
+  useQuery<OwnershipChange[]>({
+    queryKey: [`/api/leads/${leadId}/ownership`],
+    queryFn: () => apiRequest(`/api/leads/${leadId}/ownership`)
+  });
+
+const useAcknowledgeHandover = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: (handover: OwnershipChange) =>
+      apiRequest(`/api/handovers/${handover.id}/acknowledge`, { method: 'POST' }),
+    onSuccess: (_result, handover) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${handover.leadId}/ownership`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/handovers/pending'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to acknowledge handover', variant: 'destructive' });
+    }
+  });
+};
+
+// Managers and admins hand an assigned lead to another counselor; the stage stays as it is
+export const HandoverDialog = ({ lead }: { lead: { id: number; name: string; counselorId: number | null } }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [counselorId, setCounselorId] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data: counselors = [] } = useQuery<{ id: number; name: string; email: string }[]>({
+    queryKey: ['/api/users/counselors'],
+    queryFn: () => apiRequest('/api/users/counselors'),
+    enabled: open
+  });
+
+  const handoverMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/leads/${lead.id}/handover`, {
+        method: 'POST',
+        body: JSON.stringify({ counselorId: Number(counselorId), note })
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}/ownership`] });
+      toast({ title: 'Lead handed over', description: 'The new counselor has been notified.' });
+      setOpen(false);
+      setCounselorId('');
+      setNote('');
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to hand over lead', variant: 'destructive' });
+    }
+  });
+
+  if (lead.counselorId === null) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-handover-lead">
+          <ArrowRightLeft className="mr-2 h-4 w-4" />
+          Hand Over
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Hand over {lead.name}</DialogTitle>
+          <DialogDescription>
+            The lead keeps its stage. Your note is pinned on the lead for the new counselor, who is notified by email.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>New counselor</Label>
+            <Select value={counselorId} onValueChange={setCounselorId}>
+              <SelectTrigger data-testid="select-handover-counselor">
+                <SelectValue placeholder="Select counselor..." />
+              </SelectTrigger>
+              <SelectContent>
+                {counselors
+                  .filter((counselor) => counselor.id !== lead.counselorId)
+                  .map((counselor) => (
+                    <SelectItem key={counselor.id} value={counselor.id.toString()}>
+                      {counselor.name} - {counselor.email}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="handover-note">Handover note</Label>
+            <Textarea
+              id="handover-note"
+              value={note}
+              maxLength={MAX_NOTE_LENGTH}
+              rows={5}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Where things stand, what the student is waiting for, what to do next"
+              data-testid="input-handover-note"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => handoverMutation.mutate()}
+              disabled={!counselorId || !note.trim() || handoverMutation.isPending}
+              data-testid="button-confirm-handover"
+            >
+              {handoverMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Hand Over
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// The note from the handover that gave the lead to its current counselor, pinned above the workspace
+export const PinnedHandoverNote = ({ lead }: { lead: { id: number; counselorId: number | null } }) => {
+  const currentUser = getCachedUser();
+  const { data: timeline = [] } = useOwnershipTimeline(lead.id);
+  const acknowledgeMutation = useAcknowledgeHandover();
+
+  const latest = timeline[timeline.length - 1];
+  if (!latest || latest.kind !== 'handover' || latest.toCounselorId !== lead.counselorId) return null;
+  const isRecipient = currentUser?.id === latest.toCounselorId;
+
+  return (
+    <div className="mb-6 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3" data-testid="pinned-handover-note">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1">
+          <p className="flex items-center text-sm font-medium text-blue-900">
+            <Pin className="mr-2 h-4 w-4" />
+            Handover note from {latest.changedByName ?? 'unknown'}
+            {latest.fromCounselorName && ` (previous counselor: ${latest.fromCounselorName})`}
+            <span className="ml-2 font-normal text-blue-700">{new Date(latest.createdAt).toLocaleDateString()}</span>
+          </p>
+          <p className="mt-1 whitespace-pre-wrap text-sm text-blue-900">{latest.note}</p>
+        </div>
+        {latest.acknowledgedAt ? (
+          <Badge variant="secondary">
+            <Check className="mr-1 h-3 w-3" />
+            Acknowledged
+          </Badge>
+        ) : isRecipient ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => acknowledgeMutation.mutate(latest)}
+            disabled={acknowledgeMutation.isPending}
+            data-testid="button-acknowledge-handover"
+          >
+            Acknowledge
+          </Button>
+        ) : (
+          <Badge variant="outline">Not yet acknowledged</Badge>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Every change of counselor on the lead, oldest first
+export const OwnershipTimeline = ({ leadId }: { leadId: string | number }) => {
+  const { data: timeline = [], isLoading } = useOwnershipTimeline(leadId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ownership</CardTitle>
+        <CardDescription>Counselors this lead has been with, and how it moved</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+            <div>Loading ownership...</div>
+          </div>
+        ) : timeline.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <UserCheck className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No counselor changes recorded yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {timeline.map((change) => (
+              <div key={change.id} className="flex items-start space-x-4 p-3 border rounded" data-testid={`ownership-change-${change.id}`}>
+                <ArrowRightLeft className="h-4 w-4 text-purple-500 flex-shrink-0 mt-1" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-sm">
+                      {change.fromCounselorName ?? 'Unassigned'} → {change.toCounselorName ?? 'Unknown counselor'}
+                    </span>
+                    <Badge variant="outline">{OWNERSHIP_KIND_LABELS[change.kind] ?? change.kind}</Badge>
+                    <span className="text-sm text-gray-500">{new Date(change.createdAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">At stage {change.stage}</p>
+                  {change.note && (
+                    <p className="text-sm text-gray-700 bg-gray-50 p-2 rounded mt-2 whitespace-pre-wrap">{change.note}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    By: {change.changedByName || 'Unknown user'}
+                    {change.kind === 'handover' &&
+                      (change.acknowledgedAt
+                        ? ` · Acknowledged ${new Date(change.acknowledgedAt).toLocaleDateString()}`
+                        : ' · Not yet acknowledged')}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Counselor dashboard: leads handed over to them whose note they have not acknowledged yet
+export const PendingHandoversCard = () => {
+  const navigate = useNavigate();
+  const acknowledgeMutation = useAcknowledgeHandover();
+  const { data: handovers = [] } = useQuery<PendingHandover[]>({
+    queryKey: ['/api/handovers/pending'],
+    queryFn: () => apiRequest('/api/handovers/pending')
+  });
+
+  if (handovers.length === 0) return null;
+
+  return (
+    <Card className="mb-8 border-blue-200">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ArrowRightLeft className="mr-2 h-5 w-5" />
+          Handed Over to You ({handovers.length})
+        </CardTitle>
+        <CardDescription>Read each handover note before picking the lead up</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {handovers.map((handover) => (
+          <div key={handover.id} className="flex items-start justify-between gap-4 rounded border p-3" data-testid={`pending-handover-${handover.id}`}>
+            <div className="flex-1 min-w-0">
+              <button
+                type="button"
+                className="font-medium text-sm hover:underline"
+                onClick={() => navigate(`/lead/${handover.leadId}`)}
+              >
+                {handover.leadName}
+              </button>
+              <p className="text-xs text-gray-500">
+                From {handover.fromCounselorName ?? 'unassigned'} by {handover.changedByName ?? 'unknown'} ·{' '}
+                {new Date(handover.createdAt).toLocaleDateString()} · {handover.stage}
+              </p>
+              <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{handover.note}</p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => acknowledgeMutation.mutate(handover)}
+              disabled={acknowledgeMutation.isPending}
+            >
+              Acknowledge
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+export type ScoringFactor = 'intake' | 'country' | 'source' | 'passport' | 'connect' | 'documents' | 'recency';
+
+export interface LeadScoreItem {
+  factor: ScoringFactor;
+  points: number;
+  detail: string;
+}
+
+export const SCORING_FACTOR_LABELS: Record<ScoringFactor, string> = {
+  intake: 'Intake proximity',
+  country: 'Destination country',
+  source: 'Lead source',
+  passport: 'Passport status',
+  connect: 'Last call outcome',
+  documents: 'Document completeness',
+  recency: 'Recent activity'
+};
+
+const scoreColor = (score: number) => {
+  if (score >= 60) return 'bg-green-100 text-green-800 border-green-200';
+  if (score >= 30) return 'bg-amber-100 text-amber-800 border-amber-200';
+  return 'bg-gray-100 text-gray-700 border-gray-200';
+};
+
+export const LeadScoreBadge = ({ score }: { score: number }) => (
+  <span
+    className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-semibold ${scoreColor(score)}`}
+    data-testid="badge-lead-score"
+  >
+    {score}
+  </span>
+);
+
+// Score badge that opens the per-factor breakdown
+const LeadScore = ({
+  score,
+  breakdown,
+  scoredAt
+}: {
+  score: number;
+  breakdown: LeadScoreItem[];
+  scoredAt: string | null;
+}) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <button type="button" className="flex items-center gap-2 text-sm" data-testid="button-lead-score">
+        <span className="font-medium">Score</span>
+        <LeadScoreBadge score={score} />
+      </button>
+    </PopoverTrigger>
+    <PopoverContent className="w-80" align="end">
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <h4 className="font-medium">Lead score: {score}</h4>
+          {scoredAt && <span className="text-xs text-gray-500">{new Date(scoredAt).toLocaleString()}</span>}
+        </div>
+        {breakdown.length === 0 ? (
+          <p className="text-sm text-gray-500">No scoring rule matched this lead yet.</p>
+        ) : (
+          <ul className="space-y-1 text-sm" data-testid="list-score-breakdown">
+            {breakdown.map((item) => (
+              <li key={item.factor} className="flex justify-between gap-2">
+                <div>
+                  <div>{SCORING_FACTOR_LABELS[item.factor] ?? item.factor}</div>
+                  <div className="text-xs text-gray-500">{item.detail}</div>
+                </div>
+                <span className={`font-medium ${item.points < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                  {item.points > 0 ? `+${item.points}` : item.points}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </PopoverContent>
+  </Popover>
+);
+
+export default LeadScore;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Tag as TagIcon, X } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+export interface TagDefinition {
+  id: number;
+  name: string;
+  color: TagColor;
+  leadCount?: number;
+}
+
+// Badge classes per palette colour (same list as TAG_COLORS on the server)
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-100 text-gray-800 border-gray-200',
+  red: 'bg-red-100 text-red-800 border-red-200',
+  orange: 'bg-orange-100 text-orange-800 border-orange-200',
+  amber: 'bg-amber-100 text-amber-800 border-amber-200',
+  green: 'bg-green-100 text-green-800 border-green-200',
+  teal: 'bg-teal-100 text-teal-800 border-teal-200',
+  blue: 'bg-blue-100 text-blue-800 border-blue-200',
+  indigo: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  purple: 'bg-purple-100 text-purple-800 border-purple-200',
+  pink: 'bg-pink-100 text-pink-800 border-pink-200'
+};
+
+// The whole tag palette, sorted by name
+export const useTags = () =>
+  useQuery<TagDefinition[]>({
+    queryKey: ['/api/tags'],
+    queryFn: () => apiRequest('/api/tags')
+  });
+
+export const TagBadge = ({ tag, onRemove }: { tag: TagDefinition; onRemove?: () => void }) => (
+  <span
+    className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium ${TAG_COLOR_CLASSES[tag.color] ?? TAG_COLOR_CLASSES.gray}`}
+    data-testid={`badge-tag-${tag.id}`}
+  >
+    {tag.name}
+    {onRemove && (
+      <button type="button" onClick={onRemove} className="ml-1 rounded-full hover:opacity-70" aria-label={`Remove ${tag.name}`}>
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </span>
+);
+
+// Multi-select over the tag palette; used for tagging leads and for tag filters
+const TagPicker = ({
+  selected,
+  onChange,
+  label = 'Tags',
+  disabled = false
+}: {
+  selected: number[];
+  onChange: (tagIds: number[]) => void;
+  label?: string;
+  disabled?: boolean;
+}) => {
+  const { data: tags = [] } = useTags();
+  const toggle = (tagId: number) =>
+    onChange(selected.includes(tagId) ? selected.filter((id) => id !== tagId) : [...selected, tagId]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} data-testid="button-tag-picker">
+          <TagIcon className="h-4 w-4 mr-2" />
+          {selected.length > 0 ? `${label} (${selected.length})` : label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search tags..." className="h-9" />
+          <CommandEmpty>No tag found.</CommandEmpty>
+          <CommandList>
+            <CommandGroup>
+              {tags.map((tag) => (
+                <CommandItem key={tag.id} onSelect={() => toggle(tag.id)} className="flex items-center space-x-2">
+                  <Checkbox checked={selected.includes(tag.id)} className="mr-2" />
+                  <TagBadge tag={tag} />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TagPicker;
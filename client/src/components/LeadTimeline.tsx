@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRightLeft, CheckCircle, ClipboardList, Edit3, FileText, GraduationCap, History, Loader2, MessageSquare } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { OWNERSHIP_KIND_LABELS, type OwnershipChange } from './LeadHandover';
+
+// Event types of GET /api/leads/:id/timeline (LEAD_TIMELINE_EVENT_TYPES), in filter order
+const EVENT_TYPES = [
+  { key: 'task', label: 'Tasks', icon: ClipboardList, color: 'text-green-500' },
+  { key: 'stage_change', label: 'Stage changes', icon: CheckCircle, color: 'text-blue-500' },
+  { key: 'remark', label: 'Remarks', icon: MessageSquare, color: 'text-amber-500' },
+  { key: 'field_change', label: 'Edits', icon: Edit3, color: 'text-blue-500' },
+  { key: 'ownership', label: 'Ownership', icon: ArrowRightLeft, color: 'text-purple-500' },
+  { key: 'university_application', label: 'Applications', icon: GraduationCap, color: 'text-indigo-500' },
+  { key: 'document', label: 'Documents', icon: FileText, color: 'text-gray-500' }
+] as const;
+
+type TimelineEventType = (typeof EVENT_TYPES)[number]['key'];
+
+interface TimelineEvent {
+  type: TimelineEventType;
+  id: number;
+  occurredAt: string;
+  actorId: number | null;
+  actorName: string | null;
+  data: any;
+}
+
+interface TimelinePage {
+  events: TimelineEvent[];
+  total: number;
+  counts: Record<TimelineEventType, number>;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 25;
+
+// Task columns that record how a step went, shown as badges
+const TASK_STATUS_FIELDS = [
+  'callType', 'callStatus', 'connectStatus', 'sessionStatus', 'shortlistingStatus', 'trackingStatus',
+  'applicationStatus', 'offerLetterStatus', 'visaStatus', 'depositStatus', 'tuitionStatus', 'commissionStatus'
+];
+
+const EventBody = ({ event, fieldLabel }: { event: TimelineEvent; fieldLabel: (field: string) => string }) => {
+  const { data } = event;
+  switch (event.type) {
+    case 'task':
+      return (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-sm">{data.taskType}</span>
+            {data.contactName && <Badge variant="outline">With {data.contactName}</Badge>}
+            {TASK_STATUS_FIELDS.filter((field) => data[field]).map((field) => (
+              <Badge key={field} variant="secondary">{data[field]}</Badge>
+            ))}
+          </div>
+          {data.reasonNotInterested && <p className="text-sm text-gray-600 mt-1">Reason: {data.reasonNotInterested}</p>}
+          {data.remarks && <p className="text-sm text-gray-700 bg-gray-50 p-2 rounded mt-2">{data.remarks}</p>}
+        </>
+      );
+    case 'stage_change':
+      return (
+        <>
+          <span className="font-medium text-sm">
+            {data.fromStage ? `${data.fromStage} → ${data.toStage}` : data.toStage}
+          </span>
+          {data.reason && <p className="text-sm text-gray-600 mt-1">{data.reason}</p>}
+        </>
+      );
+    case 'remark':
+      return <p className="text-sm text-gray-700 whitespace-pre-wrap">{data.content}</p>;
+    case 'field_change':
+      return (
+        <>
+          <span className="font-medium text-sm">{fieldLabel(data.field)}</span>
+          <p className="text-sm text-gray-600 mt-1 break-words">
+            <span className="line-through text-gray-400">{data.oldValue ?? '(empty)'}</span>
+            {' → '}
+            <span>{data.newValue ?? '(empty)'}</span>
+          </p>
+        </>
+      );
+    case 'ownership': {
+      const change = data as OwnershipChange;
+      return (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-sm">
+              {change.fromCounselorName ?? 'Unassigned'} → {change.toCounselorName ?? 'Unknown counselor'}
+            </span>
+            <Badge variant="outline">{OWNERSHIP_KIND_LABELS[change.kind] ?? change.kind}</Badge>
+          </div>
+          {change.note && (
+            <p className="text-sm text-gray-700 bg-gray-50 p-2 rounded mt-2 whitespace-pre-wrap">{change.note}</p>
+          )}
+        </>
+      );
+    }
+    case 'university_application':
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-sm">Application to {data.universityName}</span>
+          {data.status && <Badge variant="secondary">{data.status}</Badge>}
+        </div>
+      );
+    case 'document':
+      return (
+        <>
+          <span className="font-medium text-sm">{data.documentType} added</span>
+          {data.remarks && !data.hasCredentials && <p className="text-sm text-gray-600 mt-1">{data.remarks}</p>}
+        </>
+      );
+  }
+};
+
+// Everything that happened on a lead in one chronological feed, newest first, filterable by event type
+const LeadTimeline = ({ leadId, fieldLabel }: { leadId: string | number; fieldLabel: (field: string) => string }) => {
+  const [hiddenTypes, setHiddenTypes] = useState<TimelineEventType[]>([]);
+  const [page, setPage] = useState(1);
+
+  const types = EVENT_TYPES.filter((t) => !hiddenTypes.includes(t.key)).map((t) => t.key);
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (hiddenTypes.length > 0) params.set('types', types.join(','));
+
+  // Keyed under the lead so anything that refreshes the lead refreshes the feed too
+  const { data, isLoading } = useQuery<TimelinePage>({
+    queryKey: [`/api/leads/${leadId}`, 'timeline', params.toString()],
+    queryFn: () => apiRequest(`/api/leads/${leadId}/timeline?${params.toString()}`),
+    enabled: types.length > 0
+  });
+
+  const toggle = (type: TimelineEventType) => {
+    setHiddenTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+    setPage(1);
+  };
+
+  const events = types.length > 0 ? data?.events ?? [] : [];
+  const totalPages = Math.max(1, Math.ceil((types.length > 0 ? data?.total ?? 0 : 0) / PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="mr-2 h-5 w-5" />
+          Activity
+        </CardTitle>
+        <CardDescription>Everything that happened on this lead, newest first</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2" data-testid="timeline-filters">
+          {EVENT_TYPES.map((t) => (
+            <Button
+              key={t.key}
+              size="sm"
+              variant={hiddenTypes.includes(t.key) ? 'outline' : 'secondary'}
+              onClick={() => toggle(t.key)}
+              data-testid={`timeline-filter-${t.key}`}
+            >
+              {t.label}
+              {data && <span className="ml-1 text-gray-500">{data.counts[t.key]}</span>}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading && types.length > 0 ? (
+          <div className="text-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+            <div>Loading activity...</div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <History className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>{types.length > 0 ? 'No activity recorded yet' : 'Select at least one type of activity'}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {events.map((event) => {
+              const { icon: Icon, color } = EVENT_TYPES.find((t) => t.key === event.type)!;
+              return (
+                <div
+                  key={`${event.type}-${event.id}`}
+                  className="flex items-start space-x-4 p-3 border rounded"
+                  data-testid={`timeline-${event.type}-${event.id}`}
+                >
+                  <Icon className={`h-4 w-4 flex-shrink-0 mt-1 ${color}`} />
+                  <div className="flex-1 min-w-0">
+                    <EventBody event={event} fieldLabel={fieldLabel} />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(event.occurredAt).toLocaleString()}
+                      {event.actorName && ` · By: ${event.actorName}`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Newer
+            </Button>
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Older
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeadTimeline;
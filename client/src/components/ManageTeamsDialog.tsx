@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Network, Plus, Loader2 } from 'lucide-react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '../lib/queryClient';
+
+interface Team {
+  id: number;
+  name: string;
+  managerId: number | null;
+}
+
+const NO_MANAGER = 'none';
+
+// Admin view of the counselor teams and who manages each one
+const ManageTeamsDialog = ({ users }: { users: any[] }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ['/api/teams'],
+    queryFn: () => apiRequest('/api/teams')
+  });
+
+  const managers = users.filter((u: any) => u.role === 'manager' && u.isActive);
+
+  const saveTeamMutation = useMutation({
+    mutationFn: ({ id, ...team }: { id?: number; name?: string; managerId?: number | null }) =>
+      apiRequest(id ? `/api/teams/${id}` : '/api/teams', {
+        method: id ? 'PUT' : 'POST',
+        body: JSON.stringify(team)
+      }),
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/teams'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      setError('');
+      if (!id) setNewTeamName('');
+      toast({
+        title: "Success",
+        description: id ? "Team updated." : "Team created.",
+      });
+    },
+    onError: (error: any) => {
+      setError(error.message || 'Failed to save team.');
+    }
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTeamMutation.mutate({ name: newTeamName });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); setError(''); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-manage-teams">
+          <Network className="mr-2 h-4 w-4" />
+          Teams
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Teams</DialogTitle>
+          <DialogDescription>
+            Managers see and assign the leads of their teams' counselors. Add counselors to a team from Edit User.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {teams.length === 0 ? (
+            <p className="text-sm text-gray-500">No teams yet.</p>
+          ) : (
+            teams.map((team) => {
+              const memberCount = users.filter((u: any) => u.teamId === team.id).length;
+              return (
+                <div key={team.id} className="flex items-center justify-between gap-4 border rounded-lg p-2" data-testid={`row-team-${team.id}`}>
+                  <div>
+                    <div className="font-medium">{team.name}</div>
+                    <div className="text-xs text-gray-500">{memberCount} member{memberCount === 1 ? '' : 's'}</div>
+                  </div>
+                  <Select
+                    value={team.managerId ? String(team.managerId) : NO_MANAGER}
+                    onValueChange={(value) => saveTeamMutation.mutate({
+                      id: team.id,
+                      managerId: value === NO_MANAGER ? null : Number(value)
+                    })}
+                  >
+                    <SelectTrigger className="w-48" data-testid={`select-team-manager-${team.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                      {managers.map((manager: any) => (
+                        <SelectItem key={manager.id} value={String(manager.id)}>{manager.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex gap-2 pt-2">
+          <Input
+            placeholder="New team name"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            minLength={2}
+            required
+            data-testid="input-new-team"
+          />
+          <Button type="submit" disabled={saveTeamMutation.isPending} data-testid="button-create-team">
+            {saveTeamMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageTeamsDialog;
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bookmark, ChevronDown, Link2, Loader2, Save, Star, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { getCachedUser } from '../lib/auth';
+import { useToast } from '@/hooks/use-toast';
+
+export interface SavedView {
+  id: number;
+  name: string;
+  query: string; // Leads page query string, same params as GET /api/leads
+  ownerId: number;
+  ownerName: string | null;
+  isShared: boolean;
+  isDefault: boolean;
+  leadCount: number | null; // within the viewer's scope; null if the view's filters no longer apply
+}
+
+// The viewer's own views plus everyone's shared ones, with live lead counts
+export const useSavedViews = () =>
+  useQuery<SavedView[]>({
+    queryKey: ['/api/saved-views'],
+    queryFn: () => apiRequest('/api/saved-views')
+  });
+
+// Dashboard card: every saved view with its current lead count, opening the Leads page on click
+export const SavedViewsCard = ({ leadsPath }: { leadsPath: string }) => {
+  const navigate = useNavigate();
+  const { data: views = [], isLoading } = useSavedViews();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Views</CardTitle>
+        <CardDescription>Live lead counts for your views and shared views</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading views...</span>
+          </div>
+        ) : views.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No saved views yet. Save a set of filters from the Leads page to see its count here.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {views.map((view) => (
+              <button
+                key={view.id}
+                type="button"
+                onClick={() => navigate(`${leadsPath}?${view.query}`)}
+                className="rounded-lg border p-4 text-left hover:bg-gray-50"
+                data-testid={`card-saved-view-${view.id}`}
+              >
+                <div className="flex items-center gap-1 text-sm font-medium">
+                  {view.isDefault && <Star className="h-3 w-3 fill-amber-400 text-amber-500" />}
+                  {view.name}
+                </div>
+                <div className="text-2xl font-bold">{view.leadCount ?? '-'}</div>
+                {view.isShared && <p className="text-xs text-muted-foreground">Shared by {view.ownerName ?? 'unknown'}</p>}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Views menu for the Leads page: open a view, save the current filters, pick the default, copy a link
+const SavedViewsMenu = ({ currentQuery, onApply }: { currentQuery: string; onApply: (query: string) => void }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const currentUser = getCachedUser();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [isDefault, setIsDefault] = useState(false);
+
+  const { data: views = [] } = useSavedViews();
+  const activeView = views.find((view) => view.query === currentQuery);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/saved-views'] });
+  const onError = (error: any) =>
+    toast({ title: 'Error', description: error.message || 'Failed to update saved views', variant: 'destructive' });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('/api/saved-views', {
+        method: 'POST',
+        body: JSON.stringify({ name, query: currentQuery, isShared, isDefault })
+      }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'View saved', description: name.trim() });
+      setName('');
+      setIsShared(false);
+      setIsDefault(false);
+    },
+    onError
+  });
+
+  // Saves the current filters into an existing view of the user's
+  const overwriteMutation = useMutation({
+    mutationFn: (view: SavedView) =>
+      apiRequest(`/api/saved-views/${view.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ name: view.name, query: currentQuery, isShared: view.isShared })
+      }),
+    onSuccess: (_result, view) => {
+      invalidate();
+      toast({ title: 'View updated', description: view.name });
+    },
+    onError
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: (view: SavedView) =>
+      apiRequest(`/api/saved-views/${view.id}/default`, { method: view.isDefault ? 'DELETE' : 'POST' }),
+    onSuccess: invalidate,
+    onError
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (viewId: number) => apiRequest(`/api/saved-views/${viewId}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+    onError
+  });
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: 'Link copied', description: 'Anyone with access to these leads sees the same filters.' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the link', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" data-testid="button-saved-views">
+            <Bookmark className="h-4 w-4 mr-2" />
+            {activeView ? activeView.name : 'Saved Views'}
+            <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-96" align="start">
+          <div className="space-y-3">
+            {views.length === 0 ? (
+              <p className="text-sm text-gray-500">No saved views yet.</p>
+            ) : (
+              <ul className="max-h-64 overflow-y-auto divide-y" data-testid="list-saved-views">
+                {views.map((view) => {
+                  const isOwn = view.ownerId === currentUser?.id;
+                  return (
+                    <li key={view.id} className="flex items-center justify-between gap-2 py-2">
+                      <button
+                        type="button"
+                        className="flex-1 text-left text-sm hover:underline"
+                        onClick={() => {
+                          onApply(view.query);
+                          setIsOpen(false);
+                        }}
+                        data-testid={`button-apply-view-${view.id}`}
+                      >
+                        <span className={view.id === activeView?.id ? 'font-semibold' : ''}>{view.name}</span>
+                        {view.isShared && (
+                          <Badge variant="secondary" className="ml-2">
+                            {isOwn ? 'Shared' : `by ${view.ownerName ?? 'unknown'}`}
+                          </Badge>
+                        )}
+                      </button>
+                      <span className="text-xs text-gray-500 w-12 text-right">{view.leadCount ?? '-'}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title={view.isDefault ? 'Stop opening this view by default' : 'Open this view by default'}
+                        onClick={() => defaultMutation.mutate(view)}
+                        disabled={defaultMutation.isPending}
+                      >
+                        <Star className={`h-4 w-4 ${view.isDefault ? 'fill-amber-400 text-amber-500' : ''}`} />
+                      </Button>
+                      {isOwn && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Save the current filters into this view"
+                          onClick={() => overwriteMutation.mutate(view)}
+                          disabled={overwriteMutation.isPending || view.query === currentQuery}
+                        >
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(isOwn || currentUser?.role === 'admin') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Delete view"
+                          onClick={() => deleteMutation.mutate(view.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-view-${view.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="border-t pt-3 space-y-2">
+              <Label htmlFor="saved-view-name">Save current filters as</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="saved-view-name"
+                  value={name}
+                  maxLength={60}
+                  placeholder="View name"
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-saved-view-name"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => createMutation.mutate()}
+                  disabled={!name.trim() || createMutation.isPending}
+                  data-testid="button-save-view"
+                >
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={isShared} onCheckedChange={(checked) => setIsShared(checked === true)} />
+                Share with all admins and managers
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={isDefault} onCheckedChange={(checked) => setIsDefault(checked === true)} />
+                Open by default
+              </label>
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+      <Button variant="outline" size="sm" onClick={copyLink} title="Copy a link to these filters" data-testid="button-copy-view-link">
+        <Link2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '../lib/queryClient';
+import { cacheUser, getCachedUser, type CurrentUser } from '../lib/auth';
+import TwoFactorSetup from './TwoFactorSetup';
+
+// Opt-in two-factor management from the dashboard headers
+const TwoFactorDialog = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [user, setUser] = useState<CurrentUser | null>(getCachedUser);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const updateUser = (updated: CurrentUser) => {
+    cacheUser(updated);
+    queryClient.setQueryData(['/api/auth/me'], updated);
+    setUser(updated);
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      const data = await apiRequest('/api/auth/two-factor/disable', {
+        method: 'POST',
+        body: JSON.stringify({ password }),
+      });
+      updateUser(data.user);
+      setPassword('');
+      toast({
+        title: "Two-factor authentication turned off",
+        description: "You will only need your password to sign in.",
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not turn off two-factor authentication');
+    }
+    setIsLoading(false);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) setUser(getCachedUser());
+    setPassword('');
+    setError('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-two-factor">
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Two-Factor
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            {user?.totpEnabled
+              ? 'Your account asks for an authenticator code at every sign-in.'
+              : 'Add an authenticator app code to your sign-in for extra protection.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!user?.totpEnabled ? (
+          open && (
+            <TwoFactorSetup
+              onComplete={(updated) => {
+                updateUser(updated);
+                setOpen(false);
+              }}
+            />
+          )
+        ) : user.totpRequired ? (
+          <Alert>
+            <AlertDescription>
+              An administrator requires two-factor authentication for your account, so it cannot be turned off.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleDisable} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">Confirm your password to turn it off</Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                data-testid="input-two-factor-password"
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="submit" variant="destructive" className="w-full" disabled={isLoading} data-testid="button-disable-two-factor">
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn Off Two-Factor Authentication
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TwoFactorDialog;
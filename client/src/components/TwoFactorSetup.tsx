@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Loader2 } from 'lucide-react';
+import { apiRequest } from '../lib/queryClient';
+import { cacheUser, type CurrentUser } from '../lib/auth';
+
+interface TwoFactorSetupProps {
+  onComplete: (user: CurrentUser) => void;
+}
+
+// Enrollment: scan the QR (or type the secret), confirm with a code, then save the recovery codes
+const TwoFactorSetup = ({ onComplete }: TwoFactorSetupProps) => {
+  const [setup, setSetup] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [enabledUser, setEnabledUser] = useState<CurrentUser | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    apiRequest('/api/auth/two-factor/setup', { method: 'POST' })
+      .then(setSetup)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not start setup'));
+  }, []);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      const data = await apiRequest('/api/auth/two-factor/enable', {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+      });
+      cacheUser(data.user);
+      setEnabledUser(data.user);
+      setRecoveryCodes(data.recoveryCodes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid authentication code');
+      setCode('');
+    }
+    setIsLoading(false);
+  };
+
+  if (recoveryCodes && enabledUser) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Two-factor authentication is on. Save these recovery codes somewhere safe - each one can be used
+          once to sign in if you lose your authenticator. They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 bg-gray-50 border rounded-lg p-4 font-mono text-sm" data-testid="list-recovery-codes">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <Button className="w-full" onClick={() => onComplete(enabledUser)} data-testid="button-recovery-codes-saved">
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      {setup ? (
+        <div className="space-y-3 text-center">
+          <img src={setup.qrCodeDataUrl} alt="Authenticator QR code" className="mx-auto h-44 w-44" />
+          <p className="text-sm text-gray-600">
+            Scan with your authenticator app, or enter this key manually:
+          </p>
+          <code className="block bg-gray-100 px-2 py-1 rounded text-sm break-all" data-testid="text-totp-secret">
+            {setup.secret}
+          </code>
+        </div>
+      ) : !error && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      )}
+
+      <div className="flex flex-col items-center space-y-2">
+        <p className="text-sm text-gray-600">Enter the 6-digit code from the app</p>
+        <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-totp-setup-code">
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="submit" className="w-full" disabled={!setup || code.length !== 6 || isLoading} data-testid="button-enable-two-factor">
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Turn On Two-Factor Authentication
+      </Button>
+    </form>
+  );
+};
+
+export default TwoFactorSetup;
@@ -0,0 +1,54 @@
+// Client-side view of the signed-in user. The server session is the source of truth;
+// localStorage only caches the profile so pages can render names and roles synchronously.
+
+export interface CurrentUser {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  phone?: string | null;
+  teamId?: number | null;
+  isActive: boolean;
+  mustChangePassword?: boolean;
+  totpEnabled?: boolean;
+  totpRequired?: boolean;
+}
+
+// Landing page for each role after sign-in
+export const homePathForRole = (role: string) => {
+  if (role === 'admin') return '/admin';
+  if (role === 'manager') return '/manager';
+  return '/counselor';
+};
+
+export const getCachedUser = (): CurrentUser | null => {
+  const user = localStorage.getItem('user');
+  return user ? JSON.parse(user) : null;
+};
+
+export const cacheUser = (user: CurrentUser) => {
+  localStorage.setItem('user', JSON.stringify(user));
+};
+
+// Returns the session user, or null when the session is missing or expired
+export const fetchCurrentUser = async (): Promise<CurrentUser | null> => {
+  const response = await fetch('/api/auth/me');
+  if (response.status === 401) {
+    localStorage.removeItem('user');
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  const data = await response.json();
+  cacheUser(data.user);
+  return data.user;
+};
+
+export const logout = async () => {
+  try {
+    await fetch('/api/auth/logout', { method: 'POST' });
+  } finally {
+    localStorage.removeItem('user');
+  }
+};
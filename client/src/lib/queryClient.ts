@@ -20,9 +20,20 @@ export const apiRequest = async (url: string, options: RequestInit = {}) => {
     ...options,
   });
 
+  // Session expired or missing - drop the cached user and send them back to sign in
+  if (response.status === 401 && !window.location.pathname.startsWith('/auth')) {
+    localStorage.removeItem('user');
+    window.location.assign('/auth');
+  }
+
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+    // Temporary password or pending 2FA enrollment - the sign-in page walks them through it
+    const setupRequired = errorData.code === 'PASSWORD_CHANGE_REQUIRED' || errorData.code === 'TWO_FACTOR_SETUP_REQUIRED';
+    if (setupRequired && !window.location.pathname.startsWith('/auth')) {
+      window.location.assign('/auth');
+    }
+    throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
   }
 
   return response.json();
@@ -1,16 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Users, UserPlus, TrendingUp, FileText, Loader2, RefreshCw } from 'lucide-react';
+import { Users, UserPlus, TrendingUp, FileText, Loader2, RefreshCw, ScrollText, Copy, Archive, SlidersHorizontal, Tags, Gauge, Shuffle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '../lib/queryClient';
+import { logout } from '../lib/auth';
+import ChangePasswordDialog from '@/components/ChangePasswordDialog';
+import TwoFactorDialog from '@/components/TwoFactorDialog';
+import GlobalSearch from '@/components/GlobalSearch';
+import TagPicker from '@/components/LeadTags';
+import { SavedViewsCard } from '@/components/SavedViews';
 import { useToast } from '@/hooks/use-toast';
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { toast } = useToast();
   const [stats, setStats] = useState(null);
+  const [statsTagIds, setStatsTagIds] = useState<number[]>([]);
   
   // Fetch all leads for recent activity
   const { data: allLeads = [], isLoading: leadsLoading } = useQuery({
@@ -62,15 +70,17 @@ const AdminDashboard = () => {
       return { ...lead, timeAgo };
     });
   
-  const handleLogout = () => {
-    localStorage.removeItem('user');
+  const handleLogout = async () => {
+    await logout();
+    queryClient.removeQueries({ queryKey: ['/api/auth/me'] });
     navigate('/auth');
   };
 
   useEffect(() => {
     const fetchStats = async () => {
       try {
-        const response = await fetch('/api/stats/overview');
+        const query = statsTagIds.map((id) => `tag=${id}`).join('&');
+        const response = await fetch(`/api/stats/overview${query ? `?${query}` : ''}`);
         if (response.ok) {
           const data = await response.json();
           setStats(data);
@@ -81,7 +91,7 @@ const AdminDashboard = () => {
     };
 
     fetchStats();
-  }, []);
+  }, [statsTagIds]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -95,9 +105,14 @@ const AdminDashboard = () => {
               </div>
               <h1 className="text-xl font-semibold text-gray-900">Admin Dashboard</h1>
             </div>
-            <Button variant="outline" onClick={handleLogout}>
-              Logout
-            </Button>
+            <div className="flex items-center gap-4">
+              <GlobalSearch />
+              <TwoFactorDialog />
+              <ChangePasswordDialog />
+              <Button variant="outline" onClick={handleLogout}>
+                Logout
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -109,6 +124,13 @@ const AdminDashboard = () => {
           <p className="text-gray-600">Here's what's happening with your CRM today.</p>
         </div>
 
+        <div className="flex items-center gap-2 mb-4">
+          <TagPicker selected={statsTagIds} onChange={setStatsTagIds} label="Filter by tag" />
+          {statsTagIds.length > 0 && (
+            <span className="text-sm text-gray-600">Stats below only count leads with the selected tags.</span>
+          )}
+        </div>
+
         {/* KPI Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card>
@@ -196,6 +218,62 @@ const AdminDashboard = () => {
                 <FileText className="mr-2 h-4 w-4" />
                 View Reports
               </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => navigate('/admin/audit')}
+              >
+                <ScrollText className="mr-2 h-4 w-4" />
+                Audit Log
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => navigate('/admin/duplicates')}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate Leads
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => navigate('/admin/archived')}
+              >
+                <Archive className="mr-2 h-4 w-4" />
+                Archived Leads
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => navigate('/admin/custom-fields')}
+              >
+                <SlidersHorizontal className="mr-2 h-4 w-4" />
+                Custom Fields
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => navigate('/admin/tags')}
+              >
+                <Tags className="mr-2 h-4 w-4" />
+                Tags
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => navigate('/admin/scoring')}
+              >
+                <Gauge className="mr-2 h-4 w-4" />
+                Lead Scoring
+              </Button>
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => navigate('/admin/assignment-rules')}
+              >
+                <Shuffle className="mr-2 h-4 w-4" />
+                Assignment Rules
+              </Button>
               <Button 
                 className="w-full justify-start" 
                 variant="outline"
@@ -252,6 +330,10 @@ const AdminDashboard = () => {
             </CardContent>
           </Card>
         </div>
+
+        <div className="mt-8">
+          <SavedViewsCard leadsPath="/admin/leads" />
+        </div>
       </main>
     </div>
   );
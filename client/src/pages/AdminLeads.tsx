@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,11 +8,18 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
-import { ArrowLeft, Search, Users, Filter, UserPlus, Loader2, ChevronDown, Check } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Search, Users, Filter, UserPlus, Loader2, ChevronDown, ChevronLeft, ChevronRight, Check, Tag, ListChecks } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { apiRequest } from '../lib/queryClient';
+import { getCachedUser, homePathForRole } from '../lib/auth';
 import { useToast } from '@/hooks/use-toast';
+import GlobalSearch from '@/components/GlobalSearch';
+import { useCustomFields } from '@/components/CustomFieldInput';
+import TagPicker, { TagBadge, useTags } from '@/components/LeadTags';
+import SavedViewsMenu, { useSavedViews } from '@/components/SavedViews';
+import ExportLeadsDialog from '@/components/ExportLeadsDialog';
+import BulkLeadActions, { useBulkLeadAction, type BulkLeadSelection } from '@/components/BulkLeadActions';
 
 // 18 stages for the CRM pipeline
 const LEAD_STAGES = [
@@ -36,27 +43,151 @@ const LEAD_STAGES = [
   'Commission Received'
 ];
 
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'score:desc', label: 'Highest score' },
+  { value: 'name:asc', label: 'Name A-Z' },
+  { value: 'name:desc', label: 'Name Z-A' },
+  { value: 'currentStage:asc', label: 'Stage' },
+  { value: 'country:asc', label: 'Country' },
+  { value: 'intake:asc', label: 'Intake' }
+];
+
+// The page keeps its filters in the URL, with the same params as GET /api/leads, so a filtered
+// list can be bookmarked, shared as a link or saved as a view. No params at all means the defaults.
+const filtersFromQuery = (params: URLSearchParams) => {
+  const sort = `${params.get('sortBy') ?? 'createdAt'}:${params.get('sortDir') ?? 'desc'}`;
+  return {
+    stages: params.toString() ? params.getAll('stage') : ['Yet to Assign'],
+    search: params.get('search') ?? '',
+    country: params.get('country') ?? '',
+    intake: params.get('intake') ?? '',
+    source: params.get('source') ?? '',
+    counselor: params.get('counselorId') ?? '',
+    createdFrom: params.get('createdFrom') ?? '',
+    createdTo: params.get('createdTo') ?? '',
+    customFields: Object.fromEntries(
+      Array.from(params.entries())
+        .filter(([key]) => key.startsWith('cf.'))
+        .map(([key, value]) => [key.slice(3), value])
+    ),
+    tags: params.getAll('tag').map(Number).filter((id) => Number.isInteger(id) && id > 0),
+    sort: SORT_OPTIONS.some((option) => option.value === sort) ? sort : SORT_OPTIONS[0].value
+  };
+};
 
 const AdminLeads = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { toast } = useToast();
-  const [selectedStages, setSelectedStages] = useState<string[]>(['Yet to Assign']);
-  const [searchTerm, setSearchTerm] = useState('');
+  // Managers share this page; the API already limits them to their teams' leads and counselors
+  const isManager = getCachedUser()?.role === 'manager';
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialFilters] = useState(() => filtersFromQuery(searchParams));
+  const openedWithFilters = useRef(searchParams.toString() !== '');
+  const [selectedStages, setSelectedStages] = useState<string[]>(initialFilters.stages);
+  const [searchTerm, setSearchTerm] = useState(initialFilters.search);
   const [selectedLeads, setSelectedLeads] = useState<number[]>([]);
   const [selectedCounselor, setSelectedCounselor] = useState('');
   const [showBulkAssign, setShowBulkAssign] = useState(false);
+  const [showBulkTag, setShowBulkTag] = useState(false);
+  const [showBulkUpdate, setShowBulkUpdate] = useState(false);
+  // Bulk actions go to every lead matching the filters rather than just the checked rows
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [bulkTagIds, setBulkTagIds] = useState<number[]>([]);
   
   // Dynamic filter states
-  const [countryFilter, setCountryFilter] = useState('');
-  const [intakeFilter, setIntakeFilter] = useState('');
-  const [sourceFilter, setSourceFilter] = useState('');
-  const [counselorFilter, setCounselorFilter] = useState('');
-
-  // Fetch leads
-  const { data: leads = [], isLoading: leadsLoading } = useQuery({
-    queryKey: ['/api/leads'],
-    queryFn: () => apiRequest('/api/leads')
+  const [countryFilter, setCountryFilter] = useState(initialFilters.country);
+  const [intakeFilter, setIntakeFilter] = useState(initialFilters.intake);
+  const [sourceFilter, setSourceFilter] = useState(initialFilters.source);
+  const [counselorFilter, setCounselorFilter] = useState(initialFilters.counselor);
+  const [createdFrom, setCreatedFrom] = useState(initialFilters.createdFrom);
+  const [createdTo, setCreatedTo] = useState(initialFilters.createdTo);
+  // Selected option per select/multiselect custom field key
+  const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>(initialFilters.customFields);
+  const [tagFilter, setTagFilter] = useState<number[]>(initialFilters.tags);
+  const [sort, setSort] = useState(initialFilters.sort);
+  const [debouncedSearch, setDebouncedSearch] = useState(initialFilters.search);
+  const [page, setPage] = useState(1);
+
+  // Wait for a pause in typing before searching on the server
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Filtering, sorting and paging all happen on the server
+  const filterParams = new URLSearchParams();
+  selectedStages.forEach((stage) => filterParams.append('stage', stage));
+  if (debouncedSearch) filterParams.set('search', debouncedSearch);
+  if (countryFilter && countryFilter !== 'all-countries') filterParams.set('country', countryFilter);
+  if (intakeFilter && intakeFilter !== 'all-intakes') filterParams.set('intake', intakeFilter);
+  if (sourceFilter && sourceFilter !== 'all-sources') filterParams.set('source', sourceFilter);
+  if (counselorFilter && counselorFilter !== 'all-counselors') filterParams.set('counselorId', counselorFilter);
+  if (createdFrom) filterParams.set('createdFrom', createdFrom);
+  if (createdTo) filterParams.set('createdTo', createdTo);
+  Object.entries(customFieldFilters).forEach(([key, value]) => {
+    if (value) filterParams.set(`cf.${key}`, value);
+  });
+  tagFilter.forEach((tagId) => filterParams.append('tag', String(tagId)));
+  const [sortBy, sortDir] = sort.split(':');
+  filterParams.set('sortBy', sortBy);
+  filterParams.set('sortDir', sortDir);
+  const filterKey = filterParams.toString();
+
+  // Any filter or sort change goes back to the first page, drops the selection and updates the URL
+  useEffect(() => {
+    setPage(1);
+    setSelectedLeads([]);
+    setSelectAllMatching(false);
+    setSearchParams(filterKey, { replace: true });
+  }, [filterKey]);
+
+  const applyFilters = (query: string) => {
+    const filters = filtersFromQuery(new URLSearchParams(query));
+    setSelectedStages(filters.stages);
+    setSearchTerm(filters.search);
+    setDebouncedSearch(filters.search);
+    setCountryFilter(filters.country);
+    setIntakeFilter(filters.intake);
+    setSourceFilter(filters.source);
+    setCounselorFilter(filters.counselor);
+    setCreatedFrom(filters.createdFrom);
+    setCreatedTo(filters.createdTo);
+    setCustomFieldFilters(filters.customFields);
+    setTagFilter(filters.tags);
+    setSort(filters.sort);
+  };
+
+  // Without filters in the URL the page opens on the user's default view, if they have one
+  const { data: savedViews } = useSavedViews();
+  useEffect(() => {
+    if (openedWithFilters.current || !savedViews) return;
+    openedWithFilters.current = true;
+    const defaultView = savedViews.find((view) => view.isDefault);
+    if (defaultView) applyFilters(defaultView.query);
+  }, [savedViews]);
+
+  const { data, isLoading: leadsLoading } = useQuery<{ leads: any[]; total: number }>({
+    queryKey: ['/api/leads', filterKey, page],
+    queryFn: () => apiRequest(`/api/leads?${filterKey}&page=${page}&pageSize=${PAGE_SIZE}`),
+    placeholderData: keepPreviousData
+  });
+  const leads = data?.leads ?? [];
+  const totalLeads = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalLeads / PAGE_SIZE));
+  const firstShown = totalLeads === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const lastShown = Math.min(page * PAGE_SIZE, totalLeads);
+  const bulkSelection: BulkLeadSelection = selectAllMatching ? { query: filterKey } : { leadIds: selectedLeads };
+  const bulkCount = selectAllMatching ? totalLeads : selectedLeads.length;
+
+  const { data: filterOptions } = useQuery<{ countries: string[]; intakes: string[]; sources: string[] }>({
+    queryKey: ['/api/leads/filter-options'],
+    queryFn: () => apiRequest('/api/leads/filter-options')
   });
 
   // Fetch counselors
@@ -65,26 +196,16 @@ const AdminLeads = () => {
     queryFn: () => apiRequest('/api/users/counselors')
   });
 
-  // Get unique filter values from leads data
-  const countries = Array.from(new Set(leads.map((lead: any) => lead.country).filter(Boolean))) as string[];
-  const intakes = Array.from(new Set(leads.map((lead: any) => lead.intake).filter(Boolean))) as string[];
-  const sources = Array.from(new Set(leads.map((lead: any) => lead.source).filter(Boolean))) as string[];
-
-  // Enhanced filtering with multiple criteria
-  const filteredLeads = leads.filter((lead: any) => {
-    const matchesStage = selectedStages.length === 0 || selectedStages.includes(lead.currentStage);
-    const matchesSearch = lead.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (lead.email && lead.email.toLowerCase().includes(searchTerm.toLowerCase())) ||
-                         (lead.phone && lead.phone.includes(searchTerm));
-    const matchesCountry = !countryFilter || countryFilter === 'all-countries' || lead.country === countryFilter;
-    const matchesIntake = !intakeFilter || intakeFilter === 'all-intakes' || lead.intake === intakeFilter;
-    const matchesSource = !sourceFilter || sourceFilter === 'all-sources' || lead.source === sourceFilter;
-    const matchesCounselor = !counselorFilter || counselorFilter === 'all-counselors' || 
-      (lead.counselorId && lead.counselorId.toString() === counselorFilter) ||
-      (counselorFilter === 'unassigned' && !lead.counselorId);
-    
-    return matchesStage && matchesSearch && matchesCountry && matchesIntake && matchesSource && matchesCounselor;
-  });
+  const { data: customFields = [] } = useCustomFields();
+  const filterableCustomFields = customFields.filter((field) => field.fieldType === 'select' || field.fieldType === 'multiselect');
+  const activeCustomFieldFilters = filterableCustomFields.filter((field) => customFieldFilters[field.key]);
+  const { data: tags = [] } = useTags();
+  const tagFilterNames = tags.filter((tag) => tagFilter.includes(tag.id)).map((tag) => tag.name);
+
+  const countries = filterOptions?.countries ?? [];
+  const intakes = filterOptions?.intakes ?? [];
+  const sources = filterOptions?.sources ?? [];
+  const hasExtraFilters = !!(countryFilter || intakeFilter || sourceFilter || counselorFilter || createdFrom || createdTo || activeCustomFieldFilters.length > 0 || tagFilter.length > 0);
 
   // Smart counselor suggestions based on current lead selection
   const getSmartCounselorSuggestions = () => {
@@ -99,25 +220,33 @@ const AdminLeads = () => {
     return counselors;
   };
 
-  const bulkAssignMutation = useMutation({
-    mutationFn: ({ leadIds, counselorId }: { leadIds: number[], counselorId: number }) =>
-      apiRequest('/api/leads/assign-bulk', {
+  const bulkAssignMutation = useBulkLeadAction(() => {
+    setSelectedLeads([]);
+    setSelectAllMatching(false);
+    setSelectedCounselor('');
+    setShowBulkAssign(false);
+  });
+
+  const bulkTagMutation = useMutation({
+    mutationFn: ({ action, leadIds, tagIds }: { action: 'add' | 'remove'; leadIds: number[]; tagIds: number[] }) =>
+      apiRequest('/api/leads/tags-bulk', {
         method: 'POST',
-        body: JSON.stringify({ leadIds, counselorId })
+        body: JSON.stringify({ action, leadIds, tagIds })
       }),
-    onSuccess: () => {
+    onSuccess: (_result, { action }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
-      toast({ title: 'Success', description: 'Leads assigned successfully' });
-      setSelectedLeads([]);
-      setSelectedCounselor('');
-      setShowBulkAssign(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      toast({ title: 'Success', description: action === 'add' ? 'Tags added to the selected leads' : 'Tags removed from the selected leads' });
+      setBulkTagIds([]);
+      setShowBulkTag(false);
     },
-    onError: () => {
-      toast({ title: 'Error', description: 'Failed to assign leads', variant: 'destructive' });
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to update tags', variant: 'destructive' });
     }
   });
 
   const handleSelectLead = (leadId: number) => {
+    setSelectAllMatching(false);
     setSelectedLeads(prev => 
       prev.includes(leadId) 
         ? prev.filter(id => id !== leadId)
@@ -126,10 +255,11 @@ const AdminLeads = () => {
   };
 
   const handleSelectAll = () => {
-    if (selectedLeads.length === filteredLeads.length) {
+    if (selectedLeads.length === leads.length) {
       setSelectedLeads([]);
+      setSelectAllMatching(false);
     } else {
-      setSelectedLeads(filteredLeads.map((lead: any) => lead.id));
+      setSelectedLeads(leads.map((lead: any) => lead.id));
     }
   };
 
@@ -137,7 +267,7 @@ const AdminLeads = () => {
     if (selectedLeads.length > 0 && selectedCounselor) {
       const counselor = counselors.find((c: any) => c.id.toString() === selectedCounselor);
       if (counselor) {
-        bulkAssignMutation.mutate({ leadIds: selectedLeads, counselorId: counselor.id });
+        bulkAssignMutation.mutate({ ...bulkSelection, action: 'assign', counselorId: counselor.id });
       }
     }
   };
@@ -164,7 +294,7 @@ const AdminLeads = () => {
             <div className="flex items-center">
               <Button 
                 variant="ghost" 
-                onClick={() => navigate('/admin')}
+                onClick={() => navigate(homePathForRole(isManager ? 'manager' : 'admin'))}
                 className="mr-4"
               >
                 <ArrowLeft className="h-4 w-4 mr-2" />
@@ -173,8 +303,9 @@ const AdminLeads = () => {
               <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
                 <Users className="h-5 w-5" />
               </div>
-              <h1 className="text-xl font-semibold text-gray-900">Lead Management</h1>
+              <h1 className="text-xl font-semibold text-gray-900">{isManager ? 'Team Leads' : 'Lead Management'}</h1>
             </div>
+            <GlobalSearch />
           </div>
         </div>
       </header>
@@ -265,13 +396,37 @@ const AdminLeads = () => {
                 className="whitespace-nowrap"
               >
                 <UserPlus className="h-4 w-4 mr-2" />
-                Assign Selected ({selectedLeads.length})
+                Assign Selected ({bulkCount})
               </Button>
             )}
+            {selectedLeads.length > 0 && (
+              <Button 
+                variant="outline"
+                onClick={() => setShowBulkUpdate(true)}
+                className="whitespace-nowrap"
+                data-testid="button-bulk-update"
+              >
+                <ListChecks className="h-4 w-4 mr-2" />
+                Update Selected
+              </Button>
+            )}
+            {selectedLeads.length > 0 && (
+              <Button 
+                variant="outline"
+                onClick={() => setShowBulkTag(true)}
+                className="whitespace-nowrap"
+                data-testid="button-bulk-tag"
+              >
+                <Tag className="h-4 w-4 mr-2" />
+                Tag Selected
+              </Button>
+            )}
+            {/* Admins export everything matching the filters */}
+            {!isManager && <ExportLeadsDialog query={filterKey} total={totalLeads} />}
           </div>
 
           {/* Additional Filters Row */}
-          <div className="flex gap-4 items-center">
+          <div className="flex flex-wrap gap-4 items-center">
             {/* Country Filter */}
             <div className="flex-shrink-0 w-40">
               <Select value={countryFilter} onValueChange={setCountryFilter}>
@@ -341,8 +496,73 @@ const AdminLeads = () => {
               </Select>
             </div>
 
+            {/* Custom field filters (select and multiselect fields) */}
+            {filterableCustomFields.map((field) => (
+              <div key={field.key} className="flex-shrink-0 w-40">
+                <Select
+                  value={customFieldFilters[field.key] || ''}
+                  onValueChange={(value) => setCustomFieldFilters((prev) => ({ ...prev, [field.key]: value === 'all' ? '' : value }))}
+                >
+                  <SelectTrigger data-testid={`filter-custom-${field.key}`}>
+                    <SelectValue placeholder={`All ${field.label}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All {field.label}</SelectItem>
+                    {field.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            {/* Tag filter: leads with any of the chosen tags */}
+            <TagPicker selected={tagFilter} onChange={setTagFilter} />
+
+            {/* Created date range */}
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={createdFrom}
+                onChange={(e) => setCreatedFrom(e.target.value)}
+                className="w-40"
+                aria-label="Created from"
+                data-testid="filter-created-from"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <Input
+                type="date"
+                value={createdTo}
+                onChange={(e) => setCreatedTo(e.target.value)}
+                className="w-40"
+                aria-label="Created to"
+                data-testid="filter-created-to"
+              />
+            </div>
+
+            {/* Sort */}
+            <div className="flex-shrink-0 w-44">
+              <Select value={sort} onValueChange={setSort}>
+                <SelectTrigger data-testid="select-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Saved views and a shareable link to the current filters */}
+            <SavedViewsMenu currentQuery={filterKey} onApply={applyFilters} />
+
             {/* Clear Filters */}
-            {(countryFilter || intakeFilter || sourceFilter || counselorFilter) && (
+            {hasExtraFilters && (
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -351,6 +571,10 @@ const AdminLeads = () => {
                   setIntakeFilter('');
                   setSourceFilter('');
                   setCounselorFilter('');
+                  setCreatedFrom('');
+                  setCreatedTo('');
+                  setCustomFieldFilters({});
+                  setTagFilter([]);
                 }}
                 data-testid="button-clear-filters"
               >
@@ -363,13 +587,16 @@ const AdminLeads = () => {
         {/* Results Summary */}
         <div className="mb-6">
           <div className="text-sm text-gray-600">
-            Showing {filteredLeads.length} leads {selectedStages.length === 0 ? 'across all stages' : selectedStages.length === 1 ? `in ${selectedStages[0]} stage` : `in ${selectedStages.length} selected stages`}
-            {(countryFilter || intakeFilter || sourceFilter || counselorFilter) && (
+            Showing {firstShown}-{lastShown} of {totalLeads} leads {selectedStages.length === 0 ? 'across all stages' : selectedStages.length === 1 ? `in ${selectedStages[0]} stage` : `in ${selectedStages.length} selected stages`}
+            {hasExtraFilters && (
               <span className="ml-2 text-orange-600">
                 (filtered by {[
                   countryFilter && `Country: ${countryFilter}`,
                   intakeFilter && `Intake: ${intakeFilter}`,
                   sourceFilter && `Source: ${sourceFilter}`,
+                  (createdFrom || createdTo) && `Created: ${createdFrom || '…'} to ${createdTo || '…'}`,
+                  ...activeCustomFieldFilters.map((field) => `${field.label}: ${customFieldFilters[field.key]}`),
+                  tagFilterNames.length > 0 && `Tags: ${tagFilterNames.join(' or ')}`,
                   counselorFilter && counselorFilter === 'unassigned' ? 'Counselor: Unassigned' : 
                     counselorFilter && counselors.find((c: any) => c.id.toString() === counselorFilter) ? 
                     `Counselor: ${counselors.find((c: any) => c.id.toString() === counselorFilter).name}` : null
@@ -379,13 +606,68 @@ const AdminLeads = () => {
           </div>
         </div>
 
+          {/* Bulk stage change, field update and archive */}
+          {showBulkUpdate && (
+            <BulkLeadActions
+              selection={bulkSelection}
+              count={bulkCount}
+              stages={LEAD_STAGES}
+              onDone={() => {
+                setSelectedLeads([]);
+                setSelectAllMatching(false);
+              }}
+              onCancel={() => setShowBulkUpdate(false)}
+            />
+          )}
+
+          {/* Bulk Tagging */}
+          {showBulkTag && (
+            <Card className="border-blue-200 bg-blue-50 mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg">Bulk Tagging</CardTitle>
+                <CardDescription>
+                  Add tags to or remove tags from {selectedLeads.length} selected leads
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap items-center gap-4">
+                  <TagPicker selected={bulkTagIds} onChange={setBulkTagIds} label="Choose tags" />
+                  <div className="flex flex-wrap gap-1 flex-1">
+                    {tags.filter((tag) => bulkTagIds.includes(tag.id)).map((tag) => (
+                      <TagBadge key={tag.id} tag={tag} />
+                    ))}
+                  </div>
+                  <Button
+                    onClick={() => bulkTagMutation.mutate({ action: 'add', leadIds: selectedLeads, tagIds: bulkTagIds })}
+                    disabled={bulkTagIds.length === 0 || bulkTagMutation.isPending}
+                    data-testid="button-bulk-tag-add"
+                  >
+                    {bulkTagMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Add Tags
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => bulkTagMutation.mutate({ action: 'remove', leadIds: selectedLeads, tagIds: bulkTagIds })}
+                    disabled={bulkTagIds.length === 0 || bulkTagMutation.isPending}
+                    data-testid="button-bulk-tag-remove"
+                  >
+                    Remove Tags
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowBulkTag(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Bulk Assignment Modal */}
           {showBulkAssign && (
             <Card className="border-orange-200 bg-orange-50">
               <CardHeader>
                 <CardTitle className="text-lg">Bulk Assignment</CardTitle>
                 <CardDescription>
-                  Assign {selectedLeads.length} selected leads to a counselor
+                  Assign {bulkCount} selected leads to a counselor
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -428,13 +710,16 @@ const AdminLeads = () => {
         {/* Results Summary */}
         <div className="mb-6">
           <div className="text-sm text-gray-600">
-            Showing {filteredLeads.length} leads {selectedStages.length === 0 ? 'across all stages' : selectedStages.length === 1 ? `in ${selectedStages[0]} stage` : `in ${selectedStages.length} selected stages`}
-            {(countryFilter || intakeFilter || sourceFilter || counselorFilter) && (
+            Showing {firstShown}-{lastShown} of {totalLeads} leads {selectedStages.length === 0 ? 'across all stages' : selectedStages.length === 1 ? `in ${selectedStages[0]} stage` : `in ${selectedStages.length} selected stages`}
+            {hasExtraFilters && (
               <span className="ml-2 text-orange-600">
                 (filtered by {[
                   countryFilter && `Country: ${countryFilter}`,
                   intakeFilter && `Intake: ${intakeFilter}`,
                   sourceFilter && `Source: ${sourceFilter}`,
+                  (createdFrom || createdTo) && `Created: ${createdFrom || '…'} to ${createdTo || '…'}`,
+                  ...activeCustomFieldFilters.map((field) => `${field.label}: ${customFieldFilters[field.key]}`),
+                  tagFilterNames.length > 0 && `Tags: ${tagFilterNames.join(' or ')}`,
                   counselorFilter && counselorFilter === 'unassigned' ? 'Counselor: Unassigned' : 
                     counselorFilter && counselors.find((c: any) => c.id.toString() === counselorFilter) ? 
                     `Counselor: ${counselors.find((c: any) => c.id.toString() === counselorFilter).name}` : null
@@ -442,6 +727,25 @@ const AdminLeads = () => {
               </span>
             )}
           </div>
+          {selectedLeads.length === leads.length && leads.length > 0 && totalLeads > leads.length && (
+            <div className="mt-2 text-sm text-gray-700" data-testid="text-select-all-matching">
+              {selectAllMatching ? (
+                <>
+                  All {totalLeads} leads matching these filters are selected for bulk actions.{' '}
+                  <button type="button" className="text-primary underline" onClick={() => setSelectAllMatching(false)}>
+                    Select only this page
+                  </button>
+                </>
+              ) : (
+                <>
+                  All {leads.length} leads on this page are selected.{' '}
+                  <button type="button" className="text-primary underline" onClick={() => setSelectAllMatching(true)}>
+                    Select all {totalLeads} leads matching these filters
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Leads Table */}
@@ -451,7 +755,7 @@ const AdminLeads = () => {
               <TableRow>
                 <TableHead className="w-12">
                   <Checkbox
-                    checked={selectedLeads.length === filteredLeads.length && filteredLeads.length > 0}
+                    checked={selectedLeads.length === leads.length && leads.length > 0}
                     onCheckedChange={handleSelectAll}
                   />
                 </TableHead>
@@ -475,7 +779,7 @@ const AdminLeads = () => {
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredLeads.map((lead: any) => (
+                leads.map((lead: any) => (
                   <TableRow key={lead.id}>
                     <TableCell>
                       <Checkbox
@@ -483,7 +787,16 @@ const AdminLeads = () => {
                         onCheckedChange={() => handleSelectLead(lead.id)}
                       />
                     </TableCell>
-                    <TableCell className="font-medium">{lead.name}</TableCell>
+                    <TableCell className="font-medium">
+                      {lead.name}
+                      {lead.tags?.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {lead.tags.map((tag: any) => (
+                            <TagBadge key={tag.id} tag={tag} />
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>{lead.email}</TableCell>
                     <TableCell>{lead.phone}</TableCell>
                     <TableCell>{lead.country || '-'}</TableCell>
@@ -511,7 +824,32 @@ const AdminLeads = () => {
           </Table>
         </Card>
 
-        {!leadsLoading && filteredLeads.length === 0 && (
+        {/* Pagination */}
+        {totalLeads > PAGE_SIZE && (
+          <div className="flex items-center justify-end space-x-2 mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+              data-testid="button-leads-prev"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+              data-testid="button-leads-next"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {!leadsLoading && leads.length === 0 && (
           <div className="text-center py-12">
             <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No leads found</h3>
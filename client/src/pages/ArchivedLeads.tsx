@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Archive, ArchiveRestore, Search, Loader2, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 50;
+
+interface ArchivedLead {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string;
+  currentStage: string;
+  counselorName: string | null;
+  archivedAt: string;
+  archiveReason: string | null;
+}
+
+// Admin view of archived (soft-deleted) leads: restore them or purge them for good
+const ArchivedLeads = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const params = new URLSearchParams({ archived: 'true', sortBy: 'updatedAt', sortDir: 'desc' });
+  if (debouncedSearch) params.set('search', debouncedSearch);
+  const filterKey = params.toString();
+
+  const { data, isLoading } = useQuery<{ leads: ArchivedLead[]; total: number }>({
+    queryKey: ['/api/leads', filterKey, page],
+    queryFn: () => apiRequest(`/api/leads?${filterKey}&page=${page}&pageSize=${PAGE_SIZE}`),
+    placeholderData: keepPreviousData
+  });
+  const leads = data?.leads ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const restoreMutation = useMutation({
+    mutationFn: (leadId: number) => apiRequest(`/api/leads/${leadId}/restore`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({ title: 'Lead restored', description: 'It is back in the lead lists.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to restore lead', variant: 'destructive' });
+    }
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (leadId: number) => apiRequest(`/api/leads/${leadId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({ title: 'Lead purged', description: 'The lead and all of its records were deleted.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to purge lead', variant: 'destructive' });
+    }
+  });
+
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-2" data-testid="button-back-to-admin">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <Archive className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Archived Leads</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-between items-center mb-6 gap-4">
+          <p className="text-sm text-gray-600">
+            {total} archived lead{total === 1 ? '' : 's'}. Archived leads are left out of lead lists, search and stats.
+            Purging deletes the lead with its tasks, remarks, stage history, documents, universities and tags.
+          </p>
+          <div className="relative w-72 shrink-0">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search archived leads..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+              data-testid="input-search-archived"
+            />
+          </div>
+        </div>
+
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Counselor</TableHead>
+                <TableHead>Archived</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                    <div>Loading archived leads...</div>
+                  </TableCell>
+                </TableRow>
+              ) : leads.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-12 text-gray-500">
+                    {debouncedSearch ? 'No archived leads match your search.' : 'No archived leads.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                leads.map((lead) => (
+                  <TableRow key={lead.id} data-testid={`row-archived-lead-${lead.id}`}>
+                    <TableCell className="font-medium">{lead.name}</TableCell>
+                    <TableCell>{lead.phone}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{lead.currentStage}</Badge>
+                    </TableCell>
+                    <TableCell>{lead.counselorName || 'Unassigned'}</TableCell>
+                    <TableCell>{new Date(lead.archivedAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={lead.archiveReason || ''}>
+                      {lead.archiveReason || '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => navigate(`/lead/${lead.id}`)}>
+                          View
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(lead.id)}
+                          disabled={isBusy}
+                          data-testid={`button-restore-lead-${lead.id}`}
+                        >
+                          <ArchiveRestore className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              disabled={isBusy}
+                              data-testid={`button-purge-lead-${lead.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Purge
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Permanently delete {lead.name}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The lead and all of its tasks, remarks, stage history, documents and university
+                                applications are deleted. This cannot be undone; only the audit log keeps a record.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => purgeMutation.mutate(lead.id)}
+                                data-testid={`button-confirm-purge-${lead.id}`}
+                              >
+                                Purge
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        {/* Pagination */}
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-end space-x-2 mt-4">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ArchivedLeads;
@@ -0,0 +1,543 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Shuffle, Plus, Loader2, Edit3, Trash2, Eye } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type AssignmentStrategy = 'round_robin' | 'least_loaded' | 'weighted';
+
+interface AssignmentConditions {
+  countries?: string[];
+  sources?: string[];
+  intakes?: string[];
+  languages?: string[];
+}
+
+interface AssignmentRule {
+  id: number;
+  name: string;
+  priority: number;
+  conditions: AssignmentConditions;
+  strategy: AssignmentStrategy;
+  strategyLabel: string;
+  targets: { counselorId: number; weight: number }[];
+  isActive: boolean;
+}
+
+interface Counselor {
+  id: number;
+  name: string;
+}
+
+interface PreviewLead {
+  id: number;
+  name: string;
+  country: string | null;
+  source: string | null;
+  intake: string | null;
+  preferredLanguage: string | null;
+  counselorId: number | null;
+  counselorName: string | null;
+  ruleId: number | null;
+  ruleName: string | null;
+}
+
+const STRATEGIES: { value: AssignmentStrategy; label: string; description: string }[] = [
+  { value: 'round_robin', label: 'Round robin', description: 'Takes turns through the counselors in order.' },
+  { value: 'least_loaded', label: 'Least loaded', description: 'Gives each lead to the counselor with the fewest open leads.' },
+  { value: 'weighted', label: 'Weighted', description: 'Splits leads in proportion to each counselor\'s weight.' }
+];
+
+const CONDITION_FIELDS: { key: keyof AssignmentConditions; label: string; placeholder: string }[] = [
+  { key: 'countries', label: 'Countries', placeholder: 'e.g. UK, Ireland' },
+  { key: 'sources', label: 'Sources', placeholder: 'e.g. Website, Referral' },
+  { key: 'intakes', label: 'Intakes', placeholder: 'e.g. Fall 2026, 2027' },
+  { key: 'languages', label: 'Preferred languages', placeholder: 'e.g. Tamil, Hindi' }
+];
+
+const splitList = (value: string) => value.split(',').map((v) => v.trim()).filter(Boolean);
+
+const describeConditions = (conditions: AssignmentConditions) => {
+  const parts = CONDITION_FIELDS.filter((f) => conditions[f.key]?.length).map(
+    (f) => `${f.label}: ${conditions[f.key]!.join(', ')}`
+  );
+  return parts.length > 0 ? parts.join(' · ') : 'Every lead';
+};
+
+// Admin screen for the rules that pick a counselor for new leads
+const AssignmentRules = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<AssignmentRule | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [priority, setPriority] = useState('0');
+  const [strategy, setStrategy] = useState<AssignmentStrategy>('round_robin');
+  const [conditions, setConditions] = useState<Record<keyof AssignmentConditions, string>>({
+    countries: '',
+    sources: '',
+    intakes: '',
+    languages: ''
+  });
+  const [weights, setWeights] = useState<Record<number, string>>({}); // selected counselors -> weight
+  const [isActive, setIsActive] = useState(true);
+  const [preview, setPreview] = useState<{ leads: PreviewLead[]; limit: number } | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<AssignmentRule[]>({
+    queryKey: ['/api/assignment-rules'],
+    queryFn: () => apiRequest('/api/assignment-rules')
+  });
+
+  const { data: counselors = [] } = useQuery<Counselor[]>({
+    queryKey: ['/api/users/counselors'],
+    queryFn: () => apiRequest('/api/users/counselors')
+  });
+  const counselorNames = new Map(counselors.map((c) => [c.id, c.name]));
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(editing ? `/api/assignment-rules/${editing.id}` : '/api/assignment-rules', {
+        method: editing ? 'PUT' : 'POST',
+        body: JSON.stringify({
+          name,
+          priority: Number(priority),
+          strategy,
+          conditions: Object.fromEntries(CONDITION_FIELDS.map((f) => [f.key, splitList(conditions[f.key])])),
+          targets: Object.entries(weights).map(([counselorId, weight]) => ({
+            counselorId: Number(counselorId),
+            weight: Number(weight) || 1
+          })),
+          isActive
+        })
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      toast({ title: 'Success', description: editing ? 'Rule updated' : 'Rule created' });
+      setIsDialogOpen(false);
+      setPreview(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to save rule', variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: number) => apiRequest(`/api/assignment-rules/${ruleId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      toast({ title: 'Rule deleted' });
+      setPreview(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete rule', variant: 'destructive' });
+    }
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => apiRequest('/api/assignment-rules/preview'),
+    onSuccess: (result: { leads: PreviewLead[]; limit: number }) => setPreview(result),
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to preview assignments', variant: 'destructive' });
+    }
+  });
+
+  const matched = preview?.leads.filter((lead) => lead.counselorId !== null) ?? [];
+
+  const applyMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('/api/assignment-rules/apply', {
+        method: 'POST',
+        body: JSON.stringify({
+          assignments: matched.map((lead) => ({ leadId: lead.id, counselorId: lead.counselorId, ruleId: lead.ruleId }))
+        })
+      }),
+    onSuccess: (result: { assigned: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      toast({ title: 'Leads assigned', description: `${result.assigned} lead${result.assigned === 1 ? '' : 's'} assigned.` });
+      setPreview(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to apply assignments', variant: 'destructive' });
+    }
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setName('');
+    setPriority(String(rules.length > 0 ? Math.max(...rules.map((r) => r.priority)) + 10 : 10));
+    setStrategy('round_robin');
+    setConditions({ countries: '', sources: '', intakes: '', languages: '' });
+    setWeights({});
+    setIsActive(true);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (rule: AssignmentRule) => {
+    setEditing(rule);
+    setName(rule.name);
+    setPriority(String(rule.priority));
+    setStrategy(rule.strategy);
+    setConditions({
+      countries: (rule.conditions.countries ?? []).join(', '),
+      sources: (rule.conditions.sources ?? []).join(', '),
+      intakes: (rule.conditions.intakes ?? []).join(', '),
+      languages: (rule.conditions.languages ?? []).join(', ')
+    });
+    // Deactivated counselors drop off the rule when it is saved
+    setWeights(
+      Object.fromEntries(rule.targets.filter((t) => counselorNames.has(t.counselorId)).map((t) => [t.counselorId, String(t.weight)]))
+    );
+    setIsActive(rule.isActive);
+    setIsDialogOpen(true);
+  };
+
+  const toggleCounselor = (counselorId: number, checked: boolean) =>
+    setWeights((prev) => {
+      const next = { ...prev };
+      if (checked) next[counselorId] = '1';
+      else delete next[counselorId];
+      return next;
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-2" data-testid="button-back-to-admin">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <Shuffle className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Assignment Rules</h1>
+            </div>
+            <Button onClick={openCreate} data-testid="button-add-assignment-rule">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <p className="text-sm text-gray-600">
+          New leads without a counselor (created without one, or imported with a blank or unknown counsellor) are
+          assigned by the first active rule, lowest priority number first, that matches the lead and has an active
+          counselor. A rule with no conditions matches every lead. Leads that match no rule stay unassigned.
+        </p>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Matches</TableHead>
+                  <TableHead>Distribution</TableHead>
+                  <TableHead>Counselors</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                      <div>Loading rules...</div>
+                    </TableCell>
+                  </TableRow>
+                ) : rules.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-12 text-gray-500">
+                      No rules yet. Leads without a counselor stay unassigned.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rules.map((rule) => (
+                    <TableRow key={rule.id} data-testid={`row-assignment-rule-${rule.id}`}>
+                      <TableCell>{rule.priority}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{rule.name}</div>
+                        {!rule.isActive && <Badge variant="secondary">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600 max-w-xs">{describeConditions(rule.conditions)}</TableCell>
+                      <TableCell>{rule.strategyLabel}</TableCell>
+                      <TableCell className="text-sm">
+                        {rule.targets
+                          .map((t) =>
+                            `${counselorNames.get(t.counselorId) ?? `Inactive #${t.counselorId}`}${rule.strategy === 'weighted' ? ` (${t.weight})` : ''}`
+                          )
+                          .join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEdit(rule)} data-testid={`button-edit-assignment-rule-${rule.id}`}>
+                            <Edit3 className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                disabled={deleteMutation.isPending}
+                                data-testid={`button-delete-assignment-rule-${rule.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete the rule "{rule.name}"?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Leads already assigned keep their counselor. New leads it would have matched go to the next matching rule.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => deleteMutation.mutate(rule.id)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle className="text-lg">Assign Unassigned Leads</CardTitle>
+                <CardDescription>
+                  Preview where the current rules would send open leads that have no counselor, then apply.
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={previewMutation.isPending}
+                data-testid="button-preview-assignments"
+              >
+                {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                Preview
+              </Button>
+            </div>
+          </CardHeader>
+          {preview && (
+            <CardContent className="space-y-4">
+              <div className="flex justify-between items-center">
+                <p className="text-sm text-gray-600">
+                  {matched.length} of {preview.leads.length} unassigned lead{preview.leads.length === 1 ? '' : 's'} would be assigned
+                  {preview.leads.length === preview.limit ? ` (the oldest ${preview.limit} are previewed at a time)` : ''}.
+                </p>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={matched.length === 0 || applyMutation.isPending} data-testid="button-apply-assignments">
+                      {applyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Apply {matched.length} Assignment{matched.length === 1 ? '' : 's'}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Assign {matched.length} leads?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Each lead goes to the counselor shown in the preview. If any of them has been assigned in the
+                        meantime nothing is changed and you are asked to preview again.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => applyMutation.mutate()}>Assign</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+              <div className="max-h-96 overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Lead</TableHead>
+                      <TableHead>Country</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Intake</TableHead>
+                      <TableHead>Language</TableHead>
+                      <TableHead>Counselor</TableHead>
+                      <TableHead>Rule</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.leads.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                          Every open lead has a counselor.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      preview.leads.map((lead) => (
+                        <TableRow key={lead.id} data-testid={`row-preview-lead-${lead.id}`}>
+                          <TableCell className="font-medium">{lead.name}</TableCell>
+                          <TableCell>{lead.country || '-'}</TableCell>
+                          <TableCell>{lead.source || '-'}</TableCell>
+                          <TableCell>{lead.intake || '-'}</TableCell>
+                          <TableCell>{lead.preferredLanguage || '-'}</TableCell>
+                          <TableCell>{lead.counselorName ?? <span className="text-gray-500">Stays unassigned</span>}</TableCell>
+                          <TableCell>{lead.ruleName || '-'}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      </main>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add Assignment Rule'}</DialogTitle>
+            <DialogDescription>
+              Leave a condition empty to match any value. Values are not case-sensitive; intakes also match partly, so
+              "2026" covers every 2026 intake.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-assignment-rule-name" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input id="rule-priority" type="number" value={priority} onChange={(e) => setPriority(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {CONDITION_FIELDS.map((f) => (
+                <div key={f.key} className="space-y-2">
+                  <Label htmlFor={`rule-${f.key}`}>{f.label}</Label>
+                  <Input
+                    id={`rule-${f.key}`}
+                    value={conditions[f.key]}
+                    placeholder={f.placeholder}
+                    onChange={(e) => setConditions((prev) => ({ ...prev, [f.key]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Distribution</Label>
+              <Select value={strategy} onValueChange={(value) => setStrategy(value as AssignmentStrategy)}>
+                <SelectTrigger data-testid="select-assignment-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STRATEGIES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">{STRATEGIES.find((s) => s.value === strategy)?.description}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Counselors{strategy === 'weighted' ? ' and weights' : ''}</Label>
+              <div className="border rounded-md divide-y max-h-60 overflow-y-auto">
+                {counselors.map((counselor) => {
+                  const selected = weights[counselor.id] !== undefined;
+                  return (
+                    <div key={counselor.id} className="flex items-center justify-between px-3 py-2">
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={selected}
+                          onCheckedChange={(checked) => toggleCounselor(counselor.id, checked === true)}
+                          data-testid={`checkbox-rule-counselor-${counselor.id}`}
+                        />
+                        {counselor.name}
+                      </label>
+                      {selected && strategy === 'weighted' && (
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          className="w-20 h-8"
+                          value={weights[counselor.id]}
+                          onChange={(e) => setWeights((prev) => ({ ...prev, [counselor.id]: e.target.value }))}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {editing && (
+                <p className="text-xs text-gray-500">Saving restarts this rule's rotation from an even split.</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-active">Active</Label>
+              <Switch id="rule-active" checked={isActive} onCheckedChange={setIsActive} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!name.trim() || Object.keys(weights).length === 0 || saveMutation.isPending}
+                data-testid="button-save-assignment-rule"
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AssignmentRules;
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ScrollText, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+interface AuditEntry {
+  id: number;
+  actorId: number | null;
+  actorName: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  details: Record<string, unknown> | null;
+  method: string | null;
+  path: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+const ENTITY_TYPES = ['lead', 'user', 'team', 'document', 'university_application', 'custom_field', 'tag', 'scoring_rule', 'assignment_rule', 'saved_view'];
+const ALL = 'all';
+const PAGE_SIZE = 50;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '∅';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Admin view of the append-only audit log, filterable by user, entity and date
+const AuditLog = () => {
+  const navigate = useNavigate();
+  const [actorId, setActorId] = useState(ALL);
+  const [entityType, setEntityType] = useState(ALL);
+  const [entityId, setEntityId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['/api/users'],
+    queryFn: () => apiRequest('/api/users')
+  });
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (actorId !== ALL) params.set('actorId', actorId);
+  if (entityType !== ALL) params.set('entityType', entityType);
+  if (entityId.trim()) params.set('entityId', entityId.trim());
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+
+  const { data, isLoading } = useQuery<{ entries: AuditEntry[]; total: number }>({
+    queryKey: ['/api/audit-log', params.toString()],
+    queryFn: () => apiRequest(`/api/audit-log?${params.toString()}`)
+  });
+
+  const entries = data?.entries ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  // Any filter change goes back to the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-2" data-testid="button-back-to-admin">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <ScrollText className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Audit Log</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+            <CardDescription>Every change made through the CRM is recorded here and cannot be edited</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <div className="space-y-2">
+                <Label>User</Label>
+                <Select value={actorId} onValueChange={withReset(setActorId)}>
+                  <SelectTrigger data-testid="select-audit-user">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All users</SelectItem>
+                    {users.map((user: any) => (
+                      <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entity</Label>
+                <Select value={entityType} onValueChange={withReset(setEntityType)}>
+                  <SelectTrigger data-testid="select-audit-entity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All entities</SelectItem>
+                    {ENTITY_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-entity-id">Entity ID</Label>
+                <Input
+                  id="audit-entity-id"
+                  placeholder="e.g. 42"
+                  value={entityId}
+                  onChange={(e) => withReset(setEntityId)(e.target.value)}
+                  data-testid="input-audit-entity-id"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={from}
+                  onChange={(e) => withReset(setFrom)(e.target.value)}
+                  data-testid="input-audit-from"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={to}
+                  onChange={(e) => withReset(setTo)(e.target.value)}
+                  data-testid="input-audit-to"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Entries</CardTitle>
+                <CardDescription>{data?.total ?? 0} matching entries - click a row to see what changed</CardDescription>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                  data-testid="button-audit-prev"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage(page + 1)}
+                  data-testid="button-audit-next"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changed Fields</TableHead>
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                      <div>Loading audit log...</div>
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                      No entries match these filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => (
+                    <React.Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                        data-testid={`row-audit-${entry.id}`}
+                      >
+                        <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{entry.actorName || (entry.actorId ? `User #${entry.actorId}` : 'Anonymous')}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{entry.action}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {entry.entityType}{entry.entityId ? ` #${entry.entityId}` : ''}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {entry.changes ? Object.keys(entry.changes).join(', ') : '-'}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{entry.ipAddress || '-'}</TableCell>
+                      </TableRow>
+                      {expandedId === entry.id && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="bg-gray-50">
+                            <div className="space-y-3 text-sm">
+                              <div className="text-gray-500">
+                                {entry.method} {entry.path}
+                              </div>
+                              {entry.changes && (
+                                <div className="space-y-1">
+                                  {Object.entries(entry.changes).map(([field, change]) => (
+                                    <div key={field} className="font-mono break-all">
+                                      <span className="font-semibold">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                              {entry.details && (
+                                <pre className="bg-white border rounded p-2 overflow-x-auto">
+                                  {JSON.stringify(entry.details, null, 2)}
+                                </pre>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AuditLog;
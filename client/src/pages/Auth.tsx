@@ -7,6 +7,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { GraduationCap, Users, Shield } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { cacheUser, getCachedUser, homePathForRole, type CurrentUser } from '@/lib/auth';
+import { apiRequest } from '../lib/queryClient';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import TwoFactorSetup from '@/components/TwoFactorSetup';
 
 
 const Auth = () => {
@@ -14,7 +19,35 @@ const Auth = () => {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Set when the signed-in account still holds a temporary password or must enroll in 2FA
+  const [pendingUser, setPendingUser] = useState<CurrentUser | null>(() => {
+    const cached = getCachedUser();
+    return cached?.mustChangePassword || (cached?.totpRequired && !cached?.totpEnabled) ? cached : null;
+  });
+  // Password accepted, waiting for the authenticator or recovery code
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [otpCode, setOtpCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const completeSignIn = (user: CurrentUser) => {
+    // Session cookie is set by the server; cache the profile for the UI
+    cacheUser(user);
+    queryClient.setQueryData(['/api/auth/me'], user);
+
+    if (user.mustChangePassword || (user.totpRequired && !user.totpEnabled)) {
+      setPendingUser(user);
+      return;
+    }
+    setPendingUser(null);
+
+    // Navigate based on role
+    navigate(homePathForRole(user.role));
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,16 +65,10 @@ const Auth = () => {
 
       const data = await response.json();
 
-      if (response.ok) {
-        // Store user info in localStorage
-        localStorage.setItem('user', JSON.stringify(data.user));
-        
-        // Navigate based on role
-        if (data.user.role === 'admin') {
-          navigate('/admin');
-        } else {
-          navigate('/counselor');
-        }
+      if (response.ok && data.twoFactorRequired) {
+        setTwoFactorStep(true);
+      } else if (response.ok) {
+        completeSignIn(data.user);
       } else {
         setError(data.error || 'Invalid credentials');
       }
@@ -52,6 +79,53 @@ const Auth = () => {
     setIsLoading(false);
   };
 
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const data = await apiRequest('/api/auth/login/two-factor', {
+        method: 'POST',
+        body: JSON.stringify(useRecoveryCode ? { recoveryCode } : { code: otpCode }),
+      });
+      setTwoFactorStep(false);
+      completeSignIn(data.user);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid authentication code';
+      setError(message);
+      setOtpCode('');
+      // The server drops the half-finished sign-in after too many bad codes
+      if (message.includes('sign in again')) {
+        setTwoFactorStep(false);
+        setPassword('');
+      }
+    }
+    setIsLoading(false);
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await apiRequest('/api/auth/change-password', {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword: password, newPassword }),
+      });
+      completeSignIn(data.user);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not change password');
+    }
+    setIsLoading(false);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
       <div className="w-full max-w-md space-y-6">
@@ -66,7 +140,148 @@ const Auth = () => {
           <p className="text-gray-600 mt-2">Your Study Abroad Management Platform</p>
         </div>
 
-        {/* Login Form */}
+        {twoFactorStep ? (
+          /* Second factor for accounts with TOTP enabled */
+          <Card>
+            <CardHeader>
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                {useRecoveryCode
+                  ? 'Enter one of your saved recovery codes.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleTwoFactor} className="space-y-4">
+                {useRecoveryCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="recovery-code">Recovery Code</Label>
+                    <Input
+                      id="recovery-code"
+                      placeholder="xxxx-xxxx"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      required
+                      data-testid="input-recovery-code"
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={otpCode} onChange={setOtpCode} autoFocus data-testid="input-totp-code">
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading || (!useRecoveryCode && otpCode.length !== 6)}
+                  data-testid="button-verify-two-factor"
+                >
+                  {isLoading ? 'Verifying...' : 'Verify'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => { setUseRecoveryCode(!useRecoveryCode); setError(''); }}
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? 'Use authenticator code instead' : 'Lost your device? Use a recovery code'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : pendingUser && !pendingUser.mustChangePassword ? (
+          /* Administrator requires 2FA for this account */
+          <Card>
+            <CardHeader>
+              <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                {pendingUser.name}, your administrator requires an authenticator app for your account.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorSetup onComplete={completeSignIn} />
+            </CardContent>
+          </Card>
+        ) : pendingUser ? (
+          /* Forced password change for temporary credentials */
+          <Card>
+            <CardHeader>
+              <CardTitle>Choose a New Password</CardTitle>
+              <CardDescription>
+                {pendingUser.name}, your account is using a temporary password. Set a new one to continue.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleChangePassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="current-password">Current Password</Label>
+                  <Input
+                    id="current-password"
+                    type="password"
+                    placeholder="Enter your temporary password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    data-testid="input-current-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New Password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    placeholder="At least 8 characters"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    minLength={8}
+                    required
+                    data-testid="input-new-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm New Password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    placeholder="Repeat the new password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    minLength={8}
+                    required
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-change-password">
+                  {isLoading ? 'Saving...' : 'Set Password and Continue'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : (
+        /* Login Form */
         <Card>
           <CardHeader>
             <CardTitle>Sign In</CardTitle>
@@ -112,6 +327,7 @@ const Auth = () => {
             </form>
           </CardContent>
         </Card>
+        )}
       </div>
     </div>
   );
@@ -4,11 +4,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { UserCheck, Clock, FileText, Calendar, Users, Eye, Loader2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '../lib/queryClient';
+import { logout } from '../lib/auth';
+import ChangePasswordDialog from '@/components/ChangePasswordDialog';
+import TwoFactorDialog from '@/components/TwoFactorDialog';
+import GlobalSearch from '@/components/GlobalSearch';
+import { PendingHandoversCard } from '@/components/LeadHandover';
 
 const CounselorDashboard = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   
   // Get current user from localStorage
   const currentUser = JSON.parse(localStorage.getItem('user') || '{}');
@@ -46,8 +52,9 @@ const CounselorDashboard = () => {
     .sort((a: any, b: any) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
     .slice(0, 5);
   
-  const handleLogout = () => {
-    localStorage.removeItem('user');
+  const handleLogout = async () => {
+    await logout();
+    queryClient.removeQueries({ queryKey: ['/api/auth/me'] });
     navigate('/auth');
   };
 
@@ -71,6 +78,9 @@ const CounselorDashboard = () => {
                 <Users className="h-4 w-4 mr-2" />
                 View All Leads
               </Button>
+              <GlobalSearch />
+              <TwoFactorDialog />
+              <ChangePasswordDialog />
               <Button variant="outline" onClick={handleLogout}>
                 Logout
               </Button>
@@ -86,6 +96,8 @@ const CounselorDashboard = () => {
           <p className="text-gray-600">Here's your lead pipeline and tasks for today.</p>
         </div>
 
+        <PendingHandoversCard />
+
         {/* KPI Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <Card>
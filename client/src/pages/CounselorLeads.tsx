@@ -6,10 +6,12 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ArrowLeft, Search, Users, Filter, Eye, Loader2 } from 'lucide-react';
+import { ArrowLeft, Search, Users, Filter, Eye, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import { apiRequest } from '../lib/queryClient';
+import TagPicker, { TagBadge } from '@/components/LeadTags';
+import { LeadScoreBadge } from '@/components/LeadScore';
 
 // 18 stages for the CRM pipeline
 const LEAD_STAGES = [
@@ -33,6 +35,25 @@ const LEAD_STAGES = [
   'Enrolled'
 ];
 
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS = [
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'score:desc', label: 'Highest score' },
+  { value: 'createdAt:desc', label: 'Newest first' }
+];
+
+// Counts only need the total, so ask for the smallest page
+const useLeadCount = (params: Record<string, string>) => {
+  const query = new URLSearchParams({ ...params, page: '1', pageSize: '1' }).toString();
+  const { data } = useQuery<{ total: number }>({
+    queryKey: ['/api/leads', 'count', query],
+    queryFn: () => apiRequest(`/api/leads?${query}`)
+  });
+  return data?.total ?? 0;
+};
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
 
 const CounselorLeads = () => {
   const navigate = useNavigate();
@@ -40,28 +61,52 @@ const CounselorLeads = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCountry, setSelectedCountry] = useState('all');
   
-  // Get current user from localStorage
-  const currentUser = JSON.parse(localStorage.getItem('user') || '{}');
-  
-  // Fetch leads assigned to current counselor
-  const { data: leads = [], isLoading } = useQuery({
-    queryKey: ['/api/leads', { counselorId: currentUser.id }],
-    queryFn: () => apiRequest(`/api/leads?counselorId=${currentUser.id}`)
-  });
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [tagFilter, setTagFilter] = useState<number[]>([]);
+  const [sort, setSort] = useState(SORT_OPTIONS[0].value);
 
-  // Get unique countries for filter
-  const countries = ['all', ...Array.from(new Set(leads.map((lead: any) => lead.country).filter(Boolean)))];
+  // Wait for a pause in typing before searching on the server
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-  // Filter leads based on stage, search term, and country
-  const filteredLeads = leads.filter((lead: any) => {
-    const matchesStage = selectedStage === 'all' || lead.currentStage === selectedStage;
-    const matchesSearch = lead.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         lead.phone.includes(searchTerm) ||
-                         (lead.course && lead.course.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesCountry = selectedCountry === 'all' || lead.country === selectedCountry;
-    return matchesStage && matchesSearch && matchesCountry;
+  // The server limits counselors to their own leads
+  const filterParams = new URLSearchParams();
+  if (selectedStage !== 'all') filterParams.set('stage', selectedStage);
+  if (selectedCountry !== 'all') filterParams.set('country', selectedCountry);
+  if (debouncedSearch) filterParams.set('search', debouncedSearch);
+  tagFilter.forEach((tagId) => filterParams.append('tag', String(tagId)));
+  const [sortBy, sortDir] = sort.split(':');
+  filterParams.set('sortBy', sortBy);
+  filterParams.set('sortDir', sortDir);
+  const filterKey = filterParams.toString();
+
+  useEffect(() => {
+    setPage(1);
+  }, [filterKey]);
+
+  const { data, isLoading } = useQuery<{ leads: any[]; total: number }>({
+    queryKey: ['/api/leads', filterKey, page],
+    queryFn: () => apiRequest(`/api/leads?${filterKey}&page=${page}&pageSize=${PAGE_SIZE}`),
+    placeholderData: keepPreviousData
+  });
+  const leads = data?.leads ?? [];
+  const filteredTotal = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(filteredTotal / PAGE_SIZE));
+
+  const { data: filterOptions } = useQuery<{ countries: string[] }>({
+    queryKey: ['/api/leads/filter-options'],
+    queryFn: () => apiRequest('/api/leads/filter-options')
   });
+  const countries = ['all', ...(filterOptions?.countries ?? [])];
+
+  // Summary cards count across all of the counselor's leads, not just the current page
+  const totalLeads = useLeadCount({});
+  const finishedLeads = useLeadCount({ stage: 'Enrolled,Departed' });
+  const needsAttention = useLeadCount({ updatedTo: daysAgo(7) });
+  const applications = useLeadCount({ stage: 'Application Preparation,Application Submitted,Offer Received' });
 
   const handleViewLead = (leadId: number) => {
     navigate(`/lead/${leadId}`);
@@ -117,7 +162,7 @@ const CounselorLeads = () => {
               <CardTitle className="text-sm font-medium text-gray-600">Total Leads</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{leads.length}</div>
+              <div className="text-2xl font-bold">{totalLeads}</div>
             </CardContent>
           </Card>
           
@@ -126,9 +171,7 @@ const CounselorLeads = () => {
               <CardTitle className="text-sm font-medium text-gray-600">Active Pipeline</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">
-                {leads.filter((lead: any) => !['Enrolled', 'Departed'].includes(lead.currentStage)).length}
-              </div>
+              <div className="text-2xl font-bold">{totalLeads - finishedLeads}</div>
             </CardContent>
           </Card>
           
@@ -137,12 +180,7 @@ const CounselorLeads = () => {
               <CardTitle className="text-sm font-medium text-gray-600">Needs Attention</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-red-600">
-                {leads.filter((lead: any) => {
-                  const daysSinceUpdate = Math.floor((new Date().getTime() - new Date(lead.updatedAt).getTime()) / (1000 * 3600 * 24));
-                  return daysSinceUpdate > 7;
-                }).length}
-              </div>
+              <div className="text-2xl font-bold text-red-600">{needsAttention}</div>
             </CardContent>
           </Card>
           
@@ -151,11 +189,7 @@ const CounselorLeads = () => {
               <CardTitle className="text-sm font-medium text-gray-600">Applications</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">
-                {leads.filter((lead: any) => 
-                  ['Application Preparation', 'Application Submitted', 'Offer Received'].includes(lead.currentStage)
-                ).length}
-              </div>
+              <div className="text-2xl font-bold">{applications}</div>
             </CardContent>
           </Card>
         </div>
@@ -197,6 +231,27 @@ const CounselorLeads = () => {
               </Select>
             </div>
 
+            {/* Tag Filter */}
+            <div className="flex-shrink-0 flex items-center">
+              <TagPicker selected={tagFilter} onChange={setTagFilter} />
+            </div>
+
+            {/* Sort */}
+            <div className="flex-shrink-0 w-44">
+              <Select value={sort} onValueChange={setSort}>
+                <SelectTrigger data-testid="select-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Search */}
             <div className="flex-1 relative">
               <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
@@ -213,7 +268,7 @@ const CounselorLeads = () => {
         {/* Results Summary */}
         <div className="mb-6">
           <div className="text-sm text-gray-600">
-            Showing {filteredLeads.length} of {leads.length} leads
+            Showing {leads.length} of {filteredTotal} leads
           </div>
         </div>
 
@@ -226,6 +281,7 @@ const CounselorLeads = () => {
                 <TableHead>Contact</TableHead>
                 <TableHead>Country/Course</TableHead>
                 <TableHead>Stage</TableHead>
+                <TableHead>Score</TableHead>
                 <TableHead>Priority</TableHead>
                 <TableHead>Last Contact</TableHead>
                 <TableHead>Actions</TableHead>
@@ -234,13 +290,13 @@ const CounselorLeads = () => {
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-8">
+                  <TableCell colSpan={8} className="text-center py-8">
                     <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
                     <div>Loading leads...</div>
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredLeads.map((lead: any) => {
+                leads.map((lead: any) => {
                   const priority = getPriorityStatus(lead.currentStage, lead.updatedAt);
                   return (
                     <TableRow key={lead.id}>
@@ -248,6 +304,13 @@ const CounselorLeads = () => {
                         <div>
                           <div className="font-medium">{lead.name}</div>
                           <div className="text-sm text-gray-500">{lead.email}</div>
+                          {lead.tags?.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {lead.tags.map((tag: any) => (
+                                <TagBadge key={tag.id} tag={tag} />
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -264,6 +327,9 @@ const CounselorLeads = () => {
                           {lead.currentStage}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <LeadScoreBadge score={lead.score ?? 0} />
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline" className={priority.color}>
                           {priority.status}
@@ -290,7 +356,32 @@ const CounselorLeads = () => {
           </Table>
         </Card>
 
-        {!isLoading && filteredLeads.length === 0 && (
+        {/* Pagination */}
+        {filteredTotal > PAGE_SIZE && (
+          <div className="flex items-center justify-end space-x-2 mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+              data-testid="button-leads-prev"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+              data-testid="button-leads-next"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {!isLoading && leads.length === 0 && (
           <div className="text-center py-12">
             <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No leads found</h3>
@@ -0,0 +1,331 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, SlidersHorizontal, Plus, Loader2, Edit3 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useCustomFields,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldDefinition,
+  type CustomFieldType
+} from '@/components/CustomFieldInput';
+
+interface FieldForm {
+  label: string;
+  key: string;
+  fieldType: CustomFieldType;
+  options: string; // one per line
+  min: string;
+  max: string;
+  maxLength: string;
+  required: boolean;
+  isActive: boolean;
+  sortOrder: string;
+}
+
+const EMPTY_FORM: FieldForm = {
+  label: '',
+  key: '',
+  fieldType: 'text',
+  options: '',
+  min: '',
+  max: '',
+  maxLength: '',
+  required: false,
+  isActive: true,
+  sortOrder: ''
+};
+
+const toForm = (field: CustomFieldDefinition): FieldForm => ({
+  label: field.label,
+  key: field.key,
+  fieldType: field.fieldType,
+  options: field.options.join('\n'),
+  min: field.validation.min?.toString() ?? '',
+  max: field.validation.max?.toString() ?? '',
+  maxLength: field.validation.maxLength?.toString() ?? '',
+  required: field.required,
+  isActive: field.isActive,
+  sortOrder: field.sortOrder.toString()
+});
+
+// Admin screen for the custom fields shown on every lead (edit form, lead header, imports and filters)
+const CustomFields = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<CustomFieldDefinition | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<FieldForm>(EMPTY_FORM);
+
+  const { data: fields = [], isLoading } = useCustomFields(true);
+
+  const saveMutation = useMutation({
+    mutationFn: (values: FieldForm) => {
+      const isSelect = values.fieldType === 'select' || values.fieldType === 'multiselect';
+      const body = {
+        label: values.label,
+        ...(editing ? {} : { key: values.key || undefined, fieldType: values.fieldType }),
+        options: isSelect ? values.options.split('\n').map((o) => o.trim()).filter(Boolean) : [],
+        validation: {
+          min: values.fieldType === 'number' ? values.min : undefined,
+          max: values.fieldType === 'number' ? values.max : undefined,
+          maxLength: values.fieldType === 'text' ? values.maxLength : undefined
+        },
+        required: values.required,
+        isActive: values.isActive,
+        ...(values.sortOrder !== '' ? { sortOrder: values.sortOrder } : {})
+      };
+      return apiRequest(editing ? `/api/custom-fields/${editing.id}` : '/api/custom-fields', {
+        method: editing ? 'PUT' : 'POST',
+        body: JSON.stringify(body)
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-fields'] });
+      toast({ title: 'Success', description: editing ? 'Custom field updated' : 'Custom field created' });
+      setIsDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to save custom field', variant: 'destructive' });
+    }
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (field: CustomFieldDefinition) => {
+    setEditing(field);
+    setForm(toForm(field));
+    setIsDialogOpen(true);
+  };
+
+  const update = (changes: Partial<FieldForm>) => setForm((prev) => ({ ...prev, ...changes }));
+  const isSelectType = form.fieldType === 'select' || form.fieldType === 'multiselect';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-2" data-testid="button-back-to-admin">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <SlidersHorizontal className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Custom Fields</h1>
+            </div>
+            <Button onClick={openCreate} data-testid="button-add-custom-field">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Field
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="mb-6 text-sm text-gray-600">
+          Custom fields appear in the lead edit form and the lead header, can be filtered on the Leads page and are
+          imported from CSV columns named after the field's label or key. Deactivate a field to hide it; stored values are kept.
+        </p>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Options</TableHead>
+                  <TableHead>Required</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                      <div>Loading custom fields...</div>
+                    </TableCell>
+                  </TableRow>
+                ) : fields.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-12 text-gray-500">
+                      No custom fields yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  fields.map((field) => (
+                    <TableRow key={field.id} data-testid={`row-custom-field-${field.id}`}>
+                      <TableCell className="font-medium">{field.label}</TableCell>
+                      <TableCell className="font-mono text-xs">{field.key}</TableCell>
+                      <TableCell>{CUSTOM_FIELD_TYPE_LABELS[field.fieldType]}</TableCell>
+                      <TableCell className="max-w-xs truncate">{field.options.join(', ') || '-'}</TableCell>
+                      <TableCell>{field.required ? 'Yes' : 'No'}</TableCell>
+                      <TableCell>
+                        <Badge variant={field.isActive ? 'default' : 'secondary'}>
+                          {field.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => openEdit(field)} data-testid={`button-edit-custom-field-${field.id}`}>
+                          <Edit3 className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.label}` : 'Add Custom Field'}</DialogTitle>
+            <DialogDescription>
+              {editing ? 'The key and type of a field cannot be changed.' : 'The key is generated from the label unless you set one.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="field-label">Label</Label>
+              <Input id="field-label" value={form.label} onChange={(e) => update({ label: e.target.value })} data-testid="input-field-label" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="field-key">Key</Label>
+                <Input
+                  id="field-key"
+                  value={form.key}
+                  onChange={(e) => update({ key: e.target.value })}
+                  placeholder="auto"
+                  disabled={!!editing}
+                  className="font-mono"
+                  data-testid="input-field-key"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={form.fieldType}
+                  onValueChange={(value) => update({ fieldType: value as CustomFieldType })}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger data-testid="select-field-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isSelectType && (
+              <div className="space-y-2">
+                <Label htmlFor="field-options">Options (one per line)</Label>
+                <Textarea
+                  id="field-options"
+                  value={form.options}
+                  onChange={(e) => update({ options: e.target.value })}
+                  rows={4}
+                  data-testid="input-field-options"
+                />
+              </div>
+            )}
+            {form.fieldType === 'number' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="field-min">Minimum</Label>
+                  <Input id="field-min" type="number" value={form.min} onChange={(e) => update({ min: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="field-max">Maximum</Label>
+                  <Input id="field-max" type="number" value={form.max} onChange={(e) => update({ max: e.target.value })} />
+                </div>
+              </div>
+            )}
+            {form.fieldType === 'text' && (
+              <div className="space-y-2">
+                <Label htmlFor="field-max-length">Maximum length</Label>
+                <Input
+                  id="field-max-length"
+                  type="number"
+                  value={form.maxLength}
+                  onChange={(e) => update({ maxLength: e.target.value })}
+                  placeholder="1000"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="field-sort-order">Display order</Label>
+                <Input
+                  id="field-sort-order"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(e) => update({ sortOrder: e.target.value })}
+                  placeholder="last"
+                />
+              </div>
+              <div className="space-y-3 pt-1">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="field-required">Required</Label>
+                  <Switch id="field-required" checked={form.required} onCheckedChange={(checked) => update({ required: checked })} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="field-active">Active</Label>
+                  <Switch id="field-active" checked={form.isActive} onCheckedChange={(checked) => update({ isActive: checked })} />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!form.label.trim() || saveMutation.isPending}
+                data-testid="button-save-custom-field"
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CustomFields;
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Copy, Loader2, RefreshCw, GitMerge, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface PairLead {
+  id: number;
+  uid: string | null;
+  name: string;
+  email: string | null;
+  phone: string;
+  country: string | null;
+  course: string | null;
+  intake: string | null;
+  source: string | null;
+  currentStage: string;
+  counselorName: string | null;
+  createdAt: string;
+}
+
+interface DuplicatePair {
+  id: number;
+  reasons: string[];
+  score: number;
+  detectedAt: string;
+  lead: PairLead;
+  duplicateLead: PairLead;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Similar name'
+};
+
+const LEAD_FIELDS: { key: keyof PairLead; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'uid', label: 'UID' },
+  { key: 'country', label: 'Country' },
+  { key: 'course', label: 'Course' },
+  { key: 'intake', label: 'Intake' },
+  { key: 'source', label: 'Source' },
+  { key: 'currentStage', label: 'Stage' },
+  { key: 'counselorName', label: 'Counselor' }
+];
+
+// Admin review queue for likely duplicate leads: merge each pair into one lead or dismiss it
+const DuplicateLeads = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Which lead survives, per pair; defaults to the older lead
+  const [survivors, setSurvivors] = useState<Record<number, number>>({});
+
+  const { data, isLoading } = useQuery<{ pairs: DuplicatePair[]; lastScan: { pairsFound: number; finishedAt: string } | null }>({
+    queryKey: ['/api/duplicates'],
+    queryFn: () => apiRequest('/api/duplicates')
+  });
+  const pairs = data?.pairs ?? [];
+
+  const scanMutation = useMutation({
+    mutationFn: () => apiRequest('/api/duplicates/scan', { method: 'POST' }),
+    onSuccess: (result: { pairsFound: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/duplicates'] });
+      toast({ title: 'Scan complete', description: `${result.pairsFound} possible duplicate pairs found.` });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Duplicate scan failed', variant: 'destructive' });
+    }
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ pairId, survivingLeadId }: { pairId: number; survivingLeadId: number }) =>
+      apiRequest(`/api/duplicates/${pairId}/merge`, {
+        method: 'POST',
+        body: JSON.stringify({ survivingLeadId })
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({ title: 'Success', description: 'Leads merged.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to merge leads', variant: 'destructive' });
+    }
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (pairId: number) => apiRequest(`/api/duplicates/${pairId}/dismiss`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/duplicates'] });
+      toast({ title: 'Dismissed', description: 'These leads will not be suggested again.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to dismiss pair', variant: 'destructive' });
+    }
+  });
+
+  const isBusy = mergeMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-2" data-testid="button-back-to-admin">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <Copy className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Duplicate Leads</h1>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => scanMutation.mutate()}
+              disabled={scanMutation.isPending}
+              data-testid="button-scan-duplicates"
+            >
+              {scanMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Scan Now
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 text-sm text-gray-600">
+          {pairs.length} pair{pairs.length === 1 ? '' : 's'} to review.
+          {data?.lastScan && ` Last scan: ${new Date(data.lastScan.finishedAt).toLocaleString()}.`}
+          {' '}Merging moves tasks, remarks, stage history, universities, documents and tags onto the lead you keep and fills its empty fields from the other lead.
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading duplicates...
+          </div>
+        ) : pairs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              No possible duplicates waiting for review.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {pairs.map((pair) => {
+              const survivorId = survivors[pair.id] ?? pair.lead.id;
+              return (
+                <Card key={pair.id} data-testid={`card-duplicate-${pair.id}`}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="text-lg">{pair.lead.name} / {pair.duplicateLead.name}</CardTitle>
+                        <CardDescription>
+                          Match score {Math.round(pair.score * 100)}% · found {new Date(pair.detectedAt).toLocaleDateString()}
+                        </CardDescription>
+                      </div>
+                      <div className="flex gap-2">
+                        {pair.reasons.map((reason) => (
+                          <Badge key={reason} variant="outline">{REASON_LABELS[reason] || reason}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <RadioGroup
+                      value={String(survivorId)}
+                      onValueChange={(value) => setSurvivors((prev) => ({ ...prev, [pair.id]: Number(value) }))}
+                      className="grid grid-cols-1 md:grid-cols-2 gap-4"
+                    >
+                      {[pair.lead, pair.duplicateLead].map((lead) => (
+                        <div
+                          key={lead.id}
+                          className={`border rounded-lg p-4 ${survivorId === lead.id ? 'border-primary bg-primary/5' : ''}`}
+                        >
+                          <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center space-x-2">
+                              <RadioGroupItem value={String(lead.id)} id={`keep-${pair.id}-${lead.id}`} />
+                              <Label htmlFor={`keep-${pair.id}-${lead.id}`}>Keep lead #{lead.id}</Label>
+                            </div>
+                            <Button variant="link" size="sm" onClick={() => navigate(`/lead/${lead.id}`)}>
+                              Open
+                            </Button>
+                          </div>
+                          <dl className="grid grid-cols-3 gap-x-2 gap-y-1 text-sm">
+                            {LEAD_FIELDS.map(({ key, label }) => (
+                              <React.Fragment key={key}>
+                                <dt className="text-gray-500">{label}</dt>
+                                <dd className="col-span-2 break-all">{lead[key] || '-'}</dd>
+                              </React.Fragment>
+                            ))}
+                            <dt className="text-gray-500">Created</dt>
+                            <dd className="col-span-2">{new Date(lead.createdAt).toLocaleDateString()}</dd>
+                          </dl>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    <div className="flex justify-end gap-2 mt-4">
+                      <Button
+                        variant="outline"
+                        onClick={() => dismissMutation.mutate(pair.id)}
+                        disabled={isBusy}
+                        data-testid={`button-dismiss-duplicate-${pair.id}`}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Not Duplicates
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button disabled={isBusy} data-testid={`button-merge-duplicate-${pair.id}`}>
+                            <GitMerge className="h-4 w-4 mr-2" />
+                            Merge into #{survivorId}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Merge into lead #{survivorId}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Lead #{survivorId === pair.lead.id ? pair.duplicateLead.id : pair.lead.id} will be removed after its
+                              records are moved. The merge is recorded in the lead's stage history and the audit log.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => mergeMutation.mutate({ pairId: pair.id, survivingLeadId: survivorId })}
+                              data-testid={`button-confirm-merge-${pair.id}`}
+                            >
+                              Merge
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DuplicateLeads;
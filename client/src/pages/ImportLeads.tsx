@@ -29,6 +29,9 @@ const REQUIRED_HEADERS = [
   'Passport Status'
 ];
 
+// Recognised when present; older files without them still import
+const OPTIONAL_HEADERS = ['Preferred Language'];
+
 const REQUIRED_FIELDS = ['Student Name', 'Current Stage'];
 
 interface ParsedLead {
@@ -43,6 +46,9 @@ interface ParsedLead {
   remarks: string;
   counsellors: string;
   passportStatus: string;
+  preferredLanguage: string;
+  // Any other columns, by header; the server imports those named after a custom field
+  customFields: Record<string, string>;
   
   // Validation fields
   errors: string[];
@@ -319,6 +325,12 @@ const ImportLeads = () => {
         remarks: row['Remarks']?.toString().trim() || '',
         counsellors: row['Counsellors']?.toString().trim() || '',
         passportStatus: row['Passport Status']?.toString().trim() || '',
+        preferredLanguage: row['Preferred Language']?.toString().trim() || '',
+        customFields: Object.fromEntries(
+          headers
+            .filter(h => !REQUIRED_HEADERS.includes(h) && !OPTIONAL_HEADERS.includes(h))
+            .map(h => [h, row[h]?.toString().trim() || ''])
+        ),
         
         errors: [],
         warnings: [],
@@ -419,7 +431,9 @@ const ImportLeads = () => {
       'Current Stage': lead.currentStage,
       'Remarks': lead.remarks,
       'Counsellors': lead.counsellors,
-      'Passport Status': lead.passportStatus
+      'Passport Status': lead.passportStatus,
+      'Preferred Language': lead.preferredLanguage,
+      ...lead.customFields
     }));
 
     const csv = Papa.unparse(cleanData, { header: true });
@@ -667,6 +681,12 @@ const ImportLeads = () => {
                     <div className="mt-2 text-sm">
                       <strong>Required fields:</strong> {REQUIRED_FIELDS.join(', ')}
                     </div>
+                    <div className="mt-1 text-sm">
+                      Optional: {OPTIONAL_HEADERS.join(', ')}. Leads whose counsellor is blank or not found are assigned by the assignment rules.
+                    </div>
+                    <div className="mt-1 text-sm">
+                      Extra columns named after a custom field (its label or key) are imported into that field.
+                    </div>
                   </AlertDescription>
                 </Alert>
                 
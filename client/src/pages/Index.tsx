@@ -1,6 +1,7 @@
 
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { homePathForRole } from '../lib/auth';
 
 const Index = () => {
   const navigate = useNavigate();
@@ -10,11 +11,7 @@ const Index = () => {
     const userStr = localStorage.getItem('user');
     if (userStr) {
       const user = JSON.parse(userStr);
-      if (user.role === 'admin') {
-        navigate('/admin');
-      } else {
-        navigate('/counselor');
-      }
+      navigate(homePathForRole(user.role));
     } else {
       navigate('/auth');
     }
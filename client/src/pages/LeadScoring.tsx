@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Gauge, Loader2, RefreshCw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ScoringFactor } from '@/components/LeadScore';
+
+interface ScoringRule {
+  factor: ScoringFactor;
+  label: string;
+  points: number;
+  config: {
+    values?: Record<string, number>;
+    fullWithin?: number;
+    zeroAfter?: number;
+    requiredTypes?: string[];
+  };
+  isActive: boolean;
+  isDefault: boolean;
+}
+
+interface RuleForm {
+  points: string;
+  values: string; // "value = points", one per line
+  fullWithin: string;
+  zeroAfter: string;
+  requiredTypes: string; // one per line
+  isActive: boolean;
+}
+
+const LOOKUP_FACTORS: ScoringFactor[] = ['country', 'source', 'passport', 'connect'];
+const DECAY_UNITS: Partial<Record<ScoringFactor, string>> = { intake: 'months until intake', recency: 'days since last activity' };
+
+const FACTOR_HELP: Record<ScoringFactor, string> = {
+  intake: 'Full points when the intake is close, falling to none for intakes far ahead. Past intakes score nothing.',
+  country: 'Points for the destination country. Values match the lead\'s country exactly, ignoring case.',
+  source: 'Points for where the lead came from.',
+  passport: 'Points for the passport status entered on the lead.',
+  connect: 'Points for the connect status of the most recent call task. Use negative points for bad outcomes.',
+  documents: 'Points in proportion to how many of these document types have been uploaded.',
+  recency: 'Full points for leads worked on recently (lead edits or tasks), falling to none for stale leads.'
+};
+
+const toForm = (rule: ScoringRule): RuleForm => ({
+  points: String(rule.points),
+  values: Object.entries(rule.config.values ?? {}).map(([value, points]) => `${value} = ${points}`).join('\n'),
+  fullWithin: String(rule.config.fullWithin ?? ''),
+  zeroAfter: String(rule.config.zeroAfter ?? ''),
+  requiredTypes: (rule.config.requiredTypes ?? []).join('\n'),
+  isActive: rule.isActive
+});
+
+const toBody = (factor: ScoringFactor, form: RuleForm) => ({
+  points: Number(form.points),
+  isActive: form.isActive,
+  config: LOOKUP_FACTORS.includes(factor)
+    ? {
+        values: Object.fromEntries(
+          form.values
+            .split('\n')
+            .map((line) => line.split('='))
+            .filter((parts) => parts.length === 2 && parts[0].trim())
+            .map(([value, points]) => [value.trim(), Number(points.trim())])
+        )
+      }
+    : factor === 'documents'
+      ? { requiredTypes: form.requiredTypes.split('\n').map((t) => t.trim()).filter(Boolean) }
+      : { fullWithin: Number(form.fullWithin), zeroAfter: Number(form.zeroAfter) }
+});
+
+// Admin screen for the lead scoring rules; saving any rule rescores every lead
+const LeadScoring = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [forms, setForms] = useState<Partial<Record<ScoringFactor, RuleForm>>>({});
+
+  const { data: rules = [], isLoading } = useQuery<ScoringRule[]>({
+    queryKey: ['/api/scoring-rules'],
+    queryFn: () => apiRequest('/api/scoring-rules')
+  });
+
+  useEffect(() => {
+    setForms(Object.fromEntries(rules.map((rule) => [rule.factor, toForm(rule)])));
+  }, [rules]);
+
+  const saveMutation = useMutation({
+    mutationFn: (factor: ScoringFactor) =>
+      apiRequest(`/api/scoring-rules/${factor}`, {
+        method: 'PUT',
+        body: JSON.stringify(toBody(factor, forms[factor]!))
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scoring-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({ title: 'Rule saved', description: 'Leads are being rescored in the background.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to save scoring rule', variant: 'destructive' });
+    }
+  });
+
+  const rescoreMutation = useMutation({
+    mutationFn: () => apiRequest('/api/scoring-rules/rescore', { method: 'POST' }),
+    onSuccess: (result: { scored: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({ title: 'Rescore complete', description: `${result.scored} leads scored.` });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to rescore leads', variant: 'destructive' });
+    }
+  });
+
+  const update = (factor: ScoringFactor, changes: Partial<RuleForm>) =>
+    setForms((prev) => ({ ...prev, [factor]: { ...prev[factor]!, ...changes } }));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-2" data-testid="button-back-to-admin">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <Gauge className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Lead Scoring</h1>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => rescoreMutation.mutate()}
+              disabled={rescoreMutation.isPending}
+              data-testid="button-rescore-leads"
+            >
+              {rescoreMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Rescore All Leads
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="mb-6 text-sm text-gray-600">
+          A lead's score is the sum of the points from each active rule (never below 0). Scores update when a lead, its tasks
+          or its documents change, and every few hours so intake and activity dates keep counting. Counselors can sort their
+          leads by score.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading scoring rules...
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {rules.map((rule) => {
+              const form = forms[rule.factor];
+              if (!form) return null;
+              const isLookup = LOOKUP_FACTORS.includes(rule.factor);
+              return (
+                <Card key={rule.factor} data-testid={`card-scoring-rule-${rule.factor}`}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="text-lg">{rule.label}</CardTitle>
+                        <CardDescription>{FACTOR_HELP[rule.factor]}</CardDescription>
+                      </div>
+                      {rule.isDefault && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor={`rule-active-${rule.factor}`}>Active</Label>
+                      <Switch
+                        id={`rule-active-${rule.factor}`}
+                        checked={form.isActive}
+                        onCheckedChange={(checked) => update(rule.factor, { isActive: checked })}
+                      />
+                    </div>
+
+                    {isLookup ? (
+                      <div className="space-y-2">
+                        <Label htmlFor={`rule-values-${rule.factor}`}>Points per value (one "value = points" per line)</Label>
+                        <Textarea
+                          id={`rule-values-${rule.factor}`}
+                          value={form.values}
+                          onChange={(e) => update(rule.factor, { values: e.target.value })}
+                          rows={6}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor={`rule-points-${rule.factor}`}>Maximum points</Label>
+                        <Input
+                          id={`rule-points-${rule.factor}`}
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={form.points}
+                          onChange={(e) => update(rule.factor, { points: e.target.value })}
+                        />
+                      </div>
+                    )}
+
+                    {DECAY_UNITS[rule.factor] && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor={`rule-full-${rule.factor}`}>Full points up to ({DECAY_UNITS[rule.factor]})</Label>
+                          <Input
+                            id={`rule-full-${rule.factor}`}
+                            type="number"
+                            min={0}
+                            value={form.fullWithin}
+                            onChange={(e) => update(rule.factor, { fullWithin: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={`rule-zero-${rule.factor}`}>No points from ({DECAY_UNITS[rule.factor]})</Label>
+                          <Input
+                            id={`rule-zero-${rule.factor}`}
+                            type="number"
+                            min={0}
+                            value={form.zeroAfter}
+                            onChange={(e) => update(rule.factor, { zeroAfter: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {rule.factor === 'documents' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="rule-required-types">Key document types (one per line)</Label>
+                        <Textarea
+                          id="rule-required-types"
+                          value={form.requiredTypes}
+                          onChange={(e) => update(rule.factor, { requiredTypes: e.target.value })}
+                          rows={5}
+                        />
+                      </div>
+                    )}
+
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={() => saveMutation.mutate(rule.factor)}
+                        disabled={saveMutation.isPending}
+                        data-testid={`button-save-scoring-rule-${rule.factor}`}
+                      >
+                        {saveMutation.isPending && saveMutation.variables === rule.factor && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Save
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default LeadScoring;
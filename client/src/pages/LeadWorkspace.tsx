@@ -17,6 +17,12 @@ import { apiRequest } from '../lib/queryClient';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import CustomFieldInput, { useCustomFields, formatCustomFieldValue, type CustomFieldValue } from '@/components/CustomFieldInput';
+import TagPicker, { TagBadge, type TagDefinition } from '@/components/LeadTags';
+import LeadScore from '@/components/LeadScore';
+import { HandoverDialog, PinnedHandoverNote, OwnershipTimeline } from '@/components/LeadHandover';
+import LeadTimeline from '@/components/LeadTimeline';
+import LeadContactsCard, { useLeadContacts, RELATIONSHIP_LABELS, type LeadContact } from '@/components/LeadContacts';
 import { 
   ArrowLeft, 
   MoreVertical, 
@@ -35,7 +41,9 @@ import {
   FileText,
   Upload,
   Link,
-  Edit3
+  Edit3,
+  Archive,
+  ArchiveRestore
 } from 'lucide-react';
 
 // Complete pipeline stages as per documentation
@@ -284,6 +292,8 @@ interface TaskData {
   password?: string;
   reasonNotInterested?: string;
   preferredLanguage?: string;
+  contactId?: number;
+  contactName?: string | null;
   userId?: number;
   userName?: string;
   createdAt?: string;
@@ -307,6 +317,35 @@ interface StageHistoryData {
   createdAt: string;
 }
 
+interface LeadFieldChangeData {
+  id: number;
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedByName: string | null;
+  changedAt: string;
+}
+
+// Display names for lead columns in the Changes list; unknown fields fall back to the column name
+const LEAD_FIELD_LABELS: Record<string, string> = {
+  uid: 'UID',
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  country: 'Country',
+  course: 'Course',
+  intake: 'Intake',
+  source: 'Source',
+  currentStage: 'Stage',
+  counselorId: 'Counselor',
+  managerId: 'Manager',
+  prevConsultancy: 'Previous Consultancy',
+  passportStatus: 'Passport Status',
+  remarks: 'Remarks',
+  counsellors: 'Counsellors',
+  preferredLanguage: 'Preferred Language'
+};
+
 interface UniversityAppData {
   id?: number;
   universityName: string;
@@ -315,6 +354,7 @@ interface UniversityAppData {
   password?: string;
   status?: string;
   createdAt?: string;
+  hasCredentials?: boolean;
 }
 
 // Task form schema with conditional validation
@@ -348,6 +388,7 @@ const taskSchema = z.object({
   password: z.string().optional(),
   reasonNotInterested: z.string().optional(),
   preferredLanguage: z.string().optional(),
+  contactId: z.string().optional(),
 }).refine((data) => {
   // Call Status is required when task type is Call
   if (data.taskType === 'Call' && (!data.callStatus || data.callStatus.trim() === '')) {
@@ -428,7 +469,15 @@ const useDynamicFilters = (form: any) => {
 };
 
 // Task Composer Component
-const TaskComposer = ({ onTaskComplete, currentStage }: { onTaskComplete: (taskData: TaskData, nextStage: string | null) => void; currentStage: string }) => {
+const TaskComposer = ({
+  onTaskComplete,
+  currentStage,
+  contacts
+}: {
+  onTaskComplete: (taskData: TaskData, nextStage: string | null) => void;
+  currentStage: string;
+  contacts: LeadContact[];
+}) => {
   const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
   const [step, setStep] = useState(1);
 
@@ -463,6 +512,7 @@ const TaskComposer = ({ onTaskComplete, currentStage }: { onTaskComplete: (taskD
       password: '',
       reasonNotInterested: '',
       preferredLanguage: '',
+      contactId: 'lead',
     },
   });
 
@@ -496,7 +546,9 @@ const TaskComposer = ({ onTaskComplete, currentStage }: { onTaskComplete: (taskD
 
   const handleSubmit = (data: TaskFormData) => {
     const nextStage = getNextStageFromTask(data, currentStage);
-    onTaskComplete(data, nextStage);
+    const { contactId, ...task } = data;
+    // 'lead' means the call or meeting was with the student themselves
+    onTaskComplete({ ...task, contactId: contactId && contactId !== 'lead' ? Number(contactId) : undefined }, nextStage);
     handleCloseModal();
   };
 
@@ -578,6 +630,35 @@ const TaskComposer = ({ onTaskComplete, currentStage }: { onTaskComplete: (taskD
               />
             )}
 
+            {/* Who the call or meeting was with, when the lead has family contacts */}
+            {showCallFields && contacts.length > 0 && (
+              <FormField
+                control={form.control}
+                name="contactId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Spoke With</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-task-contact">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="lead">Student (lead)</SelectItem>
+                        {contacts.map((contact) => (
+                          <SelectItem key={contact.id} value={contact.id.toString()}>
+                            {contact.name} ({RELATIONSHIP_LABELS[contact.relationship] ?? contact.relationship})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Call Type specific fields */}
             {showCallFields && watchedValues.taskType === 'Call' && (
               <FormField
@@ -1255,6 +1336,7 @@ const editLeadSchema = z.object({
   intake: z.string().optional(),
   source: z.string().optional(),
   passportStatus: z.string().optional(),
+  preferredLanguage: z.string().optional(),
 });
 
 type EditLeadFormData = z.infer<typeof editLeadSchema>;
@@ -1264,6 +1346,9 @@ const EditLeadModal = ({ lead, onSuccess }: { lead: any; onSuccess: () => void }
   const [isOpen, setIsOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { data: customFields = [] } = useCustomFields();
+  // Custom field values are validated by the server against the admin's field definitions
+  const [customValues, setCustomValues] = useState<Record<string, CustomFieldValue | null>>(lead.customFields || {});
   
   const form = useForm<EditLeadFormData>({
     resolver: zodResolver(editLeadSchema),
@@ -1276,19 +1361,23 @@ const EditLeadModal = ({ lead, onSuccess }: { lead: any; onSuccess: () => void }
       intake: lead.intake || '',
       source: lead.source || '',
       passportStatus: lead.passportStatus || '',
+      preferredLanguage: lead.preferredLanguage || '',
     }
   });
 
   const editLeadMutation = useMutation({
     mutationFn: async (data: EditLeadFormData) => {
+      // Only active fields may be written; values of deactivated fields stay as they are
+      const customFieldValues = Object.fromEntries(customFields.map((field) => [field.key, customValues[field.key] ?? null]));
       return await apiRequest(`/api/leads/${lead.id}`, {
         method: 'PUT',
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, customFields: customFieldValues }),
       });
     },
     onSuccess: () => {
       toast({ title: "Lead updated successfully" });
       queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${lead.id}/changes`] });
       setIsOpen(false);
       onSuccess();
     },
@@ -1309,7 +1398,7 @@ const EditLeadModal = ({ lead, onSuccess }: { lead: any; onSuccess: () => void }
           Edit Lead
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Lead Information</DialogTitle>
           <DialogDescription>
@@ -1423,6 +1512,45 @@ const EditLeadModal = ({ lead, onSuccess }: { lead: any; onSuccess: () => void }
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="preferredLanguage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Preferred Language</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-edit-preferred-language">
+                          <SelectValue placeholder="Select language..." />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DROPDOWN_OPTIONS.preferredLanguage.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {option}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {customFields.map((customField) => (
+                <div
+                  key={customField.key}
+                  className={`space-y-2 ${customField.fieldType === 'multiselect' ? 'col-span-2' : ''}`}
+                >
+                  <Label htmlFor={`custom-field-${customField.key}`}>
+                    {customField.label}{customField.required ? ' *' : ''}
+                  </Label>
+                  <CustomFieldInput
+                    field={customField}
+                    value={customValues[customField.key] ?? undefined}
+                    onChange={(value) => setCustomValues((prev) => ({ ...prev, [customField.key]: value }))}
+                  />
+                </div>
+              ))}
             </div>
             <div className="flex justify-end space-x-2">
               <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
@@ -1510,7 +1638,7 @@ const DocumentsList = ({ leadId }: { leadId: string }) => {
   // Fetch documents for this lead
   const { data: documents = [], isLoading } = useQuery({
     queryKey: ['/api/documents', leadId],
-    queryFn: () => fetch(`/api/documents/${leadId}`).then(res => res.json()),
+    queryFn: () => apiRequest(`/api/documents/${leadId}`),
   });
 
   // Add document mutation
@@ -1524,6 +1652,8 @@ const DocumentsList = ({ leadId }: { leadId: string }) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/documents', leadId] });
+      // Documents count towards the lead score
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`] });
       setNewDocumentUrl('');
       setSelectedDocumentType('');
       setDocumentRemarks('');
@@ -1552,6 +1682,7 @@ const DocumentsList = ({ leadId }: { leadId: string }) => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/documents', leadId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`] });
       toast({
         title: "Success",
         description: "Document updated successfully",
@@ -1643,7 +1774,7 @@ const DocumentsList = ({ leadId }: { leadId: string }) => {
                 id="documentUrl"
                 value={newDocumentUrl}
                 onChange={(e) => setNewDocumentUrl(e.target.value)}
-                placeholder="https://drive.google.com/..."
+                placeholder={selectedDocumentType === 'Share exam login credentials' ? 'Exam portal login (stored encrypted)' : 'https://drive.google.com/...'}
                 data-testid="input-document-url"
               />
             </div>
@@ -1699,21 +1830,51 @@ const DocumentTypeCard = ({
   onUpdate: (doc: any, url: string, remarks: string) => void;
   isUpdating: boolean;
 }) => {
+  const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
   const [editUrl, setEditUrl] = useState('');
   const [editRemarks, setEditRemarks] = useState('');
   const [editingDoc, setEditingDoc] = useState<any>(null);
+  // Credential documents come back masked; these are the decrypted values the user asked to see
+  const [revealed, setRevealed] = useState<Record<number, { documentUrl: string | null; remarks: string | null }>>({});
+
+  const revealDocument = async (doc: any) => {
+    if (revealed[doc.id]) return revealed[doc.id];
+    try {
+      const credentials = await apiRequest(`/api/documents/${doc.id}/reveal`, { method: 'POST' });
+      setRevealed(prev => ({ ...prev, [doc.id]: credentials }));
+      return credentials;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to reveal credentials",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
 
-  const handleEdit = (doc: any) => {
+  const toggleReveal = (doc: any) => {
+    if (revealed[doc.id]) {
+      setRevealed(({ [doc.id]: _, ...rest }) => rest);
+    } else {
+      revealDocument(doc);
+    }
+  };
+
+  const handleEdit = async (doc: any) => {
+    const values = doc.hasCredentials ? await revealDocument(doc) : doc;
+    if (!values) return;
     setEditingDoc(doc);
-    setEditUrl(doc.documentUrl || '');
-    setEditRemarks(doc.remarks || '');
+    setEditUrl(values.documentUrl || '');
+    setEditRemarks(values.remarks || '');
     setIsEditing(true);
   };
 
   const handleSave = () => {
     if (editingDoc && editUrl.trim()) {
       onUpdate(editingDoc, editUrl.trim(), editRemarks.trim());
+      setRevealed(({ [editingDoc.id]: _, ...rest }) => rest);
       setIsEditing(false);
       setEditingDoc(null);
     }
@@ -1791,26 +1952,47 @@ const DocumentTypeCard = ({
                 ) : (
                   <div>
                     <div className="flex items-center justify-between mb-2">
-                      <a 
-                        href={doc.documentUrl} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-blue-600 hover:text-blue-800 text-sm font-medium break-all"
-                        data-testid={`link-document-${doc.id}`}
-                      >
-                        {doc.documentUrl}
-                      </a>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => handleEdit(doc)}
-                        data-testid={`button-edit-document-${doc.id}`}
-                      >
-                        Edit
-                      </Button>
+                      {doc.hasCredentials ? (
+                        <span className="text-sm font-medium break-all" data-testid={`text-document-credentials-${doc.id}`}>
+                          {revealed[doc.id] ? revealed[doc.id].documentUrl : doc.documentUrl}
+                        </span>
+                      ) : (
+                        <a 
+                          href={doc.documentUrl} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 text-sm font-medium break-all"
+                          data-testid={`link-document-${doc.id}`}
+                        >
+                          {doc.documentUrl}
+                        </a>
+                      )}
+                      <div className="flex items-center gap-1">
+                        {doc.hasCredentials && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => toggleReveal(doc)}
+                            title="Viewing credentials is recorded in the audit log"
+                            data-testid={`button-reveal-document-${doc.id}`}
+                          >
+                            {revealed[doc.id] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => handleEdit(doc)}
+                          data-testid={`button-edit-document-${doc.id}`}
+                        >
+                          Edit
+                        </Button>
+                      </div>
                     </div>
                     {doc.remarks && (
-                      <p className="text-xs text-gray-600 mb-2">{doc.remarks}</p>
+                      <p className="text-xs text-gray-600 mb-2">
+                        {doc.hasCredentials && revealed[doc.id] ? revealed[doc.id].remarks : doc.remarks}
+                      </p>
                     )}
                     <div className="text-xs text-gray-500">
                       Added: {new Date(doc.createdAt).toLocaleDateString()}
@@ -1838,7 +2020,10 @@ const LeadWorkspace = () => {
   // State
   const [isStageModalOpen, setIsStageModalOpen] = useState(false);
   const [isAdminStageModalOpen, setIsAdminStageModalOpen] = useState(false);
-  const [visiblePasswords, setVisiblePasswords] = useState<Record<number, boolean>>({});
+  const [isArchiveDialogOpen, setIsArchiveDialogOpen] = useState(false);
+  const [archiveReason, setArchiveReason] = useState('');
+  // Decrypted portal logins, fetched one application at a time through the audited reveal endpoint
+  const [revealedCredentials, setRevealedCredentials] = useState<Record<number, { username: string | null; password: string | null }>>({});
 
   // Get current user
   const currentUser = JSON.parse(localStorage.getItem('user') || '{}');
@@ -1866,6 +2051,21 @@ const LeadWorkspace = () => {
     enabled: !!leadId
   });
 
+  const { data: customFieldDefinitions = [] } = useCustomFields();
+
+  const { data: leadTags = [] } = useQuery<TagDefinition[]>({
+    queryKey: [`/api/leads/${leadId}/tags`],
+    queryFn: () => apiRequest(`/api/leads/${leadId}/tags`),
+    enabled: !!leadId
+  });
+
+  // Fetch field-level edit history
+  const { data: fieldChanges = [], isLoading: fieldChangesLoading } = useQuery<LeadFieldChangeData[]>({
+    queryKey: [`/api/leads/${leadId}/changes`],
+    queryFn: () => apiRequest(`/api/leads/${leadId}/changes`),
+    enabled: !!leadId
+  });
+
   // Fetch remarks
   const { data: remarks = [], isLoading: remarksLoading } = useQuery({
     queryKey: [`/api/leads/${leadId}/remarks`],
@@ -1873,6 +2073,8 @@ const LeadWorkspace = () => {
     enabled: !!leadId
   });
 
+  const { data: contacts = [] } = useLeadContacts(leadId!);
+
   // Fetch university applications
   const { data: universityApps = [], isLoading: appsLoading } = useQuery({
     queryKey: [`/api/leads/${leadId}/universities`],
@@ -1885,7 +2087,7 @@ const LeadWorkspace = () => {
     mutationFn: (taskData: TaskData) =>
       apiRequest(`/api/leads/${leadId}/tasks`, {
         method: 'POST',
-        body: JSON.stringify({ ...taskData, userId: currentUser.id })
+        body: JSON.stringify(taskData)
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/tasks`] });
@@ -1898,7 +2100,7 @@ const LeadWorkspace = () => {
     mutationFn: ({ stage, reason }: { stage: string; reason?: string }) =>
       apiRequest(`/api/leads/${leadId}/stage`, {
         method: 'PUT',
-        body: JSON.stringify({ stage, userId: currentUser.id, reason })
+        body: JSON.stringify({ stage, reason })
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
@@ -1910,14 +2112,63 @@ const LeadWorkspace = () => {
     }
   });
 
+  const updateTagsMutation = useMutation({
+    mutationFn: (tagIds: number[]) =>
+      apiRequest(`/api/leads/${leadId}/tags`, {
+        method: 'PUT',
+        body: JSON.stringify({ tagIds })
+      }),
+    onSuccess: (tags: TagDefinition[]) => {
+      queryClient.setQueryData([`/api/leads/${leadId}/tags`], tags);
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to update tags', variant: 'destructive' });
+    }
+  });
+
+  const archiveLeadMutation = useMutation({
+    mutationFn: (reason: string) =>
+      apiRequest(`/api/leads/${leadId}/archive`, {
+        method: 'POST',
+        body: JSON.stringify({ reason })
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/history`] });
+      toast({ title: 'Lead archived', description: 'It no longer appears in lead lists or stats.' });
+      setIsArchiveDialogOpen(false);
+      setArchiveReason('');
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to archive lead', variant: 'destructive' });
+    }
+  });
+
+  const restoreLeadMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/leads/${leadId}/restore`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/history`] });
+      toast({ title: 'Lead restored' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to restore lead', variant: 'destructive' });
+    }
+  });
+
   const createRemarkMutation = useMutation({
     mutationFn: (content: string) =>
       apiRequest(`/api/leads/${leadId}/remarks`, {
         method: 'POST',
-        body: JSON.stringify({ content, userId: currentUser.id })
+        body: JSON.stringify({ content })
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/remarks`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`, 'timeline'] });
       toast({ title: 'Success', description: 'Remark added successfully' });
     }
   });
@@ -1930,6 +2181,7 @@ const LeadWorkspace = () => {
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}/universities`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${leadId}`, 'timeline'] });
       toast({ title: 'Success', description: 'University application added successfully' });
     }
   });
@@ -2000,22 +2252,48 @@ const LeadWorkspace = () => {
   const isFinalStage = currentStageIndex >= PIPELINE_STAGES.length - 1;
   const progressPercentage = ((currentStageIndex + 1) / PIPELINE_STAGES.length) * 100;
 
-  const togglePasswordVisibility = (index: number) => {
-    setVisiblePasswords(prev => ({ ...prev, [index]: !prev[index] }));
+  const toggleCredentialsVisibility = async (appId: number) => {
+    if (revealedCredentials[appId]) {
+      setRevealedCredentials(({ [appId]: _, ...rest }) => rest);
+      return;
+    }
+    try {
+      const credentials = await apiRequest(`/api/leads/${leadId}/universities/${appId}/reveal`, { method: 'POST' });
+      setRevealedCredentials(prev => ({ ...prev, [appId]: credentials }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to reveal credentials",
+        variant: "destructive",
+      });
+    }
   };
 
   const lastTask = tasks.length > 0 ? tasks[tasks.length - 1] : null;
 
+  // Custom field values shown under the lead name
+  const headerCustomFields = customFieldDefinitions
+    .map((field) => ({ field, text: formatCustomFieldValue(field, lead.customFields?.[field.key]) }))
+    .filter(({ text }) => text);
+
+  const fieldChangeLabel = (field: string) => {
+    if (field.startsWith('customFields.')) {
+      const key = field.slice('customFields.'.length);
+      return customFieldDefinitions.find((definition) => definition.key === key)?.label ?? key;
+    }
+    return LEAD_FIELD_LABELS[field] || field;
+  };
+
   // Get counselor and manager names
   const counselorName = lead.counselorName || 'Unassigned';
-  const managerName = 'Anupriya'; // As requested by user
+  const managerName = lead.managerName || 'No manager';
 
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <header className="bg-white shadow-sm border-b">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center h-16">
+          <div className="flex justify-between items-center min-h-16 py-2">
             <div className="flex items-center">
               <Button 
                 variant="ghost" 
@@ -2029,13 +2307,80 @@ const LeadWorkspace = () => {
               <div>
                 <h1 className="text-xl font-semibold text-gray-900">{lead.name}</h1>
                 <p className="text-sm text-gray-500">Lead ID: LD-{lead.id}</p>
+                {headerCustomFields.length > 0 && (
+                  <div className="flex flex-wrap gap-x-3 text-xs text-gray-500" data-testid="lead-custom-fields">
+                    {headerCustomFields.map(({ field, text }) => (
+                      <span key={field.key}>
+                        <span className="font-medium">{field.label}:</span> {text}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-1 mt-1" data-testid="lead-tags">
+                  {leadTags.map((tag) => (
+                    <TagBadge
+                      key={tag.id}
+                      tag={tag}
+                      onRemove={() => updateTagsMutation.mutate(leadTags.filter((t) => t.id !== tag.id).map((t) => t.id))}
+                    />
+                  ))}
+                  <TagPicker
+                    selected={leadTags.map((tag) => tag.id)}
+                    onChange={(tagIds) => updateTagsMutation.mutate(tagIds)}
+                    label={leadTags.length > 0 ? 'Edit tags' : 'Add tags'}
+                    disabled={updateTagsMutation.isPending}
+                  />
+                </div>
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <LeadScore score={lead.score ?? 0} breakdown={lead.scoreBreakdown ?? []} scoredAt={lead.scoredAt ?? null} />
               <div className="text-right text-sm">
                 <p className="font-medium">Counselor: {counselorName}</p>
                 <p className="text-gray-500">Manager: {managerName}</p>
               </div>
+              {(isAdmin || currentUser.role === 'manager') && !lead.archivedAt && <HandoverDialog lead={lead} />}
+              {isAdmin && !lead.archivedAt && (
+                <Dialog open={isArchiveDialogOpen} onOpenChange={setIsArchiveDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline" size="sm" data-testid="button-archive-lead">
+                      <Archive className="mr-2 h-4 w-4" />
+                      Archive
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                      <DialogTitle>Archive {lead.name}?</DialogTitle>
+                      <DialogDescription>
+                        The lead disappears from lead lists, search and stats. Admins can restore or purge it from Archived Leads.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                      <Label htmlFor="archive-reason">Reason</Label>
+                      <Textarea
+                        id="archive-reason"
+                        value={archiveReason}
+                        onChange={(e) => setArchiveReason(e.target.value)}
+                        placeholder="e.g. Test lead, junk entry"
+                        data-testid="input-archive-reason"
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" onClick={() => setIsArchiveDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        onClick={() => archiveLeadMutation.mutate(archiveReason.trim())}
+                        disabled={!archiveReason.trim() || archiveLeadMutation.isPending}
+                        data-testid="button-confirm-archive"
+                      >
+                        {archiveLeadMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Archive Lead
+                      </Button>
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              )}
               <Button variant="ghost" size="sm">
                 <MoreVertical className="h-4 w-4" />
               </Button>
@@ -2046,6 +2391,28 @@ const LeadWorkspace = () => {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {lead.archivedAt && (
+          <div className="mb-6 flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            <span>
+              Archived on {new Date(lead.archivedAt).toLocaleDateString()}: {lead.archiveReason}
+            </span>
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => restoreLeadMutation.mutate()}
+                disabled={restoreLeadMutation.isPending}
+                data-testid="button-restore-lead"
+              >
+                <ArchiveRestore className="mr-2 h-4 w-4" />
+                Restore
+              </Button>
+            )}
+          </div>
+        )}
+
+        <PinnedHandoverNote lead={lead} />
+
         {/* Progress Section */}
         <div className="mb-8">
           <Card>
@@ -2105,22 +2472,30 @@ const LeadWorkspace = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <TaskComposer onTaskComplete={handleTaskComplete} currentStage={currentStage} />
+                <TaskComposer onTaskComplete={handleTaskComplete} currentStage={currentStage} contacts={contacts} />
               </CardContent>
             </Card>
+
+            <LeadContactsCard leadId={leadId!} />
           </div>
 
           {/* Middle Column - Actions & Details */}
           <div className="lg:col-span-2 space-y-6">
-            <Tabs defaultValue="tasks" className="w-full">
-              <TabsList className="grid w-full grid-cols-5">
+            <Tabs defaultValue="activity" className="w-full">
+              <TabsList className="grid w-full grid-cols-6">
+                <TabsTrigger value="activity">Activity</TabsTrigger>
                 <TabsTrigger value="tasks">Tasks</TabsTrigger>
                 <TabsTrigger value="remarks">Remarks</TabsTrigger>
-                <TabsTrigger value="history">Stage History</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
                 <TabsTrigger value="universities">Universities</TabsTrigger>
                 <TabsTrigger value="documents">Documents</TabsTrigger>
               </TabsList>
 
+              {/* Activity Tab */}
+              <TabsContent value="activity" className="space-y-6">
+                <LeadTimeline leadId={leadId!} fieldLabel={fieldChangeLabel} />
+              </TabsContent>
+
               {/* Tasks Tab */}
               <TabsContent value="tasks" className="space-y-6">
                 <Card>
@@ -2150,6 +2525,7 @@ const LeadWorkspace = () => {
                               <div className="flex items-center space-x-2">
                                 <Badge variant="outline">{task.taskType}</Badge>
                                 {task.callType && <Badge variant="secondary">{task.callType}</Badge>}
+                                {task.contactName && <Badge variant="outline">With {task.contactName}</Badge>}
                                 {task.connectStatus && <Badge variant={
                                   task.connectStatus === 'Interested' ? 'default' : 
                                   task.connectStatus === 'Not Interested' ? 'destructive' : 'outline'
@@ -2263,6 +2639,52 @@ const LeadWorkspace = () => {
                     )}
                   </CardContent>
                 </Card>
+
+                <OwnershipTimeline leadId={leadId!} />
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Changes</CardTitle>
+                    <CardDescription>Edits to the lead's details, with the previous value</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {fieldChangesLoading ? (
+                      <div className="text-center py-4">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                        <div>Loading changes...</div>
+                      </div>
+                    ) : fieldChanges.length === 0 ? (
+                      <div className="text-center py-8 text-gray-500">
+                        <Edit3 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                        <p>No edits recorded yet</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        {fieldChanges.map((change) => (
+                          <div key={change.id} className="flex items-start space-x-4 p-3 border rounded" data-testid={`field-change-${change.id}`}>
+                            <Edit3 className="h-4 w-4 text-blue-500 flex-shrink-0 mt-1" />
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center space-x-2">
+                                <span className="font-medium text-sm">{fieldChangeLabel(change.field)}</span>
+                                <span className="text-sm text-gray-500">
+                                  {new Date(change.changedAt).toLocaleString()}
+                                </span>
+                              </div>
+                              <p className="text-sm text-gray-600 mt-1 break-words">
+                                <span className="line-through text-gray-400">{change.oldValue ?? '(empty)'}</span>
+                                {' → '}
+                                <span>{change.newValue ?? '(empty)'}</span>
+                              </p>
+                              <p className="text-xs text-gray-500 mt-1">
+                                By: {change.changedByName || 'Unknown user'}
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
               </TabsContent>
 
               {/* Universities Tab */}
@@ -2305,22 +2727,25 @@ const LeadWorkspace = () => {
                                 {app.status || 'In Progress'}
                               </Badge>
                             </div>
-                            {app.username && (
+                            {app.hasCredentials && app.id && (
                               <div className="grid grid-cols-2 gap-4 text-sm">
                                 <div>
-                                  <span className="font-medium">Username:</span> {app.username}
+                                  <span className="font-medium">Username:</span>{' '}
+                                  {revealedCredentials[app.id] ? revealedCredentials[app.id].username || '-' : '••••••••'}
                                 </div>
                                 <div className="flex items-center">
                                   <span className="font-medium">Password:</span>
                                   <span className="ml-2 mr-2">
-                                    {visiblePasswords[index] ? app.password : '••••••••'}
+                                    {revealedCredentials[app.id] ? revealedCredentials[app.id].password || '-' : '••••••••'}
                                   </span>
                                   <Button
                                     variant="ghost"
                                     size="sm"
-                                    onClick={() => togglePasswordVisibility(index)}
+                                    onClick={() => toggleCredentialsVisibility(app.id!)}
+                                    title="Viewing credentials is recorded in the audit log"
+                                    data-testid={`button-reveal-credentials-${app.id}`}
                                   >
-                                    {visiblePasswords[index] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                                    {revealedCredentials[app.id] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                                   </Button>
                                 </div>
                               </div>
@@ -7,7 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Users, Plus, Search, Edit, Trash2, Loader2 } from 'lucide-react';
+import { ArrowLeft, Users, Plus, Search, Edit, UserX, UserCheck, Loader2, KeyRound, Lock, Unlock, ShieldCheck, ShieldOff } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
@@ -15,6 +15,9 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '../lib/queryClient';
+import EditUserDialog from '../components/EditUserDialog';
+import DeactivateUserDialog from '../components/DeactivateUserDialog';
+import ManageTeamsDialog from '../components/ManageTeamsDialog';
 import {
   Table,
   TableBody,
@@ -27,8 +30,8 @@ import {
 const createUserSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   email: z.string().email('Please enter a valid email'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-  role: z.enum(['admin', 'counselor'], { required_error: 'Please select a role' }),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  role: z.enum(['admin', 'manager', 'counselor'], { required_error: 'Please select a role' }),
   phone: z.string().optional(),
 });
 
@@ -40,6 +43,8 @@ const ManageUsers = () => {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [editingUser, setEditingUser] = useState<any>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<any>(null);
 
   // Fetch all users (we'll need to create this endpoint)
   const { data: allUsers = [], isLoading: usersLoading } = useQuery({
@@ -83,6 +88,114 @@ const ManageUsers = () => {
     }
   });
 
+  const resetPasswordMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest(`/api/users/${userId}/reset-password`, {
+        method: 'POST'
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Reset link sent",
+        description: "The user has been emailed a single-use link valid for one hour.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send reset link.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const unlockUserMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest(`/api/users/${userId}/unlock`, {
+        method: 'POST'
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Account unlocked",
+        description: "Failed login attempts have been cleared.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock account.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const twoFactorRequirementMutation = useMutation({
+    mutationFn: ({ userId, required }: { userId: number; required: boolean }) =>
+      apiRequest(`/api/users/${userId}/two-factor`, {
+        method: 'PUT',
+        body: JSON.stringify({ required })
+      }),
+    onSuccess: (_data, { required }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Success",
+        description: required
+          ? "Two-factor authentication is now required for this user."
+          : "Two-factor authentication is now optional for this user.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update two-factor requirement.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest(`/api/users/${userId}/two-factor/reset`, {
+        method: 'POST'
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Two-factor reset",
+        description: "The user's authenticator has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset two-factor authentication.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const activateUserMutation = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest(`/api/users/${userId}/activate`, {
+        method: 'POST'
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/counselors'] });
+      toast({
+        title: "User activated",
+        description: "The user can sign in again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to activate user.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const filteredUsers = allUsers.filter((user: any) =>
     user.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     user.email?.toLowerCase().includes(searchTerm.toLowerCase())
@@ -98,6 +211,7 @@ const ManageUsers = () => {
     activeCounselors: allUsers.filter((u: any) => u.role === 'counselor' && u.isActive).length,
     inactiveUsers: allUsers.filter((u: any) => !u.isActive).length,
     adminUsers: allUsers.filter((u: any) => u.role === 'admin').length,
+    lockedUsers: allUsers.filter((u: any) => u.lockedUntil).length,
   };
 
   return (
@@ -115,117 +229,121 @@ const ManageUsers = () => {
               </div>
               <h1 className="text-xl font-semibold text-gray-900">Manage Users</h1>
             </div>
-            <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-              <DialogTrigger asChild>
-                <Button data-testid="button-add-user">
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add New User
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="sm:max-w-md">
-                <DialogHeader>
-                  <DialogTitle>Add New User</DialogTitle>
-                  <DialogDescription>
-                    Create a new user account for your team member.
-                  </DialogDescription>
-                </DialogHeader>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="name"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Full Name</FormLabel>
-                          <FormControl>
-                            <Input placeholder="John Doe" {...field} data-testid="input-name" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="email"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Email</FormLabel>
-                          <FormControl>
-                            <Input placeholder="john@example.com" type="email" {...field} data-testid="input-email" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter password" type="password" {...field} data-testid="input-password" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="role"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Role</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+            <div className="flex items-center gap-2">
+              <ManageTeamsDialog users={allUsers} />
+              <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-add-user">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add New User
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>Add New User</DialogTitle>
+                    <DialogDescription>
+                      Create a new user account for your team member.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Full Name</FormLabel>
                             <FormControl>
-                              <SelectTrigger data-testid="select-role">
-                                <SelectValue placeholder="Select a role" />
-                              </SelectTrigger>
+                              <Input placeholder="John Doe" {...field} data-testid="input-name" />
                             </FormControl>
-                            <SelectContent>
-                              <SelectItem value="counselor">Counselor</SelectItem>
-                              <SelectItem value="admin">Admin</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="phone"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Phone (Optional)</FormLabel>
-                          <FormControl>
-                            <Input placeholder="+1234567890" {...field} data-testid="input-phone" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <div className="flex justify-end space-x-2 pt-4">
-                      <Button 
-                        type="button" 
-                        variant="outline" 
-                        onClick={() => setShowAddDialog(false)}
-                        data-testid="button-cancel"
-                      >
-                        Cancel
-                      </Button>
-                      <Button 
-                        type="submit" 
-                        disabled={createUserMutation.isPending}
-                        data-testid="button-create-user"
-                      >
-                        {createUserMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        Create User
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
-              </DialogContent>
-            </Dialog>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input placeholder="john@example.com" type="email" {...field} data-testid="input-email" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Temporary password" type="password" {...field} data-testid="input-password" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Role</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-role">
+                                  <SelectValue placeholder="Select a role" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="counselor">Counselor</SelectItem>
+                                <SelectItem value="manager">Manager</SelectItem>
+                                <SelectItem value="admin">Admin</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Phone (Optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="+1234567890" {...field} data-testid="input-phone" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="flex justify-end space-x-2 pt-4">
+                        <Button 
+                          type="button" 
+                          variant="outline" 
+                          onClick={() => setShowAddDialog(false)}
+                          data-testid="button-cancel"
+                        >
+                          Cancel
+                        </Button>
+                        <Button 
+                          type="submit" 
+                          disabled={createUserMutation.isPending}
+                          data-testid="button-create-user"
+                        >
+                          {createUserMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Create User
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </div>
       </header>
@@ -233,7 +351,7 @@ const ManageUsers = () => {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6 mb-8">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Users</CardTitle>
@@ -273,6 +391,16 @@ const ManageUsers = () => {
               <div className="text-2xl font-bold">{stats.adminUsers}</div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Locked Accounts</CardTitle>
+              <Lock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid="text-locked-users">{stats.lockedUsers}</div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Users Table */}
@@ -334,7 +462,7 @@ const ManageUsers = () => {
                       <TableCell className="font-medium">{user.name}</TableCell>
                       <TableCell>{user.email}</TableCell>
                       <TableCell>
-                        <Badge variant={user.role === 'admin' ? 'destructive' : 'secondary'}>
+                        <Badge variant={user.role === 'admin' ? 'destructive' : user.role === 'manager' ? 'default' : 'secondary'}>
                           {user.role}
                         </Badge>
                       </TableCell>
@@ -342,17 +470,103 @@ const ManageUsers = () => {
                         <Badge variant={user.isActive ? 'default' : 'outline'}>
                           {user.isActive ? 'Active' : 'Inactive'}
                         </Badge>
+                        {user.mustChangePassword && (
+                          <Badge variant="outline" className="ml-1">Temp password</Badge>
+                        )}
+                        {user.totpEnabled ? (
+                          <Badge variant="secondary" className="ml-1">2FA</Badge>
+                        ) : user.totpRequired && (
+                          <Badge variant="outline" className="ml-1">2FA pending</Badge>
+                        )}
+                        {user.lockedUntil && (
+                          <Badge
+                            variant="destructive"
+                            className="ml-1"
+                            title={`${user.failedLoginAttempts} failed attempts, locked until ${new Date(user.lockedUntil).toLocaleString()}`}
+                          >
+                            Locked
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>{user.phone || '-'}</TableCell>
                       <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
-                          <Button variant="ghost" size="sm" data-testid={`button-edit-${user.id}`}>
-                            <Edit className="h-4 w-4" />
+                          {user.lockedUntil && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Unlock account"
+                              disabled={unlockUserMutation.isPending}
+                              onClick={() => unlockUserMutation.mutate(user.id)}
+                              data-testid={`button-unlock-${user.id}`}
+                            >
+                              <Unlock className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={user.totpRequired ? 'Make two-factor optional' : 'Require two-factor authentication'}
+                            disabled={twoFactorRequirementMutation.isPending}
+                            onClick={() => twoFactorRequirementMutation.mutate({ userId: user.id, required: !user.totpRequired })}
+                            data-testid={`button-require-two-factor-${user.id}`}
+                          >
+                            <ShieldCheck className={`h-4 w-4 ${user.totpRequired ? 'text-green-600' : ''}`} />
                           </Button>
-                          <Button variant="ghost" size="sm" data-testid={`button-delete-${user.id}`}>
-                            <Trash2 className="h-4 w-4" />
+                          {user.totpEnabled && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Reset two-factor (lost device)"
+                              disabled={resetTwoFactorMutation.isPending}
+                              onClick={() => resetTwoFactorMutation.mutate(user.id)}
+                              data-testid={`button-reset-two-factor-${user.id}`}
+                            >
+                              <ShieldOff className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Send password reset link"
+                            disabled={resetPasswordMutation.isPending}
+                            onClick={() => resetPasswordMutation.mutate(user.id)}
+                            data-testid={`button-reset-password-${user.id}`}
+                          >
+                            <KeyRound className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Edit user"
+                            onClick={() => setEditingUser(user)}
+                            data-testid={`button-edit-${user.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {user.isActive ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Deactivate user"
+                              onClick={() => setDeactivatingUser(user)}
+                              data-testid={`button-deactivate-${user.id}`}
+                            >
+                              <UserX className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Activate user"
+                              disabled={activateUserMutation.isPending}
+                              onClick={() => activateUserMutation.mutate(user.id)}
+                              data-testid={`button-activate-${user.id}`}
+                            >
+                              <UserCheck className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -363,6 +577,9 @@ const ManageUsers = () => {
           </CardContent>
         </Card>
       </main>
+
+      <EditUserDialog user={editingUser} onClose={() => setEditingUser(null)} />
+      <DeactivateUserDialog user={deactivatingUser} onClose={() => setDeactivatingUser(null)} />
     </div>
   );
 };
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Users, UserPlus, TrendingUp, Briefcase, Loader2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { getCachedUser, logout } from '../lib/auth';
+import ChangePasswordDialog from '@/components/ChangePasswordDialog';
+import TwoFactorDialog from '@/components/TwoFactorDialog';
+import GlobalSearch from '@/components/GlobalSearch';
+import TagPicker from '@/components/LeadTags';
+import { SavedViewsCard } from '@/components/SavedViews';
+
+interface TeamStats {
+  totalLeads: number;
+  unassignedLeads: number;
+  activeCounselors: number;
+  conversionRate: string;
+  counselors: { id: number; name: string; isActive: boolean; totalLeads: number; openLeads: number }[];
+}
+
+// Team-scoped dashboard: only the leads and counselors of the teams this manager runs
+const ManagerDashboard = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const currentUser = getCachedUser();
+
+  const [tagIds, setTagIds] = useState<number[]>([]);
+  const tagQuery = tagIds.map((id) => `tag=${id}`).join('&');
+
+  const { data: stats, isLoading } = useQuery<TeamStats>({
+    queryKey: ['/api/stats/team', tagQuery],
+    queryFn: () => apiRequest(`/api/stats/team${tagQuery ? `?${tagQuery}` : ''}`)
+  });
+
+  const handleLogout = async () => {
+    await logout();
+    queryClient.removeQueries({ queryKey: ['/api/auth/me'] });
+    navigate('/auth');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <Briefcase className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Manager Dashboard</h1>
+            </div>
+            <div className="flex items-center gap-4">
+              <Button
+                variant="outline"
+                onClick={() => navigate('/manager/leads')}
+                data-testid="button-team-leads"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Team Leads
+              </Button>
+              <GlobalSearch />
+              <TwoFactorDialog />
+              <ChangePasswordDialog />
+              <Button variant="outline" onClick={handleLogout}>
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Welcome back, {currentUser?.name || 'Manager'}!</h2>
+          <p className="text-gray-600">Here's how your team is doing.</p>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4">
+          <TagPicker selected={tagIds} onChange={setTagIds} label="Filter by tag" />
+          {tagIds.length > 0 && (
+            <span className="text-sm text-gray-600">Stats below only count leads with the selected tags.</span>
+          )}
+        </div>
+
+        {/* KPI Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Team Leads</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.totalLeads || 0}</div>
+              <p className="text-xs text-muted-foreground">Across your teams</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Unassigned Leads</CardTitle>
+              <UserPlus className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.unassignedLeads || 0}</div>
+              <p className="text-xs text-muted-foreground">Waiting for a counselor</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Active Counselors</CardTitle>
+              <Users className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.activeCounselors || 0}</div>
+              <p className="text-xs text-muted-foreground">In your teams</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Conversion Rate</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.conversionRate || "0.0"}%</div>
+              <p className="text-xs text-muted-foreground">Lead to commission rate</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Counselor workload */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Team Members</CardTitle>
+            <CardDescription>Lead workload per counselor</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Counselor</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Open Leads</TableHead>
+                  <TableHead className="text-right">Total Leads</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                      <div>Loading team...</div>
+                    </TableCell>
+                  </TableRow>
+                ) : !stats || stats.counselors.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                      No counselors are in your teams yet. Ask an administrator to add them.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  stats.counselors.map((counselor) => (
+                    <TableRow key={counselor.id} data-testid={`row-team-counselor-${counselor.id}`}>
+                      <TableCell className="font-medium">{counselor.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={counselor.isActive ? 'default' : 'outline'}>
+                          {counselor.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{counselor.openLeads}</TableCell>
+                      <TableCell className="text-right">{counselor.totalLeads}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <div className="mt-8">
+          <SavedViewsCard leadsPath="/manager/leads" />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ManagerDashboard;
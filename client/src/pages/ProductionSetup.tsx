@@ -1,47 +1,52 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Users, Database } from 'lucide-react';
+import { Loader2, Database, KeyRound } from 'lucide-react';
+import { apiRequest } from '../lib/queryClient';
 
 const ProductionSetup = () => {
   const { toast } = useToast();
-  const [isSeeding, setIsSeeding] = useState(false);
+  const navigate = useNavigate();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [setupToken, setSetupToken] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
   const [results, setResults] = useState<any>(null);
 
-  const seedProductionUsers = async () => {
-    setIsSeeding(true);
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['/api/setup/status'],
+    queryFn: () => apiRequest('/api/setup/status'),
+  });
+
+  const runBootstrap = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRunning(true);
     try {
-      const response = await fetch('/api/auth/seed-users', {
+      const data = await apiRequest('/api/setup/bootstrap', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          adminKey: 'SEED_PRODUCTION_USERS_2025'
-        })
+        body: JSON.stringify({ name, email, setupToken: setupToken || undefined }),
       });
-
-      if (!response.ok) {
-        throw new Error(`Failed to seed users: ${response.status}`);
-      }
-
-      const data = await response.json();
       setResults(data);
-      
+
       toast({
         title: "Success!",
         description: data.message,
       });
     } catch (error) {
-      console.error('Seeding error:', error);
+      console.error('Setup error:', error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : 'Failed to seed users',
+        description: error instanceof Error ? error.message : 'Setup failed',
         variant: "destructive",
       });
     } finally {
-      setIsSeeding(false);
+      setIsRunning(false);
     }
   };
 
@@ -50,93 +55,128 @@ const ProductionSetup = () => {
       <div className="max-w-4xl mx-auto px-4">
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Production Setup</h1>
-          <p className="text-gray-600">Setup authentication accounts for production environment.</p>
+          <p className="text-gray-600">Create the first administrator account for this environment.</p>
         </div>
 
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Database className="h-5 w-5" />
-              Seed Production Users
-            </CardTitle>
-            <CardDescription>
-              This will create all necessary user accounts in the production database with the standard password.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h3 className="font-semibold text-blue-900 mb-2">Users to be created:</h3>
-                <ul className="text-sm text-blue-800 space-y-1">
-                  <li>• Admin User (gundluru.mahammadwahab@nxtwave.co.in) - Admin</li>
-                  <li>• Anupriya (angupriya.bharaththangam@nxtwave.co.in) - Admin</li>
-                  <li>• Likitha (likhitha.nyasala@nxtwave.co.in) - Counselor</li>
-                  <li>• BASHIR SHAIK (bashir.shaik@nxtwave.co.in) - Counselor</li>
-                  <li>• Sanjana (madishetti.sanjana@nxtwave.tech) - Counselor</li>
-                  <li>• Varsha (keesari.varsha@nxtwave.tech) - Counselor</li>
-                  <li>• Priyanka (tiruveedula.priyanka@nxtwave.tech) - Counselor</li>
-                </ul>
-                <p className="mt-3 text-sm font-medium text-blue-900">
-                  All accounts will have password: <code className="bg-blue-100 px-2 py-1 rounded">Nxtwave@1234</code>
-                </p>
-              </div>
-              
-              <Button 
-                onClick={seedProductionUsers}
-                disabled={isSeeding}
-                className="w-full"
-                data-testid="button-seed-users"
-              >
-                {isSeeding ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Seeding Users...
-                  </>
-                ) : (
-                  <>
-                    <Users className="mr-2 h-4 w-4" />
-                    Seed Production Users
-                  </>
-                )}
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-
-        {results && (
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : results ? (
           <Card>
             <CardHeader>
-              <CardTitle>Seeding Results</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Setup Completed
+              </CardTitle>
+              <CardDescription>
+                Copy the temporary password now - it will not be shown again.
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                <p className="font-medium text-green-600">{results.message}</p>
-                <p className="text-sm text-gray-600">{results.note}</p>
-                
-                <div className="mt-4">
-                  <h3 className="font-semibold mb-2">User Status:</h3>
-                  <div className="space-y-1">
-                    {results.results?.map((result: any, index: number) => (
-                      <div key={index} className="flex justify-between items-center text-sm">
-                        <span>{result.name} ({result.email})</span>
-                        <span className={`px-2 py-1 rounded text-xs ${
-                          result.status === 'created' ? 'bg-green-100 text-green-800' :
-                          result.status === 'already_exists' ? 'bg-blue-100 text-blue-800' :
-                          'bg-red-100 text-red-800'
-                        }`}>
-                          {result.status}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
+              <div className="space-y-4">
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-900 space-y-2">
+                  <p>Admin: {results.admin.name} ({results.admin.email})</p>
+                  <p>
+                    Temporary password:{' '}
+                    <code className="bg-blue-100 px-2 py-1 rounded" data-testid="text-temporary-password">
+                      {results.temporaryPassword}
+                    </code>
+                  </p>
+                  <p>You will be asked to choose a new password when you sign in.</p>
+                  {results.hashedPasswordCount > 0 && (
+                    <p>
+                      {results.hashedPasswordCount} existing account(s) had plaintext passwords; they were
+                      hashed and those users must choose a new password at their next login.
+                    </p>
+                  )}
                 </div>
+                <Button onClick={() => navigate('/auth')} className="w-full" data-testid="button-go-to-login">
+                  Go to Sign In
+                </Button>
               </div>
             </CardContent>
           </Card>
+        ) : !status?.bootstrapAvailable ? (
+          <Alert>
+            <AlertDescription>
+              Setup has already been completed. Ask an administrator to create your account.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5" />
+                Create Administrator
+              </CardTitle>
+              <CardDescription>
+                A one-time password is generated for this account and must be changed on first login.
+                Other team members are then added from Manage Users.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={runBootstrap} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="setup-name">Full Name</Label>
+                  <Input
+                    id="setup-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                    data-testid="input-setup-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="setup-email">Email</Label>
+                  <Input
+                    id="setup-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    data-testid="input-setup-email"
+                  />
+                </div>
+                {status.setupTokenRequired && (
+                  <div className="space-y-2">
+                    <Label htmlFor="setup-token">Setup Token</Label>
+                    <Input
+                      id="setup-token"
+                      type="password"
+                      value={setupToken}
+                      onChange={(e) => setSetupToken(e.target.value)}
+                      required
+                      data-testid="input-setup-token"
+                    />
+                    <p className="text-xs text-gray-500">
+                      An administrator already exists. Enter the SETUP_TOKEN configured on the server.
+                    </p>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  disabled={isRunning}
+                  className="w-full"
+                  data-testid="button-run-setup"
+                >
+                  {isRunning ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Running Setup...
+                    </>
+                  ) : (
+                    'Create Administrator'
+                  )}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
         )}
       </div>
     </div>
   );
 };
 
-export default ProductionSetup;
\ No newline at end of file
+export default ProductionSetup;
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Tags as TagsIcon, Plus, Loader2, Edit3, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useTags, TagBadge, TAG_COLOR_CLASSES, type TagColor, type TagDefinition } from '@/components/LeadTags';
+
+// Admin screen for the tag palette used to label leads
+const Tags = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<TagDefinition | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<TagColor>('gray');
+
+  const { data: tags = [], isLoading } = useTags();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(editing ? `/api/tags/${editing.id}` : '/api/tags', {
+        method: editing ? 'PUT' : 'POST',
+        body: JSON.stringify({ name, color })
+      }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Success', description: editing ? 'Tag updated' : 'Tag created' });
+      setIsDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to save tag', variant: 'destructive' });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (tagId: number) => apiRequest(`/api/tags/${tagId}`, { method: 'DELETE' }),
+    onSuccess: (result: { untaggedLeads: number }) => {
+      invalidate();
+      toast({ title: 'Tag deleted', description: `Removed from ${result.untaggedLeads} lead${result.untaggedLeads === 1 ? '' : 's'}.` });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete tag', variant: 'destructive' });
+    }
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setName('');
+    setColor('gray');
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (tag: TagDefinition) => {
+    setEditing(tag);
+    setName(tag.name);
+    setColor(tag.color);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-2" data-testid="button-back-to-admin">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div className="bg-primary text-primary-foreground p-2 rounded-lg mr-3">
+                <TagsIcon className="h-5 w-5" />
+              </div>
+              <h1 className="text-xl font-semibold text-gray-900">Tags</h1>
+            </div>
+            <Button onClick={openCreate} data-testid="button-add-tag">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Tag
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="mb-6 text-sm text-gray-600">
+          Tags can be put on leads from the lead page or in bulk from the Leads page, and used to filter lead lists and
+          dashboard stats. Deleting a tag removes it from every lead.
+        </p>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tag</TableHead>
+                  <TableHead>Leads</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                      <div>Loading tags...</div>
+                    </TableCell>
+                  </TableRow>
+                ) : tags.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-12 text-gray-500">
+                      No tags yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  tags.map((tag) => (
+                    <TableRow key={tag.id} data-testid={`row-tag-${tag.id}`}>
+                      <TableCell>
+                        <TagBadge tag={tag} />
+                      </TableCell>
+                      <TableCell>{tag.leadCount ?? 0}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEdit(tag)} data-testid={`button-edit-tag-${tag.id}`}>
+                            <Edit3 className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                disabled={deleteMutation.isPending}
+                                data-testid={`button-delete-tag-${tag.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete the tag "{tag.name}"?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  It is removed from {tag.leadCount ?? 0} lead{tag.leadCount === 1 ? '' : 's'}. This cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => deleteMutation.mutate(tag.id)} data-testid={`button-confirm-delete-tag-${tag.id}`}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : 'Add Tag'}</DialogTitle>
+            <DialogDescription>Renaming a tag changes it on every lead that has it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tag-name">Name</Label>
+              <Input id="tag-name" value={name} maxLength={40} onChange={(e) => setName(e.target.value)} data-testid="input-tag-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Colour</Label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(TAG_COLOR_CLASSES) as TagColor[]).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setColor(option)}
+                    className={`rounded-full border px-3 py-1 text-xs capitalize ${TAG_COLOR_CLASSES[option]} ${color === option ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+                    data-testid={`button-tag-color-${option}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {name.trim() && (
+              <div className="text-sm text-gray-600">
+                Preview: <TagBadge tag={{ id: editing?.id ?? 0, name: name.trim(), color }} />
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!name.trim() || saveMutation.isPending}
+                data-testid="button-save-tag"
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Tags;
@@ -0,0 +1,76 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { Lead } from "@shared/schema";
+import type { AuthUser } from "./auth";
+
+declare global {
+  namespace Express {
+    interface Request {
+      lead?: Lead;
+    }
+  }
+}
+
+export const LEAD_ACCESS_DENIED = "You do not have access to this lead";
+
+// Admins see every lead; managers the leads of their teams (leads.managerId); counselors only the leads assigned to them.
+// Archived leads are visible to admins only.
+export function canAccessLead(user: AuthUser, lead: Pick<Lead, "counselorId" | "managerId" | "archivedAt">): boolean {
+  if (user.role === "admin") return true;
+  if (lead.archivedAt) return false;
+  if (user.role === "manager" && lead.managerId !== null && lead.managerId === user.id) return true;
+  return lead.counselorId !== null && lead.counselorId === user.id;
+}
+
+export function denyLeadAccess(res: Response) {
+  return res.status(403).json({ error: LEAD_ACCESS_DENIED });
+}
+
+// Loads the lead named by a route param and rejects users who don't own it.
+// Must run after requireAuth; the loaded lead is exposed as req.lead.
+export function requireLeadAccess(param = "id") {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const leadId = parseInt(req.params[param]);
+      if (isNaN(leadId)) {
+        return res.status(400).json({ error: "Invalid lead id" });
+      }
+
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      if (!canAccessLead(req.user!, lead)) {
+        return denyLeadAccess(res);
+      }
+
+      req.lead = lead;
+      next();
+    } catch (error) {
+      console.error("Lead access check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+}
+
+// Same check for endpoints that receive the lead id in the body or via another record
+export async function checkLeadAccess(user: AuthUser, leadId: number): Promise<"ok" | "not_found" | "forbidden"> {
+  const lead = await storage.getLead(leadId);
+  if (!lead) return "not_found";
+  return canAccessLead(user, lead) ? "ok" : "forbidden";
+}
+
+// checkLeadAccess for a list of leads with a single query. Reports the first lead that is missing
+// or off limits, in the order given.
+export async function checkLeadsAccess(
+  user: AuthUser,
+  leadIds: number[]
+): Promise<{ access: "ok" } | { access: "not_found" | "forbidden"; leadId: number }> {
+  const found = new Map((await storage.getLeadOwnership(leadIds)).map(lead => [lead.id, lead]));
+  for (const leadId of leadIds) {
+    const lead = found.get(leadId);
+    if (!lead) return { access: "not_found", leadId };
+    if (!canAccessLead(user, lead)) return { access: "forbidden", leadId };
+  }
+  return { access: "ok" };
+}
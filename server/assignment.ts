@@ -0,0 +1,162 @@
+import { storage, type AssignableLead } from "./storage";
+import {
+  ASSIGNMENT_STRATEGIES,
+  type AssignmentConditions,
+  type AssignmentRule,
+  type AssignmentStrategy,
+  type AssignmentTarget
+} from "@shared/schema";
+
+// Rule-based counselor assignment for new leads. Manual creation, both import paths and the
+// unassigned-lead backfill all go through loadLeadAssigner(), so a lead gets the same counselor
+// whichever way it comes in. Leads that match no rule stay unassigned.
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  round_robin: "Round robin",
+  least_loaded: "Least loaded",
+  weighted: "Weighted"
+};
+
+export interface AssignmentDecision {
+  counselorId: number;
+  ruleId: number;
+  ruleName: string;
+}
+
+export interface LeadAssigner {
+  // Picks a counselor, optionally only from allowedCounselorIds (e.g. a manager's team)
+  assign(lead: AssignableLead, allowedCounselorIds?: Set<number>): AssignmentDecision | null;
+  // Saves the round robin and weighted tallies for everything assign() handed out
+  commit(): Promise<void>;
+}
+
+function matchesAny(values: string[] | undefined, value: string | null, partial = false): boolean {
+  if (!values || values.length === 0) return true;
+  if (!value) return false;
+  const wanted = value.trim().toLowerCase();
+  return values.some(v => partial ? wanted.includes(v.toLowerCase()) : v.toLowerCase() === wanted);
+}
+
+export function ruleMatches(conditions: AssignmentConditions, lead: AssignableLead): boolean {
+  return matchesAny(conditions.countries, lead.country)
+    && matchesAny(conditions.sources, lead.source)
+    && matchesAny(conditions.intakes, lead.intake, true)
+    && matchesAny(conditions.languages, lead.preferredLanguage);
+}
+
+// Lowest value wins; ties go to whoever is listed first on the rule
+function pickLowest(targets: AssignmentTarget[], value: (target: AssignmentTarget) => number): AssignmentTarget {
+  return targets.reduce((best, t) => (value(t) < value(best) ? t : best), targets[0]);
+}
+
+// Loads the active rules, the active counselors and their open lead counts. The returned assigner
+// keeps its own running counts, so one instance spreads a whole import batch evenly.
+export async function loadLeadAssigner(): Promise<LeadAssigner> {
+  const [rules, counselors, loads] = await Promise.all([
+    storage.getAssignmentRules(),
+    storage.getAllCounselors(),
+    storage.getOpenLeadCountsByCounselor()
+  ]);
+  const activeRules = rules.filter(r => r.isActive);
+  const activeCounselorIds = new Set(counselors.filter(c => c.isActive).map(c => c.id));
+  const openLeads = new Map(loads.map(l => [l.counselorId, l.openLeads]));
+  const pending = new Map<number, Record<number, number>>(); // ruleId -> counselorId -> leads handed out
+
+  const handedOut = (rule: AssignmentRule, counselorId: number) =>
+    (rule.assignedCounts[counselorId] ?? 0) + (pending.get(rule.id)?.[counselorId] ?? 0);
+
+  return {
+    assign(lead, allowedCounselorIds) {
+      for (const rule of activeRules) {
+        if (!ruleMatches(rule.conditions, lead)) continue;
+        const targets = rule.targets.filter(t =>
+          activeCounselorIds.has(t.counselorId) && (!allowedCounselorIds || allowedCounselorIds.has(t.counselorId))
+        );
+        // A matching rule with nobody available falls through to the next rule
+        if (targets.length === 0) continue;
+
+        const target = rule.strategy === "least_loaded"
+          ? pickLowest(targets, t => openLeads.get(t.counselorId) ?? 0)
+          : rule.strategy === "weighted"
+            ? pickLowest(targets, t => (handedOut(rule, t.counselorId) + 1) / Math.max(t.weight, 1))
+            : pickLowest(targets, t => handedOut(rule, t.counselorId));
+
+        const counts = pending.get(rule.id) ?? {};
+        counts[target.counselorId] = (counts[target.counselorId] ?? 0) + 1;
+        pending.set(rule.id, counts);
+        openLeads.set(target.counselorId, (openLeads.get(target.counselorId) ?? 0) + 1);
+        return { counselorId: target.counselorId, ruleId: rule.id, ruleName: rule.name };
+      }
+      return null;
+    },
+
+    async commit() {
+      for (const [ruleId, counts] of Array.from(pending)) {
+        await storage.recordRuleAssignments(ruleId, counts);
+      }
+      pending.clear();
+    }
+  };
+}
+
+// One-off assignment for a single new lead; returns null when no rule applies
+export async function assignNewLead(
+  lead: AssignableLead,
+  allowedCounselorIds?: Set<number>
+): Promise<AssignmentDecision | null> {
+  const assigner = await loadLeadAssigner();
+  const decision = assigner.assign(lead, allowedCounselorIds);
+  await assigner.commit();
+  return decision;
+}
+
+function textList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+  return Array.from(new Set(value.map(v => String(v).trim()).filter(Boolean)));
+}
+
+// Validates an admin's rule; counselor ids are checked against the active counselors by the route
+export function parseAssignmentRule(body: any): {
+  rule: Pick<AssignmentRule, "name" | "priority" | "conditions" | "strategy" | "targets" | "isActive">
+} | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return { error: "Name is required" };
+  }
+  const priority = body.priority === undefined ? 0 : Number(body.priority);
+  if (!Number.isInteger(priority)) {
+    return { error: "priority must be a whole number" };
+  }
+  if (!ASSIGNMENT_STRATEGIES.includes(body.strategy)) {
+    return { error: `strategy must be one of: ${ASSIGNMENT_STRATEGIES.join(", ")}` };
+  }
+
+  const input = body.conditions ?? {};
+  const conditions: AssignmentConditions = {};
+  for (const key of ["countries", "sources", "intakes", "languages"] as const) {
+    const values = textList(input[key]);
+    if (!values) {
+      return { error: `conditions.${key} must be a list` };
+    }
+    if (values.length > 0) conditions[key] = values;
+  }
+
+  if (!Array.isArray(body.targets) || body.targets.length === 0) {
+    return { error: "Choose at least one counselor" };
+  }
+  const targets: AssignmentTarget[] = [];
+  for (const t of body.targets) {
+    const counselorId = Number(t?.counselorId);
+    const weight = t?.weight === undefined ? 1 : Number(t.weight);
+    if (!Number.isInteger(counselorId) || !Number.isInteger(weight) || weight < 1 || weight > 100) {
+      return { error: "Each counselor needs a whole-number weight from 1 to 100" };
+    }
+    if (targets.some(existing => existing.counselorId === counselorId)) {
+      return { error: "A counselor can only be listed once per rule" };
+    }
+    targets.push({ counselorId, weight });
+  }
+
+  return { rule: { name, priority, conditions, strategy: body.strategy, targets, isActive: body.isActive !== false } };
+}
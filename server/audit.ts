@@ -0,0 +1,75 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { isEncrypted } from "./credentials";
+
+// Audit trail for API writes. Route handlers call recordAudit() after a successful write;
+// rows land in the append-only audit_log table and are browsed from the admin Audit page.
+
+// Secrets never reach the audit log, not even as part of a diff
+const REDACTED_FIELDS = new Set(["password", "totpSecret", "totpLastUsedStep", "tokenHash", "codeHash"]);
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+// Field-by-field diff of two versions of a record. Pass null for `before` on create
+// and null for `after` on delete. Only the columns of the newer version are compared, so
+// joined display fields on `before` (counselorName, ...) don't show up as removed.
+export function diffChanges(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = Object.keys(after ?? before ?? {});
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const from = normalize(before?.[key]);
+    const to = normalize(after?.[key]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { from: from === null ? null : "[redacted]", to: to === null ? null : "[redacted]" }
+      : { from: isEncrypted(from) ? "[encrypted]" : from, to: isEncrypted(to) ? "[encrypted]" : to };
+  }
+  return changes;
+}
+
+export interface AuditEvent {
+  action: string;
+  entityType: string;
+  entityId?: number | string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  details?: Record<string, unknown>;
+  // Defaults to the session user; set it for requests that authenticate during the call (login)
+  actorId?: number | null;
+}
+
+// Never throws: a failed audit write is logged but does not undo or fail the request
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  try {
+    const changes = event.before !== undefined || event.after !== undefined
+      ? diffChanges(event.before, event.after)
+      : null;
+
+    await storage.createAuditLog({
+      actorId: event.actorId !== undefined ? event.actorId : req.user?.id ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId !== undefined && event.entityId !== null ? String(event.entityId) : null,
+      changes: changes && Object.keys(changes).length > 0 ? changes : null,
+      details: event.details ?? null,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null
+    });
+  } catch (error) {
+    console.error("Audit log error:", error);
+  }
+}
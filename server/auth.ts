@@ -0,0 +1,213 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { storage } from "./storage";
+import type { User, USER_ROLES } from "@shared/schema";
+
+// User as exposed to route handlers and the client (never includes the password hash or TOTP secret)
+export type AuthUser = Omit<User, "password" | "totpSecret" | "totpLastUsedStep">;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    // Password verified, waiting for the TOTP / recovery code step
+    pendingTwoFactorUserId: number;
+    pendingTwoFactorFailures: number;
+    // Secret shown during enrollment, saved to the user only once a code confirms it
+    pendingTotpSecret: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export function toAuthUser(user: User): AuthUser {
+  const { password: _, totpSecret: _secret, totpLastUsedStep: _step, ...safeUser } = user;
+  return safeUser;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Development fallback: sessions are invalidated on every restart
+  console.warn("SESSION_SECRET is not set, using a random development secret");
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function setupAuth(app: Express) {
+  // Replit and most hosts terminate TLS at a proxy in front of Express
+  app.set("trust proxy", 1);
+
+  app.use(session({
+    name: "crm.sid",
+    secret: getSessionSecret(),
+    store: storage.sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 12 * 60 * 60 * 1000, // 12 hours
+    },
+  }));
+}
+
+function regenerateSession(req: Request, assign: () => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      assign();
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+// Starts a fresh session for the user, preventing session fixation
+export function establishSession(req: Request, userId: number): Promise<void> {
+  return regenerateSession(req, () => {
+    req.session.userId = userId;
+  });
+}
+
+// Half-authenticated session: the password was right, the second factor is still due
+export function establishPendingTwoFactor(req: Request, userId: number): Promise<void> {
+  return regenerateSession(req, () => {
+    req.session.pendingTwoFactorUserId = userId;
+    req.session.pendingTwoFactorFailures = 0;
+  });
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+async function authenticate(req: Request, res: Response, next: NextFunction, allowAccountSetup: boolean) {
+  try {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) {
+      await destroySession(req).catch(() => undefined);
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (!allowAccountSetup) {
+      if (user.mustChangePassword) {
+        return res.status(403).json({ error: "Password change required", code: "PASSWORD_CHANGE_REQUIRED" });
+      }
+      if (user.totpRequired && !user.totpEnabled) {
+        return res.status(403).json({ error: "Two-factor authentication setup required", code: "TWO_FACTOR_SETUP_REQUIRED" });
+      }
+    }
+
+    req.user = toAuthUser(user);
+    next();
+  } catch (error) {
+    console.error("Auth middleware error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+}
+
+// Resolves the session user on every request; rejects anonymous or deactivated accounts
+// and accounts that still have to replace a temporary password or enroll in 2FA
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  return authenticate(req, res, next, false);
+}
+
+// Only for the endpoints needed to finish account setup (profile, change password, 2FA enrollment)
+export function requireAuthForAccountSetup(req: Request, res: Response, next: NextFunction) {
+  return authenticate(req, res, next, true);
+}
+
+// Must run after requireAuth
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+    next();
+  };
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  return requireAuth(req, res, () => requireRole("admin")(req, res, next));
+}
+
+// Admins, or managers acting on their own team (routes still have to check the team scope)
+export function requireManager(req: Request, res: Response, next: NextFunction) {
+  return requireAuth(req, res, () => requireRole("admin", "manager")(req, res, next));
+}
+
+// Random one-time password handed out by bootstrap and admin resets
+export function generateTemporaryPassword(): string {
+  return crypto.randomBytes(12).toString("base64url");
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function generateResetToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function isPasswordHashed(password: string): boolean {
+  return password.startsWith("$2b$") || password.startsWith("$2a$");
+}
+
+// Hashes any legacy plaintext passwords; those users must pick a new password at next login.
+// Runs at startup so login never has to compare plaintext.
+export async function hashLegacyPasswords(): Promise<number> {
+  let hashed = 0;
+  const allUsers = await storage.getAllUsers();
+  for (const user of allUsers) {
+    if (!isPasswordHashed(user.password)) {
+      await storage.updateUser(user.id, {
+        password: await bcrypt.hash(user.password, 10),
+        mustChangePassword: true,
+        updatedAt: new Date(),
+      });
+      hashed++;
+    }
+  }
+  return hashed;
+}
+
+// Ten single-use codes like "3f9a-c21b" for when the authenticator device is lost
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(4).toString("hex");
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[^a-f0-9]/g, "");
+}
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { Document, UniversityApplication } from "@shared/schema";
+
+// Student portal credentials (university application logins and the exam login document)
+// are encrypted at rest with AES-256-GCM. List endpoints only return masked values; the
+// plaintext is served by the reveal endpoints, which record every view in the audit log.
+
+export const CREDENTIALS_DOCUMENT_TYPE = "Share exam login credentials";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const MASK = "••••••••";
+
+let encryptionKey: Buffer | undefined;
+
+function getEncryptionKey(): Buffer {
+  if (encryptionKey) return encryptionKey;
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("CREDENTIALS_ENCRYPTION_KEY must be set in production");
+    }
+    // Development fallback: a fixed key so stored credentials survive restarts
+    console.warn("CREDENTIALS_ENCRYPTION_KEY is not set, using an insecure development key");
+  }
+  // Any passphrase works; SHA-256 stretches it to the 32 bytes AES-256 needs
+  encryptionKey = crypto.createHash("sha256").update(secret || "development-credentials-key").digest();
+  return encryptionKey;
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+// "enc:v1:<iv>:<auth tag>:<ciphertext>", all base64
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ENCRYPTED_PREFIX + [iv, tag, ciphertext].map(part => part.toString("base64")).join(":");
+}
+
+// Legacy plaintext values are returned as-is until the startup migration has encrypted them
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return value;
+  const [iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(":").map(part => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+function encryptOptional(value: string | null | undefined): string | null {
+  return value ? (isEncrypted(value) ? value : encryptSecret(value)) : null;
+}
+
+function decryptOptional(value: string | null | undefined): string | null {
+  return value ? decryptSecret(value) : null;
+}
+
+export function isCredentialsDocument(documentType: string | null | undefined): boolean {
+  return documentType === CREDENTIALS_DOCUMENT_TYPE;
+}
+
+export function encryptUniversityCredentials<T extends { username?: string | null; password?: string | null }>(app: T): T {
+  return { ...app, username: encryptOptional(app.username), password: encryptOptional(app.password) };
+}
+
+// List view of an application: credentials are never sent, only whether they exist
+export function maskUniversityApplication(app: UniversityApplication) {
+  const { username, password, ...rest } = app;
+  return {
+    ...rest,
+    username: username ? MASK : null,
+    password: password ? MASK : null,
+    hasCredentials: !!(username || password)
+  };
+}
+
+export function revealUniversityCredentials(app: UniversityApplication) {
+  return { username: decryptOptional(app.username), password: decryptOptional(app.password) };
+}
+
+// The exam login document keeps its credentials in the URL and remarks fields
+export function encryptDocumentFields<T extends { documentUrl?: string | null; remarks?: string | null }>(
+  documentType: string,
+  doc: T
+): T {
+  if (!isCredentialsDocument(documentType)) return doc;
+  const encrypted = { ...doc };
+  if (doc.documentUrl !== undefined) encrypted.documentUrl = encryptOptional(doc.documentUrl);
+  if (doc.remarks !== undefined) encrypted.remarks = encryptOptional(doc.remarks);
+  return encrypted;
+}
+
+export function maskDocument(doc: Document) {
+  if (!isCredentialsDocument(doc.documentType)) {
+    return { ...doc, hasCredentials: false };
+  }
+  return {
+    ...doc,
+    documentUrl: doc.documentUrl ? MASK : null,
+    remarks: doc.remarks ? MASK : null,
+    hasCredentials: true
+  };
+}
+
+export function revealDocumentCredentials(doc: Document) {
+  return { documentUrl: decryptOptional(doc.documentUrl), remarks: decryptOptional(doc.remarks) };
+}
+
+// Encrypts credentials stored before encryption was introduced. Runs at startup, like
+// hashLegacyPasswords, so no plaintext portal password stays in the database.
+export async function encryptLegacyCredentials(): Promise<number> {
+  let encrypted = 0;
+
+  for (const app of await storage.getAllUniversityApplications()) {
+    if ((!app.username || isEncrypted(app.username)) && (!app.password || isEncrypted(app.password))) continue;
+    await storage.updateUniversityApplication(app.id, encryptUniversityCredentials({
+      username: app.username,
+      password: app.password
+    }));
+    encrypted++;
+  }
+
+  for (const doc of await storage.getDocumentsByType(CREDENTIALS_DOCUMENT_TYPE)) {
+    if ((doc.documentUrl && !isEncrypted(doc.documentUrl)) || (doc.remarks && !isEncrypted(doc.remarks))) {
+      await storage.updateDocument(doc.id, encryptDocumentFields(doc.documentType, {
+        documentUrl: doc.documentUrl,
+        remarks: doc.remarks
+      }));
+      encrypted++;
+    }
+  }
+
+  return encrypted;
+}
@@ -0,0 +1,199 @@
+import {
+  CUSTOM_FIELD_TYPES,
+  type CustomField,
+  type CustomFieldType,
+  type CustomFieldValidation,
+  type CustomFieldValue,
+  type CustomFieldValues,
+  type InsertCustomField
+} from "@shared/schema";
+
+// Admin-defined lead fields. Definitions live in custom_fields; each lead keeps its values in
+// leads.custom_fields keyed by the field key. Everything that writes values (lead create/edit,
+// CSV imports) goes through the coercion here so the stored shape always matches the field type.
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+const MAX_TEXT_LENGTH = 1000;
+
+export function isCustomFieldKey(value: string): boolean {
+  return KEY_PATTERN.test(value);
+}
+
+// "Visa Officer Name" -> "visa_officer_name"
+export function customFieldKeyFromLabel(label: string): string {
+  const key = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 50);
+  return /^[a-z]/.test(key) ? key : `field_${key}`.slice(0, 50);
+}
+
+type Coerced = { value: CustomFieldValue | null } | { error: string };
+
+// Validates one value against its field; empty input comes back as null (= clear the value)
+export function coerceCustomFieldValue(field: CustomField, raw: unknown): Coerced {
+  const validation = field.validation ?? {};
+  if (raw === null || raw === undefined || raw === "" || (Array.isArray(raw) && raw.length === 0)) {
+    return { value: null };
+  }
+
+  switch (field.fieldType as CustomFieldType) {
+    case "text": {
+      if (typeof raw !== "string" && typeof raw !== "number") return { error: `${field.label} must be text` };
+      const value = String(raw).trim();
+      const maxLength = validation.maxLength ?? MAX_TEXT_LENGTH;
+      if (value.length > maxLength) return { error: `${field.label} must be at most ${maxLength} characters` };
+      return { value: value || null };
+    }
+    case "number": {
+      const value = typeof raw === "number" ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value)) return { error: `${field.label} must be a number` };
+      if (validation.min !== undefined && value < validation.min) return { error: `${field.label} must be at least ${validation.min}` };
+      if (validation.max !== undefined && value > validation.max) return { error: `${field.label} must be at most ${validation.max}` };
+      return { value };
+    }
+    case "date": {
+      const text = String(raw).trim();
+      const date = new Date(text);
+      if (typeof raw !== "string" || isNaN(date.getTime())) return { error: `${field.label} must be a date` };
+      // Stored as a plain calendar date
+      return { value: /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : date.toISOString().slice(0, 10) };
+    }
+    case "select": {
+      const option = field.options.find(o => o.toLowerCase() === String(raw).trim().toLowerCase());
+      if (!option) return { error: `${field.label} must be one of: ${field.options.join(", ")}` };
+      return { value: option };
+    }
+    case "multiselect": {
+      // Imports give a comma-separated string, the UI an array
+      const values = (Array.isArray(raw) ? raw : String(raw).split(",")).map(v => String(v).trim()).filter(Boolean);
+      const selected: string[] = [];
+      for (const value of values) {
+        const option = field.options.find(o => o.toLowerCase() === value.toLowerCase());
+        if (!option) return { error: `${field.label}: "${value}" is not one of ${field.options.join(", ")}` };
+        if (!selected.includes(option)) selected.push(option);
+      }
+      return { value: selected.length > 0 ? selected : null };
+    }
+    default:
+      return { error: `${field.label} has an unknown type` };
+  }
+}
+
+// Validates the customFields object of a lead create/update body and merges it over the
+// lead's current values. Only active fields can be written; inactive values are left alone.
+export function applyCustomFieldValues(
+  fields: CustomField[],
+  input: unknown,
+  current: CustomFieldValues = {}
+): { values: CustomFieldValues } | { error: string } {
+  if (input !== undefined && (typeof input !== "object" || input === null || Array.isArray(input))) {
+    return { error: "customFields must be an object" };
+  }
+  const activeByKey = new Map(fields.filter(f => f.isActive).map(f => [f.key, f]));
+  const values: CustomFieldValues = { ...current };
+
+  for (const [key, raw] of Object.entries(input ?? {})) {
+    const field = activeByKey.get(key);
+    if (!field) return { error: `Unknown custom field "${key}"` };
+    const coerced = coerceCustomFieldValue(field, raw);
+    if ("error" in coerced) return coerced;
+    if (coerced.value === null) delete values[key];
+    else values[key] = coerced.value;
+  }
+
+  for (const field of Array.from(activeByKey.values())) {
+    if (field.required && values[field.key] === undefined) {
+      return { error: `${field.label} is required` };
+    }
+  }
+  return { values };
+}
+
+// Picks custom field values out of an imported CSV row: a column counts when its header matches
+// a field's label or key (case-insensitive). Bad values are dropped and reported, not fatal, and
+// required fields are not enforced so older spreadsheets still import.
+export function customFieldValuesFromRow(
+  fields: CustomField[],
+  row: Record<string, unknown> | undefined
+): { values: CustomFieldValues; issues: string[] } {
+  const values: CustomFieldValues = {};
+  const issues: string[] = [];
+  if (!row) return { values, issues };
+
+  const byHeader = new Map<string, CustomField>();
+  for (const field of fields.filter(f => f.isActive)) {
+    byHeader.set(field.label.trim().toLowerCase(), field);
+    byHeader.set(field.key, field);
+  }
+
+  for (const [header, raw] of Object.entries(row)) {
+    const field = byHeader.get(header.trim().toLowerCase());
+    if (!field || values[field.key] !== undefined) continue;
+    const coerced = coerceCustomFieldValue(field, typeof raw === "string" ? raw.trim() : raw);
+    if ("error" in coerced) issues.push(coerced.error);
+    else if (coerced.value !== null) values[field.key] = coerced.value;
+  }
+  return { values, issues };
+}
+
+// Validates an admin's field definition. On update the key and type are fixed and omitted fields keep their value.
+export function parseCustomFieldDefinition(
+  body: any,
+  existing?: CustomField
+): { definition: Partial<InsertCustomField> } | { error: string } {
+  const definition: Partial<InsertCustomField> = {};
+
+  if (body.label !== undefined || !existing) {
+    const label = typeof body.label === "string" ? body.label.trim() : "";
+    if (!label || label.length > 100) return { error: "Label is required (up to 100 characters)" };
+    definition.label = label;
+  }
+
+  if (existing) {
+    if (body.key !== undefined && body.key !== existing.key) return { error: "The key of a field cannot be changed" };
+    if (body.fieldType !== undefined && body.fieldType !== existing.fieldType) {
+      return { error: "The type of a field cannot be changed" };
+    }
+  } else {
+    const key = typeof body.key === "string" && body.key.trim() ? body.key.trim() : customFieldKeyFromLabel(definition.label!);
+    if (!isCustomFieldKey(key)) {
+      return { error: "Key must start with a letter and use only lowercase letters, digits and underscores" };
+    }
+    if (!CUSTOM_FIELD_TYPES.includes(body.fieldType)) {
+      return { error: `fieldType must be one of ${CUSTOM_FIELD_TYPES.join(", ")}` };
+    }
+    definition.key = key;
+    definition.fieldType = body.fieldType;
+  }
+
+  const fieldType = (existing?.fieldType ?? definition.fieldType) as CustomFieldType;
+  const isSelect = fieldType === "select" || fieldType === "multiselect";
+  if (body.options !== undefined || (!existing && isSelect)) {
+    const options = Array.isArray(body.options)
+      ? Array.from(new Set(body.options.map((o: unknown) => String(o).trim()).filter(Boolean))) as string[]
+      : [];
+    if (isSelect && options.length === 0) return { error: "Select fields need at least one option" };
+    definition.options = isSelect ? options : [];
+  }
+
+  if (body.validation !== undefined) {
+    const validation: CustomFieldValidation = {};
+    for (const limit of ["min", "max", "maxLength"] as const) {
+      const value = body.validation?.[limit];
+      if (value === undefined || value === null || value === "") continue;
+      if (!Number.isFinite(Number(value))) return { error: `validation.${limit} must be a number` };
+      validation[limit] = Number(value);
+    }
+    if (validation.min !== undefined && validation.max !== undefined && validation.min > validation.max) {
+      return { error: "validation.min cannot be greater than validation.max" };
+    }
+    definition.validation = validation;
+  }
+
+  if (body.required !== undefined) definition.required = body.required === true;
+  if (body.isActive !== undefined) definition.isActive = body.isActive === true;
+  if (body.sortOrder !== undefined) {
+    const sortOrder = parseInt(body.sortOrder);
+    if (isNaN(sortOrder)) return { error: "sortOrder must be a number" };
+    definition.sortOrder = sortOrder;
+  }
+  return { definition };
+}
@@ -0,0 +1,46 @@
+import { storage } from "./storage";
+
+// Background duplicate finder. Scans the whole leads table for likely duplicates (phone, email,
+// fuzzy name) and queues the pairs in lead_duplicates for admins to merge or dismiss.
+
+const FIRST_SCAN_DELAY_MS = 60 * 1000; // let the server finish starting up
+const SCAN_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+export interface DuplicateScanResult {
+  pairsFound: number;
+  finishedAt: Date;
+}
+
+let runningScan: Promise<DuplicateScanResult> | null = null;
+let lastScan: DuplicateScanResult | null = null;
+
+// Concurrent callers share the scan already in progress
+export function scanForDuplicates(): Promise<DuplicateScanResult> {
+  if (!runningScan) {
+    runningScan = (async () => {
+      try {
+        const pairs = await storage.findDuplicateLeadPairs();
+        await storage.saveLeadDuplicates(pairs);
+        lastScan = { pairsFound: pairs.length, finishedAt: new Date() };
+        return lastScan;
+      } finally {
+        runningScan = null;
+      }
+    })();
+  }
+  return runningScan;
+}
+
+export function getLastDuplicateScan(): DuplicateScanResult | null {
+  return lastScan;
+}
+
+// Fire-and-forget scan, e.g. after an import; failures are only logged
+export function queueDuplicateScan(): void {
+  scanForDuplicates().catch(error => console.error("Duplicate scan error:", error));
+}
+
+export function startDuplicateScanner(): void {
+  setTimeout(queueDuplicateScan, FIRST_SCAN_DELAY_MS).unref();
+  setInterval(queueDuplicateScan, SCAN_INTERVAL_MS).unref();
+}
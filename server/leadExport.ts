@@ -0,0 +1,101 @@
+import { storage, type LeadExportDetail, type LeadFilters, type LeadListRow } from "./storage";
+import type { CustomField, Task } from "@shared/schema";
+import type { XlsxCell } from "./xlsx";
+
+// Columns and row building for the lead export (GET /api/leads/export). Rows are read a page at a
+// time with the same filters as the lead list, so a CSV export can be streamed while it is built.
+
+export const LEAD_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type LeadExportFormat = (typeof LEAD_EXPORT_FORMATS)[number];
+
+const LEAD_EXPORT_BATCH_SIZE = 500;
+
+export interface LeadExportColumn {
+  key: string;
+  label: string;
+  value: (lead: LeadListRow, detail: LeadExportDetail) => XlsxCell;
+}
+
+// Task fields that record how a step went, later pipeline steps first
+const TASK_OUTCOME_FIELDS = [
+  "commissionStatus", "tuitionStatus", "depositStatus", "visaStatus", "offerLetterStatus", "applicationStatus",
+  "trackingStatus", "shortlistingStatus", "sessionStatus", "connectStatus", "callStatus"
+] as const;
+
+// UTC, to the minute
+function formatDateTime(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 16).replace("T", " ") : null;
+}
+
+// e.g. "Call: Connected" or "Call: Not Interested (too expensive)"
+function taskOutcome(task: Task): string {
+  const statuses = TASK_OUTCOME_FIELDS.map(field => task[field]).filter(Boolean);
+  const outcome = statuses.length > 0 ? `${task.taskType}: ${statuses.join(", ")}` : task.taskType;
+  return task.reasonNotInterested ? `${outcome} (${task.reasonNotInterested})` : outcome;
+}
+
+const BASE_COLUMNS: LeadExportColumn[] = [
+  { key: "id", label: "ID", value: lead => lead.id },
+  { key: "uid", label: "UID", value: lead => lead.uid },
+  { key: "name", label: "Name", value: lead => lead.name },
+  { key: "email", label: "Email", value: lead => lead.email },
+  { key: "phone", label: "Phone", value: lead => lead.phone },
+  { key: "country", label: "Country", value: lead => lead.country },
+  { key: "course", label: "Course", value: lead => lead.course },
+  { key: "intake", label: "Intake", value: lead => lead.intake },
+  { key: "source", label: "Source", value: lead => lead.source },
+  { key: "currentStage", label: "Stage", value: lead => lead.currentStage },
+  { key: "counselor", label: "Counselor", value: lead => lead.counselorName },
+  { key: "passportStatus", label: "Passport Status", value: lead => lead.passportStatus },
+  { key: "preferredLanguage", label: "Preferred Language", value: lead => lead.preferredLanguage },
+  { key: "prevConsultancy", label: "Previous Consultancy", value: lead => lead.prevConsultancy },
+  { key: "score", label: "Score", value: lead => lead.score },
+  { key: "tags", label: "Tags", value: lead => lead.tags.map(tag => tag.name).join(", ") },
+  { key: "createdAt", label: "Created", value: lead => formatDateTime(lead.createdAt) },
+  { key: "updatedAt", label: "Last Updated", value: lead => formatDateTime(lead.updatedAt) },
+  // Imported leads keep their spreadsheet remark on the lead until someone adds a remark
+  { key: "latestRemark", label: "Latest Remark", value: (lead, detail) => detail.latestRemark?.content ?? lead.remarks },
+  { key: "latestRemarkAt", label: "Latest Remark Date", value: (_lead, detail) => formatDateTime(detail.latestRemark?.createdAt ?? null) },
+  { key: "lastTaskOutcome", label: "Last Task Outcome", value: (_lead, detail) => detail.lastTask ? taskOutcome(detail.lastTask) : null },
+  { key: "lastTaskAt", label: "Last Task Date", value: (_lead, detail) => formatDateTime(detail.lastTask?.createdAt ?? null) }
+];
+
+// Every exportable column: the lead's own fields, then one "cf.<key>" column per active custom field
+export function leadExportColumns(customFields: CustomField[]): LeadExportColumn[] {
+  return [
+    ...BASE_COLUMNS,
+    ...customFields.filter(field => field.isActive).map(field => ({
+      key: `cf.${field.key}`,
+      label: field.label,
+      value: (lead: LeadListRow) => {
+        const value = lead.customFields[field.key];
+        return Array.isArray(value) ? value.join(", ") : value ?? null;
+      }
+    }))
+  ];
+}
+
+// The requested columns in the requested order; all columns when none are given
+export function selectExportColumns(
+  requested: string[] | undefined,
+  available: LeadExportColumn[]
+): { columns: LeadExportColumn[] } | { error: string } {
+  if (!requested) return { columns: available };
+  const byKey = new Map(available.map(column => [column.key, column]));
+  const unknown = requested.filter(key => !byKey.has(key));
+  if (unknown.length > 0) {
+    return { error: `Unknown export columns: ${unknown.join(", ")}` };
+  }
+  return { columns: Array.from(new Set(requested)).map(key => byKey.get(key)!) };
+}
+
+// Yields the export rows a page of leads at a time
+export async function* leadExportRows(filters: LeadFilters, columns: LeadExportColumn[]): AsyncGenerator<XlsxCell[][]> {
+  for (let offset = 0; ; offset += LEAD_EXPORT_BATCH_SIZE) {
+    const { leads } = await storage.getLeads({ ...filters, limit: LEAD_EXPORT_BATCH_SIZE, offset });
+    if (leads.length === 0) return;
+    const details = await storage.getLeadExportDetails(leads.map(lead => lead.id));
+    yield leads.map((lead, i) => columns.map(column => column.value(lead, details[i])));
+    if (leads.length < LEAD_EXPORT_BATCH_SIZE) return;
+  }
+}
@@ -0,0 +1,138 @@
+import type { Request } from "express";
+import { LEAD_SORT_FIELDS, type LeadFilters, type LeadSortField } from "./storage";
+import { isCustomFieldKey } from "./customFields";
+
+// Query-string parsing for the lead list (GET /api/leads). The caller's role scope is applied
+// separately by leadScopeFor/scopeLeadFilters so a counselor can never widen it through the query string.
+
+export const DEFAULT_LEAD_PAGE_SIZE = 50;
+export const MAX_LEAD_PAGE_SIZE = 200;
+
+// Accepts repeated params (?stage=a&stage=b) and comma-separated lists (?stage=a,b)
+export function queryList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(v => String(v).split(","))
+    .map(v => v.trim())
+    .filter(v => v && v !== "all");
+  return values.length > 0 ? values : undefined;
+}
+
+// Numeric ids in the same list syntax (?tag=1&tag=2 or ?tag=1,2); null when any id is not a number
+export function queryIdList(value: unknown): number[] | null | undefined {
+  const values = queryList(value);
+  if (!values) return undefined;
+  const ids = values.map(v => Number(v));
+  return ids.every(id => Number.isInteger(id) && id > 0) ? ids : null;
+}
+
+// undefined when absent, null when unparseable. A bare YYYY-MM-DD upper bound means
+// "up to the end of that day", so the returned date is exclusive.
+export function parseDateParam(value: unknown, endOfDay = false): Date | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+// Params of the lead list that a saved view never keeps: paging, and the admin-only archive listing
+const UNSAVED_LEAD_PARAMS = ["page", "pageSize", "archived"];
+
+// A Leads page query string (as stored for saved views) in the shape of req.query, minus UNSAVED_LEAD_PARAMS
+export function leadQueryFromString(queryString: string): Request["query"] {
+  const query: Record<string, string | string[]> = {};
+  new URLSearchParams(queryString).forEach((value, key) => {
+    if (UNSAVED_LEAD_PARAMS.includes(key)) return;
+    const existing = query[key];
+    query[key] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+  });
+  return query;
+}
+
+export type ParsedLeadQuery =
+  | { filters: LeadFilters; page: number | undefined; pageSize: number }
+  | { error: string };
+
+export function parseLeadQuery(query: Request["query"]): ParsedLeadQuery {
+  const sortBy = (query.sortBy as string | undefined) || "createdAt";
+  if (!LEAD_SORT_FIELDS.includes(sortBy as LeadSortField)) {
+    return { error: `sortBy must be one of ${LEAD_SORT_FIELDS.join(", ")}` };
+  }
+  const sortDir = (query.sortDir as string | undefined) || "desc";
+  if (sortDir !== "asc" && sortDir !== "desc") {
+    return { error: "sortDir must be asc or desc" };
+  }
+
+  let counselorId: number | null | undefined;
+  if (query.counselorId === "unassigned") {
+    counselorId = null;
+  } else if (query.counselorId && query.counselorId !== "all") {
+    counselorId = parseInt(query.counselorId as string);
+    if (isNaN(counselorId)) return { error: "Invalid counselorId" };
+  }
+
+  const createdFrom = parseDateParam(query.createdFrom);
+  const createdTo = parseDateParam(query.createdTo, true);
+  const updatedFrom = parseDateParam(query.updatedFrom);
+  const updatedTo = parseDateParam(query.updatedTo, true);
+  if ([createdFrom, createdTo, updatedFrom, updatedTo].includes(null)) {
+    return { error: "Invalid date filter" };
+  }
+
+  const tagIds = queryIdList(query.tag);
+  if (tagIds === null) return { error: "Invalid tag filter" };
+
+  // Custom field filters come as ?cf.<key>=value (same list syntax as the built-in filters)
+  const customFields: Record<string, string[]> = {};
+  for (const [param, value] of Object.entries(query)) {
+    if (!param.startsWith("cf.")) continue;
+    const key = param.slice(3);
+    if (!isCustomFieldKey(key)) return { error: `Invalid custom field filter: ${param}` };
+    const values = queryList(value);
+    if (values) customFields[key] = values;
+  }
+
+  // Without a page the whole filtered list comes back (the dashboards compute their KPIs from it)
+  const page = query.page !== undefined ? Math.max(1, parseInt(query.page as string) || 1) : undefined;
+  const pageSize = Math.min(MAX_LEAD_PAGE_SIZE, Math.max(1, parseInt(query.pageSize as string) || DEFAULT_LEAD_PAGE_SIZE));
+  const search = typeof query.search === "string" ? query.search.trim() : "";
+
+  return {
+    filters: {
+      counselorId,
+      stages: queryList(query.stage),
+      countries: queryList(query.country),
+      intakes: queryList(query.intake),
+      sources: queryList(query.source),
+      search: search || undefined,
+      customFields: Object.keys(customFields).length > 0 ? customFields : undefined,
+      tagIds,
+      createdFrom: createdFrom ?? undefined,
+      createdTo: createdTo ?? undefined,
+      updatedFrom: updatedFrom ?? undefined,
+      updatedTo: updatedTo ?? undefined,
+      archived: query.archived === "true" || undefined,
+      sortBy: sortBy as LeadSortField,
+      sortDir,
+      limit: page !== undefined ? pageSize : undefined,
+      offset: page !== undefined ? (page - 1) * pageSize : undefined
+    },
+    page,
+    pageSize
+  };
+}
+
+// Counselors only ever see their own leads and managers their teams' leads, whatever they ask for.
+// Only admins can list archived leads.
+export function leadScopeFor(user: NonNullable<Request["user"]>): Pick<LeadFilters, "managerId" | "counselorId"> {
+  if (user.role === "admin") return {};
+  if (user.role === "manager") return { managerId: user.id };
+  return { counselorId: user.id };
+}
+
+export function scopeLeadFilters(filters: LeadFilters, user: NonNullable<Request["user"]>): LeadFilters {
+  return { ...filters, ...leadScopeFor(user), archived: user.role === "admin" ? filters.archived : undefined };
+}
@@ -0,0 +1,103 @@
+// Brute-force protection for /api/auth/login.
+// Accounts: counters live on the users row so admins can see and clear lockouts.
+// IPs: counted in memory over a sliding window (per process; resets on restart).
+
+export const ACCOUNT_POLICY = {
+  freeAttempts: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+  maxFailures: 5,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+export const IP_POLICY = {
+  freeAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  maxFailures: 20,
+  lockoutMs: 15 * 60 * 1000,
+  windowMs: 15 * 60 * 1000,
+};
+
+type Policy = typeof ACCOUNT_POLICY;
+
+// Exponential wait between attempts once the free attempts are used up
+export function retryDelayMs(failures: number, policy: Policy): number {
+  if (failures <= policy.freeAttempts) return 0;
+  const delay = policy.baseDelayMs * 2 ** (failures - policy.freeAttempts - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+export interface ThrottleState {
+  failures: number;
+  lastFailureAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+// Returns how long the caller must wait before trying again (0 = allowed now)
+export function waitTimeMs(state: ThrottleState, policy: Policy, now = new Date()): number {
+  if (state.lockedUntil && state.lockedUntil > now) {
+    return state.lockedUntil.getTime() - now.getTime();
+  }
+  if (!state.lastFailureAt) return 0;
+  const allowedAt = state.lastFailureAt.getTime() + retryDelayMs(state.failures, policy);
+  return Math.max(0, allowedAt - now.getTime());
+}
+
+// Lock expiry is the moment failures >= maxFailures, otherwise null
+export function lockoutFor(failures: number, policy: Policy, now = new Date()): Date | null {
+  return failures >= policy.maxFailures ? new Date(now.getTime() + policy.lockoutMs) : null;
+}
+
+class IpAttemptTracker {
+  private attempts = new Map<string, ThrottleState>();
+
+  constructor() {
+    // Drop stale entries so the map can't grow without bound
+    setInterval(() => this.prune(), IP_POLICY.windowMs).unref();
+  }
+
+  private current(ip: string, now: Date): ThrottleState | undefined {
+    const state = this.attempts.get(ip);
+    if (!state) return undefined;
+    const lockExpired = !state.lockedUntil || state.lockedUntil <= now;
+    const windowExpired = !state.lastFailureAt || now.getTime() - state.lastFailureAt.getTime() > IP_POLICY.windowMs;
+    if (lockExpired && windowExpired) {
+      this.attempts.delete(ip);
+      return undefined;
+    }
+    return state;
+  }
+
+  waitTimeMs(ip: string, now = new Date()): number {
+    const state = this.current(ip, now);
+    return state ? waitTimeMs(state, IP_POLICY, now) : 0;
+  }
+
+  recordFailure(ip: string, now = new Date()) {
+    const state = this.current(ip, now);
+    // A finished lockout starts a fresh count
+    const failures = (state && !(state.lockedUntil && state.lockedUntil <= now) ? state.failures : 0) + 1;
+    this.attempts.set(ip, {
+      failures,
+      lastFailureAt: now,
+      lockedUntil: lockoutFor(failures, IP_POLICY, now),
+    });
+  }
+
+  private prune() {
+    const now = new Date();
+    for (const ip of Array.from(this.attempts.keys())) {
+      this.current(ip, now);
+    }
+  }
+}
+
+export const ipAttempts = new IpAttemptTracker();
+
+export function formatRetryAfter(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import net from "net";
+import os from "os";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Build Abroad CRM <no-reply@buildabroad.local>";
+
+function formatMessage(from: string, message: MailMessage): string {
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+  ].join("\r\n");
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return match ? match[1] : value.trim();
+}
+
+// Writes each message as an .eml file so local environments can read them without a mail server
+export class FileMailer implements Mailer {
+  constructor(private directory: string, private from = DEFAULT_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const fileName = `${Date.now()}-${safeRecipient}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), formatMessage(this.from, message), "utf-8");
+  }
+}
+
+// Minimal plain SMTP client for local catch-all servers (MailHog, Mailpit, smtp4dev).
+// No TLS or AUTH - put a real relay behind it for production delivery.
+export class SmtpMailer implements Mailer {
+  constructor(private host: string, private port: number, private from = DEFAULT_FROM) {}
+
+  send(message: MailMessage): Promise<void> {
+    const body = formatMessage(this.from, message)
+      // Dot-stuffing per RFC 5321 so a line starting with "." isn't read as end of data
+      .replace(/\r\n\./g, "\r\n..");
+
+    const commands = [
+      `HELO ${os.hostname()}`,
+      `MAIL FROM:<${extractAddress(this.from)}>`,
+      `RCPT TO:<${extractAddress(message.to)}>`,
+      "DATA",
+      `${body}\r\n.`,
+      "QUIT",
+    ];
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      let buffer = "";
+      let step = -1; // -1 waits for the server greeting
+
+      socket.setEncoding("utf-8");
+      socket.setTimeout(10000, () => socket.destroy(new Error("SMTP connection timed out")));
+      socket.on("error", reject);
+      socket.on("close", () => {
+        if (step < commands.length) reject(new Error("SMTP connection closed early"));
+      });
+
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        // Wait for a complete final reply line ("250 ..." rather than "250-...")
+        const lines = buffer.split("\r\n").filter(Boolean);
+        const last = lines[lines.length - 1];
+        if (!buffer.endsWith("\r\n") || !last || last[3] === "-") return;
+        buffer = "";
+
+        const code = parseInt(last.slice(0, 3));
+        if (code >= 400) {
+          socket.destroy();
+          return reject(new Error(`SMTP error: ${last}`));
+        }
+
+        step++;
+        if (step < commands.length) {
+          socket.write(`${commands[step]}\r\n`);
+        } else {
+          socket.end();
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+// MAIL_TRANSPORT=smtp uses SMTP_HOST/SMTP_PORT; anything else writes to MAIL_OUTBOX_DIR
+export function createMailer(): Mailer {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  if (process.env.MAIL_TRANSPORT === "smtp") {
+    return new SmtpMailer(
+      process.env.SMTP_HOST || "localhost",
+      parseInt(process.env.SMTP_PORT || "1025"),
+      from
+    );
+  }
+  return new FileMailer(process.env.MAIL_OUTBOX_DIR || "mail-outbox", from);
+}
+
+export const mailer = createMailer();
@@ -1,7 +1,78 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import Papa from "papaparse";
+import {
+  storage,
+  BULK_UPDATE_FIELDS,
+  LEAD_TIMELINE_EVENT_TYPES,
+  type BulkLeadAction,
+  type BulkUpdateField,
+  type LeadTimelineEvent,
+  type LeadTimelineEventType
+} from "./storage";
+import { requireLeadAccess, checkLeadAccess, checkLeadsAccess, denyLeadAccess } from "./access";
+import {
+  setupAuth,
+  requireAuth,
+  requireAuthForAccountSetup,
+  requireAdmin,
+  requireManager,
+  requireRole,
+  establishSession,
+  destroySession,
+  toAuthUser,
+  generateTemporaryPassword,
+  safeEqual,
+  hashToken,
+  generateResetToken,
+  hashLegacyPasswords,
+  isPasswordHashed,
+  establishPendingTwoFactor,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+  type AuthUser
+} from "./auth";
+import { verifyTotp, generateTotpSecret, buildOtpauthUrl } from "./totp";
+import { recordAudit } from "./audit";
+import { scanForDuplicates, queueDuplicateScan, getLastDuplicateScan, startDuplicateScanner } from "./duplicates";
+import {
+  rescoreLead,
+  rescoreLeads,
+  queueLeadRescore,
+  startLeadScorer,
+  effectiveScoringRules,
+  parseScoringRule,
+  SCORING_FACTOR_LABELS
+} from "./scoring";
+import { loadLeadAssigner, assignNewLead, parseAssignmentRule, ruleMatches, ASSIGNMENT_STRATEGY_LABELS, type LeadAssigner } from "./assignment";
+import { parseLeadQuery, scopeLeadFilters, leadScopeFor, parseDateParam, queryIdList, queryList, leadQueryFromString } from "./leadQuery";
+import { LEAD_EXPORT_FORMATS, leadExportColumns, selectExportColumns, leadExportRows, type LeadExportFormat } from "./leadExport";
+import { buildXlsx, type XlsxCell } from "./xlsx";
+import { applyCustomFieldValues, customFieldValuesFromRow, parseCustomFieldDefinition } from "./customFields";
+import {
+  encryptUniversityCredentials,
+  maskUniversityApplication,
+  revealUniversityCredentials,
+  encryptDocumentFields,
+  maskDocument,
+  revealDocumentCredentials,
+  isCredentialsDocument,
+  decryptSecret,
+  encryptLegacyCredentials
+} from "./credentials";
+import QRCode from "qrcode";
+import {
+  ACCOUNT_POLICY,
+  ipAttempts,
+  waitTimeMs,
+  lockoutFor,
+  formatRetryAfter
+} from "./loginThrottle";
+import { mailer } from "./mailer";
 import bcrypt from "bcryptjs";
+import { USER_ROLES, CLOSED_LEAD_STAGES, TAG_COLORS, SCORING_FACTORS, LEAD_CONTACT_RELATIONSHIPS, type ScoringFactor, type TagColor, type InsertUser, type User, type Team, type InsertCustomField } from "@shared/schema";
 import multer from "multer";
 import fs from "fs";
 import path from "path";
@@ -36,12 +107,326 @@ interface BatchSummary {
   };
 }
 
+// Checks a team name/manager pair; the manager must be an active user with the manager role
+async function validateTeamInput(
+  body: any,
+  teamId?: number
+): Promise<{ name: string; managerId: number | null } | { error: string }> {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (name.length < 2) {
+    return { error: "Team name must be at least 2 characters" };
+  }
+  const duplicate = (await storage.getAllTeams()).find(t => t.name.toLowerCase() === name.toLowerCase() && t.id !== teamId);
+  if (duplicate) {
+    return { error: "A team with this name already exists" };
+  }
+
+  const managerId = body.managerId ? parseInt(body.managerId) : null;
+  if (managerId !== null) {
+    const manager = await storage.getUser(managerId);
+    if (!manager || manager.role !== "manager" || !manager.isActive) {
+      return { error: "Team manager must be an active user with the manager role" };
+    }
+  }
+  return { name, managerId };
+}
+
+// Checks a tag name/colour; names are unique ignoring case. On update omitted fields are left alone.
+async function validateTagInput(
+  body: any,
+  tagId?: number
+): Promise<{ name?: string; color?: TagColor } | { error: string }> {
+  const result: { name?: string; color?: TagColor } = {};
+  if (body.name !== undefined || tagId === undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 40) {
+      return { error: "Tag name is required (up to 40 characters)" };
+    }
+    const duplicate = (await storage.getTags()).find(t => t.name.toLowerCase() === name.toLowerCase() && t.id !== tagId);
+    if (duplicate) {
+      return { error: "A tag with this name already exists" };
+    }
+    result.name = name;
+  }
+  if (body.color !== undefined) {
+    if (!TAG_COLORS.includes(body.color)) {
+      return { error: `color must be one of ${TAG_COLORS.join(", ")}` };
+    }
+    result.color = body.color;
+  }
+  return result;
+}
+
+// Tag ids from a request body; every id must belong to an existing tag
+async function resolveTagIds(value: unknown): Promise<number[] | null> {
+  if (!Array.isArray(value)) return null;
+  const ids = Array.from(new Set(value.map(v => Number(v))));
+  const known = new Set((await storage.getTags()).map(t => t.id));
+  return ids.every(id => known.has(id)) ? ids : null;
+}
+
+// Rule fields plus a check that every counselor on the rule exists and is active
+async function validateAssignmentRuleInput(body: any) {
+  const parsed = parseAssignmentRule(body);
+  if ("error" in parsed) return parsed;
+  const active = new Set((await storage.getAllCounselors()).filter(c => c.isActive).map(c => c.id));
+  if (parsed.rule.targets.some(t => !active.has(t.counselorId))) {
+    return { error: "Rules can only assign leads to active counselors" };
+  }
+  return parsed;
+}
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_TWO_FACTOR_FAILURES = 5; // per sign-in, then the password step starts over
+const TOTP_ISSUER = "Build Abroad CRM";
+
+// How many unassigned leads one preview (and so one apply) covers
+const ASSIGNMENT_PREVIEW_LIMIT = 500;
+
+// Saved view fields; the query has to be a valid lead list query and is stored without paging params
+function parseSavedViewInput(body: any): { view: { name: string; query: string; isShared: boolean } } | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > 60) {
+    return { error: "Name is required and can be at most 60 characters" };
+  }
+  if (typeof body.query !== "string") {
+    return { error: "query must be a lead list query string" };
+  }
+  const query = leadQueryFromString(body.query);
+  const parsed = parseLeadQuery(query);
+  if ("error" in parsed) {
+    return { error: parsed.error };
+  }
+  const normalized = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    (Array.isArray(value) ? value : [value]).forEach(v => normalized.append(key, String(v)));
+  }
+  return { view: { name, query: normalized.toString(), isShared: body.isShared === true } };
+}
+
+const MAX_HANDOVER_NOTE_LENGTH = 2000;
+
+// Credentials stored on applications and exam login documents stay masked in the timeline too
+function maskTimelineEvent(event: LeadTimelineEvent) {
+  if (event.type === "university_application") return { ...event, data: maskUniversityApplication(event.data) };
+  if (event.type === "document") return { ...event, data: maskDocument(event.data) };
+  return event;
+}
+
+// Contact fields for create and update; a contact needs a phone or an email to be reachable
+function parseLeadContactInput(body: any): {
+  contact: { name: string; relationship: string; phone: string | null; email: string | null; notes: string | null };
+} | { error: string } {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const name = text(body.name);
+  if (!name || name.length > 100) {
+    return { error: "Name is required and can be at most 100 characters" };
+  }
+  if (!LEAD_CONTACT_RELATIONSHIPS.includes(body.relationship)) {
+    return { error: `relationship must be one of ${LEAD_CONTACT_RELATIONSHIPS.join(", ")}` };
+  }
+  const phone = text(body.phone);
+  const email = text(body.email)?.toLowerCase() ?? null;
+  if (!phone && !email) {
+    return { error: "A contact needs a phone number or an email" };
+  }
+  if (phone && phone.replace(/\D/g, "").length < 7) {
+    return { error: "Phone number must have at least 7 digits" };
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { error: "Email is not valid" };
+  }
+  return { contact: { name, relationship: body.relationship, phone, email, notes: text(body.notes) } };
+}
+
+// XLSX exports are built in memory, so unlike CSV they are capped
+const MAX_XLSX_EXPORT_ROWS = 50000;
+
+// Most leads one bulk action may change, whether selected one by one or matched by a filter
+const MAX_BULK_LEADS = 1000;
+
+const BULK_AUDIT_ACTIONS: Record<BulkLeadAction["type"], string> = {
+  assign: "assign",
+  stage: "change_stage",
+  update: "update",
+  archive: "archive"
+};
+
+// The action half of a bulk request; which roles may run which action is checked by the route
+function parseBulkLeadAction(body: any): { action: BulkLeadAction } | { error: string } {
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  switch (body.action) {
+    case "assign": {
+      const counselorId = Number(body.counselorId);
+      return Number.isInteger(counselorId) ? { action: { type: "assign", counselorId } } : { error: "counselorId is required" };
+    }
+    case "stage": {
+      const stage = typeof body.stage === "string" ? body.stage.trim() : "";
+      if (!stage || !reason) {
+        return { error: "A stage and a reason are required" };
+      }
+      return { action: { type: "stage", stage, reason } };
+    }
+    case "update": {
+      const input = body.fields && typeof body.fields === "object" ? body.fields : {};
+      const fields: Partial<Record<BulkUpdateField, string | null>> = {};
+      for (const [field, value] of Object.entries(input)) {
+        if (!BULK_UPDATE_FIELDS.includes(field as BulkUpdateField)) {
+          return { error: `Only these fields can be bulk updated: ${BULK_UPDATE_FIELDS.join(", ")}` };
+        }
+        if (value !== null && typeof value !== "string") {
+          return { error: `${field} must be text or null` };
+        }
+        fields[field as BulkUpdateField] = value?.trim() || null;
+      }
+      return Object.keys(fields).length > 0 ? { action: { type: "update", fields } } : { error: "Choose at least one field to update" };
+    }
+    case "archive":
+      return reason ? { action: { type: "archive", reason } } : { error: "A reason is required to archive leads" };
+    default:
+      return { error: "action must be one of: assign, stage, update, archive" };
+  }
+}
+
+async function isTeamCounselor(managerId: number, counselorId: number): Promise<boolean> {
+  return (await storage.getTeamCounselors(managerId)).some(c => c.id === counselorId && c.isActive);
+}
+
+// Leads can only go to an active counselor, and a manager can only pick one from their team
+async function checkAssignableCounselor(
+  user: AuthUser,
+  value: unknown
+): Promise<{ counselorId: number } | { status: 400 | 403; error: string }> {
+  const counselorId = Number(value);
+  if (!Number.isInteger(counselorId) || !(await storage.getAllCounselors()).some(c => c.id === counselorId && c.isActive)) {
+    return { status: 400, error: "Choose an active counselor" };
+  }
+  if (user.role === "manager" && !(await isTeamCounselor(user.id, counselorId))) {
+    return { status: 403, error: "Managers can only assign leads within their team" };
+  }
+  return { counselorId };
+}
+
+// Handles POST /api/leads/bulk and its older assign-only form, POST /api/leads/assign-bulk
+async function runBulkLeadAction(req: Request, res: Response) {
+  try {
+    const parsedAction = parseBulkLeadAction(req.body);
+    if ("error" in parsedAction) {
+      return res.status(400).json({ error: parsedAction.error });
+    }
+    const { action } = parsedAction;
+    if (action.type === "archive" && req.user!.role !== "admin") {
+      return res.status(403).json({ error: "Only admins can archive leads" });
+    }
+    if (action.type === "assign") {
+      const assignable = await checkAssignableCounselor(req.user!, action.counselorId);
+      if ("error" in assignable) {
+        return res.status(assignable.status).json({ error: assignable.error });
+      }
+    }
+
+    let leadIds: number[];
+    if (req.body.leadIds !== undefined) {
+      leadIds = Array.isArray(req.body.leadIds) ? Array.from(new Set(req.body.leadIds.map((id: unknown) => Number(id)))) as number[] : [];
+      if (leadIds.length === 0 || leadIds.some(id => !Number.isInteger(id))) {
+        return res.status(400).json({ error: "leadIds must be a non-empty list of lead ids" });
+      }
+      if (leadIds.length > MAX_BULK_LEADS) {
+        return res.status(400).json({ error: `Bulk actions are limited to ${MAX_BULK_LEADS} leads at a time` });
+      }
+      for (const leadId of leadIds) {
+        const access = await checkLeadAccess(req.user!, leadId);
+        if (access === "not_found") {
+          return res.status(404).json({ error: `Lead ${leadId} not found` });
+        }
+        if (access !== "ok") {
+          return denyLeadAccess(res);
+        }
+      }
+    } else {
+      let query = req.body.query;
+      if (req.body.viewId !== undefined) {
+        const view = await storage.getSavedView(Number(req.body.viewId));
+        if (!view || (view.ownerId !== req.user!.id && !view.isShared)) {
+          return res.status(404).json({ error: "Saved view not found" });
+        }
+        query = view.query;
+      }
+      if (typeof query !== "string") {
+        return res.status(400).json({ error: "Send leadIds, viewId or query" });
+      }
+      const parsed = parseLeadQuery(leadQueryFromString(query));
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      // The caller's scope applies, so a filter never reaches leads they could not select by hand
+      const { leads: matched, total } = await storage.getLeads({
+        ...scopeLeadFilters(parsed.filters, req.user!),
+        limit: MAX_BULK_LEADS,
+        offset: 0
+      });
+      if (total > MAX_BULK_LEADS) {
+        return res.status(400).json({ error: `These filters match ${total} leads; bulk actions are limited to ${MAX_BULK_LEADS}` });
+      }
+      if (matched.length === 0) {
+        return res.status(400).json({ error: "No leads match these filters" });
+      }
+      leadIds = matched.map(l => l.id);
+    }
+
+    const results = await storage.applyBulkLeadAction(leadIds, action, req.user!.id);
+    const updated = results.filter(r => r.status === "updated");
+    if (action.type !== "archive" && updated.length > 0) {
+      queueLeadRescore(updated.map(r => r.leadId));
+    }
+    const reason = action.type === "stage" || action.type === "archive" ? { reason: action.reason } : {};
+    for (const result of updated) {
+      await recordAudit(req, {
+        action: BULK_AUDIT_ACTIONS[action.type],
+        entityType: "lead",
+        entityId: result.leadId,
+        before: result.before,
+        after: result.after,
+        details: { bulk: true, batchSize: results.length, ...reason }
+      });
+    }
+
+    res.json({
+      action: action.type,
+      total: results.length,
+      updated: updated.length,
+      unchanged: results.length - updated.length,
+      results: results.map(r => ({ leadId: r.leadId, name: r.after.name, status: r.status }))
+    });
+  } catch (error) {
+    console.error("Bulk lead action error:", error);
+    res.status(500).json({ error: "Bulk action failed; no leads were changed" });
+  }
+}
+
+// Counts only; the per-row validation log is returned to the caller, not stored
+function importAuditDetails(summary: BatchSummary) {
+  return {
+    totalRows: summary.totalRows,
+    imported: summary.imported,
+    importedWithIssues: summary.importedWithIssues,
+    failed: summary.failed
+  };
+}
+
+// A lead's manager is the manager of its counselor's team
+function teamManagersByCounselor(users: User[], teams: Team[]): Map<number, number | null> {
+  const teamManagers = new Map(teams.map(t => [t.id, t.managerId]));
+  return new Map(users.map(u => [u.id, u.teamId ? teamManagers.get(u.teamId) ?? null : null]));
+}
+
 // Enhanced bulk import processor with resilient validation
 async function processBulkLeadImport(
   rawLeads: any[], 
   dryRun: boolean, 
   chunkSize: number, 
-  storage: any
+  storage: any,
+  importedBy: number
 ): Promise<{
   success: boolean;
   batchSummary: BatchSummary;
@@ -61,19 +446,19 @@ async function processBulkLeadImport(
   let successfulChunks = 0;
   let failedChunks = 0;
 
-  // Get manager and counselors once for the entire batch
-  let managerId: number | null = null;
+  // Get counselors and their team managers once for the entire batch
+  let managersByCounselor = new Map<number, number | null>();
   let counselors: any[] = [];
-  let defaultCounselor: any = null;
+  let assigner: LeadAssigner | null = null;
+  const customFieldDefinitions = await storage.getCustomFields();
 
   try {
     const users = await storage.getAllUsers();
-    const manager = users.find((u: any) => u.name.toLowerCase().includes('anupriya') || u.role === 'admin');
-    managerId = manager?.id || null;
-    counselors = users.filter((u: any) => u.role === 'counselor');
-    defaultCounselor = counselors.find((c: any) => c.name.toLowerCase().includes('likitha'));
+    managersByCounselor = teamManagersByCounselor(users, await storage.getAllTeams());
+    counselors = users.filter((u: any) => u.role === 'counselor' && u.isActive);
+    assigner = await loadLeadAssigner();
   } catch (error) {
-    console.log("Could not fetch users, proceeding with defaults");
+    console.log("Could not fetch users or assignment rules, proceeding with defaults");
   }
 
   // Process in chunks
@@ -102,7 +487,11 @@ async function processBulkLeadImport(
 
         try {
           const normalized = await normalizeAndValidateLead(rawLead, log, fieldIssues);
-          const businessLogicResult = await applyBusinessLogic(normalized, counselors, defaultCounselor, managerId);
+          const businessLogicResult = await applyBusinessLogic(normalized, counselors, assigner, managersByCounselor);
+          // Extra CSV columns named after a custom field; the upload route passes the flat row
+          const custom = customFieldValuesFromRow(customFieldDefinitions, rawLead.customFields ?? rawLead);
+          custom.issues.forEach(issue => log.warnings.push(`${issue} - value skipped`));
+          normalized.customFields = custom.values;
           
           log.normalizedData = { ...normalized, ...businessLogicResult };
 
@@ -119,18 +508,20 @@ async function processBulkLeadImport(
               source: normalized.source,
               currentStage: businessLogicResult.currentStage,
               counselorId: businessLogicResult.counselorId,
-              managerId: managerId,
+              managerId: businessLogicResult.managerId,
               prevConsultancy: null,
               passportStatus: normalized.passportStatus,
               remarks: null,
-              counsellors: normalized.counsellors
+              counsellors: normalized.counsellors,
+              preferredLanguage: normalized.preferredLanguage,
+              customFields: normalized.customFields
             });
 
             // Create remarks if present
             if (normalized.remarks && normalized.remarks.trim()) {
               await storage.createRemark({
                 leadId: newLead.id,
-                userId: businessLogicResult.counselorId || managerId || 1,
+                userId: businessLogicResult.counselorId || importedBy,
                 content: `Bulk Import: ${normalized.remarks.trim()}`,
                 isVisible: true
               });
@@ -142,7 +533,7 @@ async function processBulkLeadImport(
                 leadId: newLead.id,
                 fromStage: null,
                 toStage: businessLogicResult.currentStage,
-                userId: businessLogicResult.counselorId || managerId || 1,
+                userId: businessLogicResult.counselorId || importedBy,
                 reason: `Bulk import - ${businessLogicResult.counselorId ? 'Assigned to counselor' : 'Unassigned'}`,
                 createdAt: normalized.leadCreatedDate || new Date()
               });
@@ -186,6 +577,11 @@ async function processBulkLeadImport(
     }
   }
 
+  // A dry run only previews assignments, so the rules' round robin tallies stay as they were
+  if (!dryRun && assigner) {
+    await assigner.commit();
+  }
+
   const endTime = Date.now();
   
   const batchSummary: BatchSummary = {
@@ -321,6 +717,7 @@ async function normalizeAndValidateLead(rawLead: any, log: ValidationLog, fieldI
   normalized.passportStatus = rawLead.passportStatus && rawLead.passportStatus.trim() ? rawLead.passportStatus.trim() : null;
   normalized.remarks = rawLead.remarks && rawLead.remarks.trim() ? rawLead.remarks.trim() : null;
   normalized.counsellors = rawLead.counsellors && rawLead.counsellors.trim() ? rawLead.counsellors.trim() : null;
+  normalized.preferredLanguage = rawLead.preferredLanguage && rawLead.preferredLanguage.trim() ? rawLead.preferredLanguage.trim() : null;
 
   return normalized;
 }
@@ -342,8 +739,9 @@ function determineOptimalStage(counselorId: number | null, requestedStage?: stri
 }
 
 // Business logic application (counselor assignment, stage calculation)
-async function applyBusinessLogic(normalized: any, counselors: any[], defaultCounselor: any, managerId: number | null): Promise<any> {
+async function applyBusinessLogic(normalized: any, counselors: any[], assigner: LeadAssigner | null, managersByCounselor: Map<number, number | null>): Promise<any> {
   let assignedCounselorId = null;
+  let assignmentRule: string | null = null;
   
   if (normalized.counsellors && normalized.counsellors.trim()) {
     const counselorName = normalized.counsellors.trim().toLowerCase();
@@ -354,8 +752,15 @@ async function applyBusinessLogic(normalized: any, counselors: any[], defaultCou
     
     if (matchedCounselor) {
       assignedCounselorId = matchedCounselor.id;
-    } else if (defaultCounselor) {
-      assignedCounselorId = defaultCounselor.id;
+    }
+  }
+
+  // No counselor named (or the name matched nobody): the assignment rules decide
+  if (!assignedCounselorId && assigner) {
+    const decision = assigner.assign(normalized);
+    if (decision) {
+      assignedCounselorId = decision.counselorId;
+      assignmentRule = decision.ruleName;
     }
   }
 
@@ -364,7 +769,9 @@ async function applyBusinessLogic(normalized: any, counselors: any[], defaultCou
 
   return {
     counselorId: assignedCounselorId,
-    currentStage: optimalStage
+    managerId: assignedCounselorId ? managersByCounselor.get(assignedCounselorId) ?? null : null,
+    currentStage: optimalStage,
+    assignmentRule
   };
 }
 
@@ -541,9 +948,74 @@ const upload = multer({
   }
 });
 
+// Counts a failed password or second-factor attempt against the account, locking it at the limit
+async function recordAccountFailure(userId: number): Promise<void> {
+  const updated = await storage.recordFailedLogin(userId);
+  const lockedUntil = lockoutFor(updated.failedLoginAttempts, ACCOUNT_POLICY);
+  if (lockedUntil) {
+    await storage.updateUser(userId, { lockedUntil });
+    console.warn(`Account ${userId} locked until ${lockedUntil.toISOString()} after ${updated.failedLoginAttempts} failed logins`);
+  }
+}
+
+// Spreads leads over counselors, always giving the next lead to whoever currently has the fewest open leads
+function proposeLeastLoadedAssignments(
+  leadIds: number[],
+  counselorLoads: { counselorId: number; openLeads: number }[]
+): { leadId: number; counselorId: number }[] {
+  if (counselorLoads.length === 0) return [];
+  const loads = counselorLoads.map(c => ({ ...c }));
+  return leadIds.map(leadId => {
+    const target = loads.reduce((min, c) => (c.openLeads < min.openLeads ? c : min), loads[0]);
+    target.openLeads++;
+    return { leadId, counselorId: target.counselorId };
+  });
+}
+
+// Active counselors (other than excludeUserId) with their current open lead counts
+async function getActiveCounselorLoads(excludeUserId?: number) {
+  const [counselors, counts] = await Promise.all([
+    storage.getAllCounselors(),
+    storage.getOpenLeadCountsByCounselor()
+  ]);
+  const countMap = new Map(counts.map(c => [c.counselorId, c.openLeads]));
+  return counselors
+    .filter(c => c.isActive && c.id !== excludeUserId)
+    .map(c => ({ counselorId: c.id, name: c.name, openLeads: countMap.get(c.id) ?? 0 }));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
+  try {
+    const hashed = await hashLegacyPasswords();
+    if (hashed > 0) {
+      console.log(`Hashed ${hashed} legacy plaintext password(s); affected users must change password at next login`);
+    }
+  } catch (error) {
+    console.error("Legacy password hashing failed:", error);
+  }
+
+  try {
+    await storage.enableSearchExtensions();
+  } catch (error) {
+    console.error("Enabling search extensions failed:", error);
+  }
+
+  startDuplicateScanner();
+  startLeadScorer();
+
+  try {
+    const encrypted = await encryptLegacyCredentials();
+    if (encrypted > 0) {
+      console.log(`Encrypted ${encrypted} stored portal credential record(s)`);
+    }
+  } catch (error) {
+    console.error("Legacy credential encryption failed:", error);
+  }
+
   // Test endpoint to check authentication setup
-  app.get("/api/auth/test", async (req, res) => {
+  app.get("/api/auth/test", requireAdmin, async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       const testResults = users.map(user => ({
@@ -560,152 +1032,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin utility to ensure all passwords are properly hashed
-  app.post("/api/auth/hash-passwords", async (req, res) => {
+  // One-time bootstrap: creates the first admin with a generated password and hashes any
+  // legacy plaintext passwords. Open only while no active admin exists; afterwards it
+  // requires the SETUP_TOKEN environment variable. Every run is recorded in setup_runs.
+  app.get("/api/setup/status", async (req, res) => {
     try {
-      const { adminKey } = req.body;
-      
-      // Simple admin check - only allow if specific key is provided
-      if (adminKey !== "HASH_ADMIN_PASSWORDS_2025") {
-        return res.status(403).json({ error: "Unauthorized" });
-      }
-
-      const users = await storage.getAllUsers();
-      const updates = [];
-
-      for (const user of users) {
-        // Only hash plain text passwords
-        if (!user.password.startsWith('$2b$') && !user.password.startsWith('$2a$')) {
-          const hashedPassword = await bcrypt.hash(user.password, 10);
-          await storage.updateUser(user.id, { password: hashedPassword });
-          updates.push({ id: user.id, name: user.name, email: user.email, status: 'hashed' });
-        } else {
-          updates.push({ id: user.id, name: user.name, email: user.email, status: 'already_hashed' });
-        }
-      }
-
-      res.json({ message: "Password hashing completed", updates });
+      const hasAdmin = await storage.hasActiveAdmin();
+      res.json({
+        bootstrapAvailable: !hasAdmin || !!process.env.SETUP_TOKEN,
+        setupTokenRequired: hasAdmin,
+      });
     } catch (error) {
-      console.error("Password hashing error:", error);
+      console.error("Setup status error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Production data seeding endpoint to create necessary users
-  app.post("/api/auth/seed-users", async (req, res) => {
+  app.post("/api/setup/bootstrap", async (req, res) => {
     try {
-      const { adminKey } = req.body;
-      
-      // Simple admin check - only allow if specific key is provided
-      if (adminKey !== "SEED_PRODUCTION_USERS_2025") {
-        return res.status(403).json({ error: "Unauthorized" });
+      const { name, email, setupToken } = req.body;
+
+      const expectedToken = process.env.SETUP_TOKEN;
+      const tokenAccepted = !!expectedToken && typeof setupToken === "string" && safeEqual(setupToken, expectedToken);
+      if (!tokenAccepted && await storage.hasActiveAdmin()) {
+        return res.status(403).json({ error: "Setup has already been completed" });
       }
 
-      // Define essential users that should exist in production
-      const essentialUsers = [
-        {
-          name: "Admin User",
-          email: "gundluru.mahammadwahab@nxtwave.co.in",
-          password: "Nxtwave@1234", // Plain text for demo
-          role: "admin",
-          phone: null,
-          isActive: true
-        },
+      if (!name || !email) {
+        return res.status(400).json({ error: "Admin name and email are required" });
+      }
+
+      const normalizedEmail = String(email).trim().toLowerCase();
+      if (await storage.getUserByEmail(normalizedEmail)) {
+        return res.status(409).json({ error: "A user with this email already exists" });
+      }
+
+      const hashedPasswordCount = await hashLegacyPasswords();
+
+      const temporaryPassword = generateTemporaryPassword();
+      // The admin check is repeated under a lock, so two requests on a fresh install can't both win
+      const result = await storage.bootstrapAdmin(
         {
-          name: "Anupriya",
-          email: "angupriya.bharaththangam@nxtwave.co.in",
-          password: await bcrypt.hash("Nxtwave@1234", 10), // Consistent password
+          name: String(name).trim(),
+          email: normalizedEmail,
+          password: await bcrypt.hash(temporaryPassword, 10),
           role: "admin",
-          phone: null,
-          isActive: true
-        },
-        {
-          name: "Likitha",
-          email: "likhitha.nyasala@nxtwave.co.in", 
-          password: await bcrypt.hash("Nxtwave@1234", 10),
-          role: "counselor",
-          phone: null,
-          isActive: true
-        },
-        {
-          name: "BASHIR SHAIK",
-          email: "bashir.shaik@nxtwave.co.in",
-          password: await bcrypt.hash("Nxtwave@1234", 10),
-          role: "counselor", 
-          phone: null,
-          isActive: true
-        },
-        {
-          name: "Sanjana",
-          email: "madishetti.sanjana@nxtwave.tech",
-          password: await bcrypt.hash("Nxtwave@1234", 10),
-          role: "counselor",
-          phone: null,
-          isActive: true
+          isActive: true,
+          mustChangePassword: true
         },
         {
-          name: "Varsha", 
-          email: "keesari.varsha@nxtwave.tech",
-          password: await bcrypt.hash("Nxtwave@1234", 10),
-          role: "counselor",
-          phone: null,
-          isActive: true
+          hashedPasswordCount,
+          ipAddress: req.ip || null,
+          userAgent: req.get("user-agent") || null
         },
-        {
-          name: "Priyanka",
-          email: "tiruveedula.priyanka@nxtwave.tech",
-          password: await bcrypt.hash("Nxtwave@1234", 10),
-          role: "counselor",
-          phone: null,
-          isActive: true
-        }
-      ];
-
-      const results = [];
-      
-      for (const userData of essentialUsers) {
-        try {
-          // Check if user already exists
-          const existingUser = await storage.getUserByEmail(userData.email);
-          
-          if (existingUser) {
-            results.push({ 
-              email: userData.email, 
-              name: userData.name,
-              status: 'already_exists',
-              id: existingUser.id 
-            });
-          } else {
-            // Create new user
-            const newUser = await storage.createUser({
-              ...userData,
-              createdAt: new Date(),
-              updatedAt: new Date()
-            });
-            results.push({ 
-              email: userData.email, 
-              name: userData.name,
-              status: 'created',
-              id: newUser.id 
-            });
-          }
-        } catch (error) {
-          results.push({ 
-            email: userData.email, 
-            name: userData.name,
-            status: 'failed',
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
+        tokenAccepted
+      );
+      if ("error" in result) {
+        return result.error === "email_taken"
+          ? res.status(409).json({ error: "A user with this email already exists" })
+          : res.status(403).json({ error: "Setup has already been completed" });
       }
+      const { admin, method } = result;
+      await recordAudit(req, {
+        action: "bootstrap",
+        entityType: "user",
+        entityId: admin.id,
+        before: null,
+        after: admin,
+        details: { method, hashedPasswordCount }
+      });
 
-      res.json({ 
-        message: "User seeding completed", 
-        results,
-        note: "All users have password: Nxtwave@1234"
+      res.json({
+        message: "Setup completed",
+        admin: { id: admin.id, name: admin.name, email: admin.email },
+        // Shown exactly once; the admin must replace it on first login
+        temporaryPassword,
+        hashedPasswordCount
       });
     } catch (error) {
-      console.error("User seeding error:", error);
+      console.error("Bootstrap error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/setup/runs", requireAdmin, async (req, res) => {
+    try {
+      const runs = await storage.getSetupRuns();
+      res.json(runs);
+    } catch (error) {
+      console.error("Get setup runs error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
@@ -715,161 +1130,1379 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { email, password } = req.body;
       
-      console.log("Login attempt for email:", email, "in environment:", process.env.NODE_ENV || 'development');
-      
       if (!email || !password) {
         return res.status(400).json({ error: "Email and password required" });
       }
 
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        console.log("User not found for email:", email);
-        return res.status(401).json({ error: "Invalid credentials" });
+      const ip = req.ip || "unknown";
+      const ipWait = ipAttempts.waitTimeMs(ip);
+      if (ipWait > 0) {
+        res.set("Retry-After", Math.ceil(ipWait / 1000).toString());
+        return res.status(429).json({
+          error: `Too many login attempts. Try again in ${formatRetryAfter(ipWait)}.`,
+          retryAfterSeconds: Math.ceil(ipWait / 1000)
+        });
       }
 
-      console.log("User found:", user.name, "Password type:", user.password.startsWith('$2b$') ? 'hashed' : 'plain');
+      let user = await storage.getUserByEmail(email);
 
-      // Handle both plain text and hashed passwords for flexibility
-      let isValid = false;
-      
-      try {
-        // First try bcrypt comparison for hashed passwords
-        if (user.password.startsWith('$2b$') || user.password.startsWith('$2a$')) {
-          console.log("Attempting bcrypt comparison...");
-          isValid = await bcrypt.compare(password, user.password);
-          console.log("Bcrypt comparison result:", isValid);
-        } else {
-          // Fallback to plain text comparison for demo accounts
-          console.log("Attempting plain text comparison...");
-          isValid = password === user.password;
-          console.log("Plain text comparison result:", isValid);
+      if (user) {
+        const now = new Date();
+        // An expired lockout starts the account from a clean slate
+        if (user.lockedUntil && user.lockedUntil <= now) {
+          await storage.resetLoginAttempts(user.id);
+          user = { ...user, failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null };
+        }
+
+        const accountWait = waitTimeMs({
+          failures: user.failedLoginAttempts,
+          lastFailureAt: user.lastFailedLoginAt,
+          lockedUntil: user.lockedUntil
+        }, ACCOUNT_POLICY, now);
+        if (accountWait > 0) {
+          res.set("Retry-After", Math.ceil(accountWait / 1000).toString());
+          const locked = !!user.lockedUntil;
+          return res.status(locked ? 423 : 429).json({
+            error: locked
+              ? `Account temporarily locked after repeated failed logins. Try again in ${formatRetryAfter(accountWait)} or ask an administrator to unlock it.`
+              : `Too many login attempts. Try again in ${formatRetryAfter(accountWait)}.`,
+            retryAfterSeconds: Math.ceil(accountWait / 1000)
+          });
         }
-      } catch (error) {
-        console.error("Password comparison error:", error);
-        // If bcrypt fails, try plain text comparison as fallback
-        console.log("Bcrypt failed, trying plain text fallback...");
-        isValid = password === user.password;
-        console.log("Fallback comparison result:", isValid);
       }
+
+      // Plaintext passwords are hashed at startup, so only bcrypt hashes are accepted here
+      const isValid = !!user && isPasswordHashed(user.password) && await bcrypt.compare(password, user.password);
       
-      if (!isValid) {
-        console.log("Authentication failed for user:", email);
+      if (!user || !isValid) {
+        ipAttempts.recordFailure(ip);
+        if (user) {
+          await recordAccountFailure(user.id);
+        }
+        await recordAudit(req, { action: "login_failed", entityType: "user", entityId: user?.id, actorId: null, details: { email } });
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
-      console.log("Authentication successful for user:", email);
-      // Return user without password
-      const { password: _, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
+      if (!user.isActive) {
+        return res.status(403).json({ error: "Account is deactivated" });
+      }
+
+      if (user.totpEnabled) {
+        // Attempt counters are only cleared once the second factor succeeds
+        await establishPendingTwoFactor(req, user.id);
+        return res.json({ twoFactorRequired: true });
+      }
+
+      if (user.failedLoginAttempts > 0) {
+        await storage.resetLoginAttempts(user.id);
+      }
+
+      await establishSession(req, user.id);
+      await recordAudit(req, { action: "login", entityType: "user", entityId: user.id, actorId: user.id });
+      res.json({ user: toAuthUser(user) });
     } catch (error) {
       console.error("Login error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // User routes
-  app.get("/api/users", async (req, res) => {
+  // Second login step for accounts with TOTP enabled: accepts an authenticator code or a recovery code
+  app.post("/api/auth/login/two-factor", async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users.map(u => ({ 
-        id: u.id, 
-        name: u.name, 
-        email: u.email, 
-        role: u.role,
-        phone: u.phone,
-        isActive: u.isActive,
-        createdAt: u.createdAt
-      })));
+      const { code, recoveryCode } = req.body;
+      const userId = req.session.pendingTwoFactorUserId;
+      if (!userId) {
+        return res.status(401).json({ error: "Your sign-in has expired. Please sign in again." });
+      }
+      if (!code && !recoveryCode) {
+        return res.status(400).json({ error: "Authentication code required" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user || !user.isActive || !user.totpEnabled || !user.totpSecret) {
+        await destroySession(req);
+        return res.status(401).json({ error: "Your sign-in has expired. Please sign in again." });
+      }
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        await destroySession(req);
+        return res.status(423).json({ error: "Account temporarily locked after repeated failed logins." });
+      }
+
+      let isValid = false;
+      if (code) {
+        const step = verifyTotp(user.totpSecret, String(code));
+        // A code can only be used once, even within its 30 second window
+        isValid = step !== null && await storage.consumeTotpStep(user.id, step);
+      } else {
+        isValid = await storage.consumeRecoveryCode(user.id, hashToken(normalizeRecoveryCode(String(recoveryCode))));
+      }
+
+      if (!isValid) {
+        ipAttempts.recordFailure(req.ip || "unknown");
+        await recordAccountFailure(user.id);
+        await recordAudit(req, {
+          action: "login_failed",
+          entityType: "user",
+          entityId: user.id,
+          actorId: null,
+          details: { step: "two_factor", method: code ? "totp" : "recovery_code" }
+        });
+        const failures = (req.session.pendingTwoFactorFailures || 0) + 1;
+        if (failures >= MAX_TWO_FACTOR_FAILURES) {
+          await destroySession(req);
+          return res.status(401).json({ error: "Too many invalid codes. Please sign in again." });
+        }
+        req.session.pendingTwoFactorFailures = failures;
+        return res.status(401).json({ error: "Invalid authentication code" });
+      }
+
+      if (user.failedLoginAttempts > 0) {
+        await storage.resetLoginAttempts(user.id);
+      }
+
+      await establishSession(req, user.id);
+      await recordAudit(req, {
+        action: "login",
+        entityType: "user",
+        entityId: user.id,
+        actorId: user.id,
+        details: { method: code ? "totp" : "recovery_code" }
+      });
+      res.json({ user: toAuthUser(user) });
     } catch (error) {
-      console.error("Get users error:", error);
+      console.error("Two-factor login error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/users/counselors", async (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
     try {
-      const counselors = await storage.getAllCounselors();
-      res.json(counselors.map(c => ({ id: c.id, name: c.name, email: c.email })));
+      const userId = req.session.userId;
+      if (userId) {
+        await recordAudit(req, { action: "logout", entityType: "user", entityId: userId, actorId: userId });
+      }
+      await destroySession(req);
+      res.clearCookie("crm.sid");
+      res.json({ success: true });
     } catch (error) {
-      console.error("Get counselors error:", error);
+      console.error("Logout error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  app.get("/api/auth/me", requireAuthForAccountSetup, (req, res) => {
+    res.json({ user: req.user });
+  });
+
+  app.post("/api/auth/change-password", requireAuthForAccountSetup, async (req, res) => {
     try {
-      const userData = req.body;
-      // Hash password if provided
-      if (userData.password) {
-        userData.password = await bcrypt.hash(userData.password, 10);
+      const { currentPassword, newPassword } = req.body;
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ error: "Current and new password required" });
+      }
+      if (typeof newPassword !== "string" || newPassword.length < 8) {
+        return res.status(400).json({ error: "New password must be at least 8 characters" });
+      }
+      if (newPassword === currentPassword) {
+        return res.status(400).json({ error: "New password must be different from the current one" });
       }
-      const user = await storage.createUser(userData);
-      const { password: _, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(401).json({ error: "Current password is incorrect" });
+      }
+
+      const updated = await storage.updateUser(user.id, {
+        password: await bcrypt.hash(newPassword, 10),
+        mustChangePassword: false,
+        updatedAt: new Date()
+      });
+      await recordAudit(req, { action: "change_password", entityType: "user", entityId: user.id, before: user, after: updated });
+      res.json({ user: toAuthUser(updated) });
     } catch (error) {
-      console.error("Create user error:", error);
+      console.error("Change password error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Lead routes
-  app.get("/api/leads", async (req, res) => {
+  // Two-factor enrollment: setup issues a secret (kept in the session), enable confirms it with a code
+  app.post("/api/auth/two-factor/setup", requireAuthForAccountSetup, async (req, res) => {
     try {
-      const { stage, counselorId } = req.query;
-      
-      let leads;
-      if (stage && stage !== "all") {
-        leads = await storage.getLeadsByStage(stage as string);
-      } else if (counselorId) {
-        leads = await storage.getLeadsByCounselor(parseInt(counselorId as string));
-      } else {
-        leads = await storage.getAllLeads();
+      if (req.user!.totpEnabled) {
+        return res.status(400).json({ error: "Two-factor authentication is already enabled" });
       }
-      
-      res.json(leads);
+
+      const secret = generateTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      const otpauthUrl = buildOtpauthUrl(TOTP_ISSUER, req.user!.email, secret);
+      const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+      res.json({ secret, otpauthUrl, qrCodeDataUrl });
     } catch (error) {
-      console.error("Get leads error:", error);
+      console.error("Two-factor setup error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/leads/:id", async (req, res) => {
+  app.post("/api/auth/two-factor/enable", requireAuthForAccountSetup, async (req, res) => {
     try {
-      const lead = await storage.getLead(parseInt(req.params.id));
-      if (!lead) {
-        return res.status(404).json({ error: "Lead not found" });
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(400).json({ error: "Start two-factor setup first" });
       }
-      res.json(lead);
+
+      const step = verifyTotp(secret, String(req.body.code || ""));
+      if (step === null) {
+        return res.status(400).json({ error: "Invalid authentication code" });
+      }
+
+      const codes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user!.id, codes.map(c => hashToken(normalizeRecoveryCode(c))));
+      const updated = await storage.updateUser(req.user!.id, {
+        totpSecret: secret,
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        updatedAt: new Date()
+      });
+      delete req.session.pendingTotpSecret;
+      await recordAudit(req, { action: "enable_two_factor", entityType: "user", entityId: updated.id, before: req.user, after: updated });
+
+      // Recovery codes are only ever shown here
+      res.json({ user: toAuthUser(updated), recoveryCodes: codes });
     } catch (error) {
-      console.error("Get lead error:", error);
+      console.error("Two-factor enable error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/leads", async (req, res) => {
+  app.post("/api/auth/two-factor/disable", requireAuth, async (req, res) => {
     try {
-      const lead = await storage.createLead(req.body);
-      res.json(lead);
+      if (req.user!.totpRequired) {
+        return res.status(403).json({ error: "An administrator requires two-factor authentication for your account" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !req.body.password || !(await bcrypt.compare(String(req.body.password), user.password))) {
+        return res.status(401).json({ error: "Password is incorrect" });
+      }
+
+      await storage.deleteRecoveryCodes(user.id);
+      const updated = await storage.updateUser(user.id, {
+        totpSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+        updatedAt: new Date()
+      });
+      await recordAudit(req, { action: "disable_two_factor", entityType: "user", entityId: user.id, before: user, after: updated });
+      res.json({ user: toAuthUser(updated) });
     } catch (error) {
-      console.error("Create lead error:", error);
+      console.error("Two-factor disable error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.put("/api/leads/:id", async (req, res) => {
+  app.post("/api/auth/two-factor/recovery-codes", requireAuth, async (req, res) => {
     try {
-      const lead = await storage.updateLead(parseInt(req.params.id), req.body);
-      res.json(lead);
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !user.totpEnabled || !user.totpSecret) {
+        return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+      }
+      if (verifyTotp(user.totpSecret, String(req.body.code || "")) === null) {
+        return res.status(400).json({ error: "Invalid authentication code" });
+      }
+
+      const codes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, codes.map(c => hashToken(normalizeRecoveryCode(c))));
+      await recordAudit(req, { action: "regenerate_recovery_codes", entityType: "user", entityId: user.id, details: { count: codes.length } });
+      res.json({ recoveryCodes: codes });
     } catch (error) {
-      console.error("Update lead error:", error);
+      console.error("Regenerate recovery codes error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/leads/:id/assign", async (req, res) => {
+  // Completes an admin-issued reset; tokens are single use and expire after an hour
+  app.post("/api/auth/reset-password", async (req, res) => {
     try {
-      const { counselorId } = req.body;
-      await storage.assignLeadToCounselor(parseInt(req.params.id), counselorId);
+      const { token, newPassword } = req.body;
+      if (!token || !newPassword) {
+        return res.status(400).json({ error: "Token and new password required" });
+      }
+      if (typeof newPassword !== "string" || newPassword.length < 8) {
+        return res.status(400).json({ error: "New password must be at least 8 characters" });
+      }
+
+      const resetToken = await storage.getValidPasswordResetToken(hashToken(String(token)));
+      if (!resetToken || !(await storage.markPasswordResetTokenUsed(resetToken.id))) {
+        return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      }
+
+      const updated = await storage.updateUser(resetToken.userId, {
+        password: await bcrypt.hash(newPassword, 10),
+        mustChangePassword: false,
+        updatedAt: new Date()
+      });
+      await recordAudit(req, {
+        action: "reset_password",
+        entityType: "user",
+        entityId: updated.id,
+        actorId: updated.id,
+        details: { resetTokenId: resetToken.id, issuedBy: resetToken.createdBy }
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // User routes
+  app.get("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(u => ({ 
+        id: u.id, 
+        name: u.name, 
+        email: u.email, 
+        role: u.role,
+        phone: u.phone,
+        teamId: u.teamId,
+        isActive: u.isActive,
+        mustChangePassword: u.mustChangePassword,
+        failedLoginAttempts: u.failedLoginAttempts,
+        totpEnabled: u.totpEnabled,
+        totpRequired: u.totpRequired,
+        lockedUntil: u.lockedUntil && u.lockedUntil > new Date() ? u.lockedUntil : null,
+        createdAt: u.createdAt
+      })));
+    } catch (error) {
+      console.error("Get users error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/users/counselors", requireAuth, async (req, res) => {
+    try {
+      // Inactive counselors can't take new leads; managers only assign within their teams
+      const counselors = (req.user!.role === "manager"
+        ? await storage.getTeamCounselors(req.user!.id)
+        : await storage.getAllCounselors()
+      ).filter(c => c.isActive);
+      res.json(counselors.map(c => ({ id: c.id, name: c.name, email: c.email })));
+    } catch (error) {
+      console.error("Get counselors error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const { name, email, phone, role, teamId, password } = req.body;
+      if (typeof name !== "string" || name.trim().length < 2) {
+        return res.status(400).json({ error: "Name must be at least 2 characters" });
+      }
+      if (typeof email !== "string" || !email.trim()) {
+        return res.status(400).json({ error: "Email is required" });
+      }
+      if (typeof password !== "string" || password.length < 8) {
+        return res.status(400).json({ error: "Password must be at least 8 characters" });
+      }
+      if (role !== undefined && !USER_ROLES.includes(role)) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+      const newTeamId = teamId ? parseInt(teamId) : null;
+      if (newTeamId !== null && !(await storage.getTeam(newTeamId))) {
+        return res.status(400).json({ error: "Team not found" });
+      }
+      const normalizedEmail = email.trim();
+      if (await storage.getUserByEmail(normalizedEmail)) {
+        return res.status(409).json({ error: "A user with this email already exists" });
+      }
+
+      // Only profile fields come from the request; 2FA, lockout and activation state keep their defaults
+      const user = await storage.createUser({
+        name: name.trim(),
+        email: normalizedEmail,
+        phone: phone ? String(phone).trim() : null,
+        role: role ?? "counselor",
+        teamId: newTeamId,
+        password: await bcrypt.hash(password, 10),
+        // The admin chose this password, so the user replaces it at first login
+        mustChangePassword: true
+      });
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, before: null, after: user });
+      res.json(toAuthUser(user));
+    } catch (error) {
+      console.error("Create user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/users/:id", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const { name, phone, role, teamId } = req.body;
+      const updates: Partial<InsertUser> = { updatedAt: new Date() };
+
+      if (name !== undefined) {
+        if (typeof name !== "string" || name.trim().length < 2) {
+          return res.status(400).json({ error: "Name must be at least 2 characters" });
+        }
+        updates.name = name.trim();
+      }
+      if (phone !== undefined) {
+        updates.phone = phone ? String(phone).trim() : null;
+      }
+      if (teamId !== undefined) {
+        const newTeamId = teamId ? parseInt(teamId) : null;
+        if (newTeamId !== null && !(await storage.getTeam(newTeamId))) {
+          return res.status(400).json({ error: "Team not found" });
+        }
+        updates.teamId = newTeamId;
+      }
+      if (role !== undefined && role !== user.role) {
+        if (!USER_ROLES.includes(role)) {
+          return res.status(400).json({ error: "Invalid role" });
+        }
+        if (user.id === req.user!.id) {
+          return res.status(400).json({ error: "You cannot change your own role" });
+        }
+        if (user.role === "counselor" && (await storage.getOpenLeadsByCounselor(user.id)).length > 0) {
+          return res.status(409).json({ error: "Reassign this counselor's open leads before changing their role" });
+        }
+        if (user.role === "manager" && (await storage.getAllTeams()).some(t => t.managerId === user.id)) {
+          return res.status(409).json({ error: "Give this manager's teams a new manager before changing their role" });
+        }
+        updates.role = role;
+      }
+
+      const updated = await storage.updateUser(user.id, updates);
+      if (updates.teamId !== undefined && updates.teamId !== user.teamId) {
+        // Their leads now report to the new team's manager
+        await storage.syncLeadManagers([user.id]);
+      }
+      await recordAudit(req, { action: "update", entityType: "user", entityId: user.id, before: user, after: updated });
+      res.json(toAuthUser(updated));
+    } catch (error) {
+      console.error("Update user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Step 1 of deactivation: the user's open leads plus a least-loaded redistribution proposal
+  app.get("/api/users/:id/deactivation-plan", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const openLeads = await storage.getOpenLeadsByCounselor(user.id);
+      const counselors = await getActiveCounselorLoads(user.id);
+
+      res.json({
+        user: { id: user.id, name: user.name, role: user.role },
+        openLeads: openLeads.map(l => ({ id: l.id, name: l.name, currentStage: l.currentStage, country: l.country })),
+        counselors,
+        proposal: proposeLeastLoadedAssignments(openLeads.map(l => l.id), counselors)
+      });
+    } catch (error) {
+      console.error("Deactivation plan error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Step 2: apply the (possibly edited) assignments and deactivate, all or nothing
+  app.post("/api/users/:id/deactivate", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ error: "You cannot deactivate your own account" });
+      }
+      if (!user.isActive) {
+        return res.status(400).json({ error: "User is already inactive" });
+      }
+      if (user.role === "manager" && (await storage.getAllTeams()).some(t => t.managerId === user.id)) {
+        return res.status(400).json({ error: "Give this manager's teams a new manager before deactivating them" });
+      }
+      if (user.role === "admin") {
+        const otherAdmins = (await storage.getAllUsers()).filter(u => u.role === "admin" && u.isActive && u.id !== user.id);
+        if (otherAdmins.length === 0) {
+          return res.status(400).json({ error: "Cannot deactivate the last active admin" });
+        }
+      }
+
+      const assignments: { leadId: number; counselorId: number }[] = Array.isArray(req.body.assignments)
+        ? req.body.assignments.map((a: any) => ({ leadId: parseInt(a.leadId), counselorId: parseInt(a.counselorId) }))
+        : [];
+
+      // Every open lead must go somewhere, and only to active counselors
+      const openLeadIds = new Set((await storage.getOpenLeadsByCounselor(user.id)).map(l => l.id));
+      const assignedIds = new Set(assignments.map(a => a.leadId));
+      const unassigned = Array.from(openLeadIds).filter(id => !assignedIds.has(id));
+      if (unassigned.length > 0) {
+        return res.status(400).json({ error: `${unassigned.length} open lead(s) have no new counselor`, unassignedLeadIds: unassigned });
+      }
+      const validTargets = new Set((await getActiveCounselorLoads(user.id)).map(c => c.counselorId));
+      const invalid = assignments.find(a => !openLeadIds.has(a.leadId) || !validTargets.has(a.counselorId));
+      if (invalid) {
+        return res.status(400).json({ error: `Invalid assignment for lead ${invalid.leadId}` });
+      }
+
+      const updated = await storage.deactivateUserWithReassignment(user.id, assignments, req.user!.id);
+      await recordAudit(req, {
+        action: "deactivate",
+        entityType: "user",
+        entityId: user.id,
+        before: user,
+        after: updated,
+        details: { reassignments: assignments }
+      });
+      res.json({ user: toAuthUser(updated), reassigned: assignments.length });
+    } catch (error) {
+      console.error("Deactivate user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/users/:id/activate", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const updated = await storage.updateUser(user.id, { isActive: true, updatedAt: new Date() });
+      await recordAudit(req, { action: "activate", entityType: "user", entityId: user.id, before: user, after: updated });
+      res.json(toAuthUser(updated));
+    } catch (error) {
+      console.error("Activate user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/users/:id/unlock", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      await storage.resetLoginAttempts(user.id);
+      await recordAudit(req, {
+        action: "unlock",
+        entityType: "user",
+        entityId: user.id,
+        details: { failedLoginAttempts: user.failedLoginAttempts, lockedUntil: user.lockedUntil }
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Unlock user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/users/:id/two-factor", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const updated = await storage.updateUser(user.id, {
+        totpRequired: !!req.body.required,
+        updatedAt: new Date()
+      });
+      await recordAudit(req, { action: "update", entityType: "user", entityId: user.id, before: user, after: updated });
+      res.json(toAuthUser(updated));
+    } catch (error) {
+      console.error("Update two-factor requirement error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // For lost devices: clears the user's authenticator so they enroll again at next login
+  app.post("/api/users/:id/two-factor/reset", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      await storage.deleteRecoveryCodes(user.id);
+      const updated = await storage.updateUser(user.id, {
+        totpSecret: null,
+        totpEnabled: false,
+        totpLastUsedStep: null,
+        updatedAt: new Date()
+      });
+      await recordAudit(req, { action: "reset_two_factor", entityType: "user", entityId: user.id, before: user, after: updated });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/users/:id/reset-password", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Only the newest link works
+      await storage.invalidatePasswordResetTokens(user.id);
+
+      const token = generateResetToken();
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+      const resetToken = await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt,
+        createdBy: req.user!.id
+      });
+      await recordAudit(req, {
+        action: "issue_password_reset",
+        entityType: "user",
+        entityId: user.id,
+        details: { resetTokenId: resetToken.id, expiresAt }
+      });
+
+      const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+      await mailer.send({
+        to: user.email,
+        subject: "Reset your Build Abroad CRM password",
+        text: [
+          `Hi ${user.name},`,
+          "",
+          "An administrator has requested a password reset for your account.",
+          `Choose a new password here (valid until ${expiresAt.toUTCString()}):`,
+          "",
+          `${baseUrl}/reset-password?token=${encodeURIComponent(token)}`,
+          "",
+          "The link can only be used once. If you did not expect this email, contact your administrator."
+        ].join("\n")
+      });
+
+      res.json({ success: true, expiresAt });
+    } catch (error) {
+      console.error("Issue password reset error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Team routes
+  app.get("/api/teams", requireAdmin, async (req, res) => {
+    try {
+      const teams = await storage.getAllTeams();
+      res.json(teams);
+    } catch (error) {
+      console.error("Get teams error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/teams", requireAdmin, async (req, res) => {
+    try {
+      const teamData = await validateTeamInput(req.body);
+      if ("error" in teamData) {
+        return res.status(400).json({ error: teamData.error });
+      }
+      const team = await storage.createTeam(teamData);
+      await recordAudit(req, { action: "create", entityType: "team", entityId: team.id, before: null, after: team });
+      res.json(team);
+    } catch (error) {
+      console.error("Create team error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/teams/:id", requireAdmin, async (req, res) => {
+    try {
+      const team = await storage.getTeam(parseInt(req.params.id));
+      if (!team) {
+        return res.status(404).json({ error: "Team not found" });
+      }
+      const teamData = await validateTeamInput({ name: team.name, managerId: team.managerId, ...req.body }, team.id);
+      if ("error" in teamData) {
+        return res.status(400).json({ error: teamData.error });
+      }
+
+      const updated = await storage.updateTeam(team.id, { ...teamData, updatedAt: new Date() });
+      if (updated.managerId !== team.managerId) {
+        // Hand the team's leads over to the new manager
+        const members = (await storage.getAllUsers()).filter(u => u.teamId === team.id);
+        await storage.syncLeadManagers(members.map(m => m.id));
+      }
+      await recordAudit(req, { action: "update", entityType: "team", entityId: team.id, before: team, after: updated });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update team error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Custom field routes: everyone reads the active definitions (to render and filter them), admins manage them
+  app.get("/api/custom-fields", requireAuth, async (req, res) => {
+    try {
+      const includeInactive = req.user!.role === "admin" && req.query.all === "true";
+      res.json(await storage.getCustomFields(includeInactive));
+    } catch (error) {
+      console.error("Get custom fields error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/custom-fields", requireAdmin, async (req, res) => {
+    try {
+      const parsed = parseCustomFieldDefinition(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const existing = await storage.getCustomFields(true);
+      if (existing.some(f => f.key === parsed.definition.key)) {
+        return res.status(409).json({ error: `A custom field with key "${parsed.definition.key}" already exists` });
+      }
+      const field = await storage.createCustomField({
+        sortOrder: existing.length,
+        ...parsed.definition
+      } as InsertCustomField);
+      await recordAudit(req, { action: "create", entityType: "custom_field", entityId: field.id, before: null, after: field });
+      res.json(field);
+    } catch (error) {
+      console.error("Create custom field error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Fields are never deleted: set isActive false to hide one while keeping the values already stored
+  app.put("/api/custom-fields/:id", requireAdmin, async (req, res) => {
+    try {
+      const field = await storage.getCustomField(parseInt(req.params.id));
+      if (!field) {
+        return res.status(404).json({ error: "Custom field not found" });
+      }
+      const parsed = parseCustomFieldDefinition(req.body, field);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const updated = await storage.updateCustomField(field.id, parsed.definition);
+      await recordAudit(req, { action: "update", entityType: "custom_field", entityId: field.id, before: field, after: updated });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update custom field error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Tag routes: everyone reads the palette (to tag and filter leads), admins manage it
+  app.get("/api/tags", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getTags());
+    } catch (error) {
+      console.error("Get tags error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/tags", requireAdmin, async (req, res) => {
+    try {
+      const validated = await validateTagInput(req.body);
+      if ("error" in validated) {
+        return res.status(400).json({ error: validated.error });
+      }
+      const tag = await storage.createTag({ name: validated.name!, color: validated.color ?? "gray" });
+      await recordAudit(req, { action: "create", entityType: "tag", entityId: tag.id, before: null, after: tag });
+      res.json(tag);
+    } catch (error) {
+      console.error("Create tag error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/tags/:id", requireAdmin, async (req, res) => {
+    try {
+      const tag = await storage.getTag(parseInt(req.params.id));
+      if (!tag) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      const validated = await validateTagInput(req.body, tag.id);
+      if ("error" in validated) {
+        return res.status(400).json({ error: validated.error });
+      }
+      const updated = await storage.updateTag(tag.id, validated);
+      await recordAudit(req, { action: "update", entityType: "tag", entityId: tag.id, before: tag, after: updated });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update tag error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/tags/:id", requireAdmin, async (req, res) => {
+    try {
+      const tag = await storage.getTag(parseInt(req.params.id));
+      if (!tag) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      const untaggedLeads = await storage.deleteTag(tag.id);
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "tag",
+        entityId: tag.id,
+        before: tag,
+        after: null,
+        details: { untaggedLeads }
+      });
+      res.json({ success: true, untaggedLeads });
+    } catch (error) {
+      console.error("Delete tag error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Assignment rules, in the order they are tried
+  app.get("/api/assignment-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = await storage.getAssignmentRules();
+      res.json(rules.map(rule => ({ ...rule, strategyLabel: ASSIGNMENT_STRATEGY_LABELS[rule.strategy as keyof typeof ASSIGNMENT_STRATEGY_LABELS] })));
+    } catch (error) {
+      console.error("Get assignment rules error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/assignment-rules", requireAdmin, async (req, res) => {
+    try {
+      const parsed = await validateAssignmentRuleInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const rule = await storage.createAssignmentRule({ ...parsed.rule, createdBy: req.user!.id });
+      await recordAudit(req, { action: "create", entityType: "assignment_rule", entityId: rule.id, before: null, after: rule });
+      res.json(rule);
+    } catch (error) {
+      console.error("Create assignment rule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/assignment-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      const rule = await storage.getAssignmentRule(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ error: "Assignment rule not found" });
+      }
+      const parsed = await validateAssignmentRuleInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const updated = await storage.updateAssignmentRule(rule.id, parsed.rule);
+      await recordAudit(req, { action: "update", entityType: "assignment_rule", entityId: rule.id, before: rule, after: updated });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update assignment rule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/assignment-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      const rule = await storage.getAssignmentRule(parseInt(req.params.id));
+      if (!rule) {
+        return res.status(404).json({ error: "Assignment rule not found" });
+      }
+      await storage.deleteAssignmentRule(rule.id);
+      await recordAudit(req, { action: "delete", entityType: "assignment_rule", entityId: rule.id, before: rule, after: null });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete assignment rule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Step 1: where the current rules would send the unassigned leads. Nothing is saved.
+  app.get("/api/assignment-rules/preview", requireAdmin, async (req, res) => {
+    try {
+      const [unassigned, counselors, assigner] = await Promise.all([
+        storage.getUnassignedLeads(ASSIGNMENT_PREVIEW_LIMIT),
+        storage.getAllCounselors(),
+        loadLeadAssigner()
+      ]);
+      const names = new Map(counselors.map(c => [c.id, c.name]));
+      const leads = unassigned.map(lead => {
+        const decision = assigner.assign(lead);
+        return {
+          ...lead,
+          counselorId: decision?.counselorId ?? null,
+          counselorName: decision ? names.get(decision.counselorId) ?? null : null,
+          ruleId: decision?.ruleId ?? null,
+          ruleName: decision?.ruleName ?? null
+        };
+      });
+      res.json({ leads, limit: ASSIGNMENT_PREVIEW_LIMIT });
+    } catch (error) {
+      console.error("Preview assignment rules error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Step 2: apply the previewed assignments, all or nothing
+  app.post("/api/assignment-rules/apply", requireAdmin, async (req, res) => {
+    try {
+      const assignments: { leadId: number; counselorId: number; ruleId: number }[] = Array.isArray(req.body.assignments)
+        ? req.body.assignments.map((a: any) => ({ leadId: parseInt(a.leadId), counselorId: parseInt(a.counselorId), ruleId: parseInt(a.ruleId) }))
+        : [];
+      if (assignments.length === 0) {
+        return res.status(400).json({ error: "No assignments to apply" });
+      }
+      if (assignments.some(a => !Number.isInteger(a.leadId) || !Number.isInteger(a.counselorId) || !Number.isInteger(a.ruleId))) {
+        return res.status(400).json({ error: "Each assignment needs a leadId, counselorId and ruleId" });
+      }
+      if (new Set(assignments.map(a => a.leadId)).size !== assignments.length) {
+        return res.status(400).json({ error: "Each lead can only be assigned once" });
+      }
+
+      const [unassigned, rules] = await Promise.all([
+        storage.getUnassignedLeads(ASSIGNMENT_PREVIEW_LIMIT),
+        storage.getAssignmentRules()
+      ]);
+      const unassignedById = new Map(unassigned.map(l => [l.id, l]));
+      if (assignments.some(a => !unassignedById.has(a.leadId))) {
+        return res.status(409).json({ error: "Some of these leads have been assigned or archived since the preview. Preview again." });
+      }
+      const active = new Set((await storage.getAllCounselors()).filter(c => c.isActive).map(c => c.id));
+      const rulesById = new Map(rules.map(r => [r.id, r]));
+      // The rule must still be active, still apply to the lead and still list the counselor
+      const invalid = assignments.find(a => {
+        const rule = rulesById.get(a.ruleId);
+        return !active.has(a.counselorId)
+          || !rule?.isActive
+          || !ruleMatches(rule.conditions, unassignedById.get(a.leadId)!)
+          || !rule.targets.some(t => t.counselorId === a.counselorId);
+      });
+      if (invalid) {
+        return res.status(400).json({ error: `Invalid assignment for lead ${invalid.leadId}` });
+      }
+
+      const conflicts = await storage.assignUnassignedLeads(assignments, req.user!.id, "Assigned by assignment rules");
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "Some of these leads have been assigned or archived since the preview. Preview again." });
+      }
+
+      await recordAudit(req, {
+        action: "assign",
+        entityType: "lead",
+        details: { assignments }
+      });
+      res.json({ assigned: assignments.length });
+    } catch (error) {
+      console.error("Apply assignment rules error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Lead scoring rules: one per factor, defaults until an admin saves a change
+  app.get("/api/scoring-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = effectiveScoringRules(await storage.getScoringRules());
+      res.json(rules.map(rule => ({ ...rule, label: SCORING_FACTOR_LABELS[rule.factor] })));
+    } catch (error) {
+      console.error("Get scoring rules error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Saving a rule rescores every lead in the background
+  app.put("/api/scoring-rules/:factor", requireAdmin, async (req, res) => {
+    try {
+      const factor = req.params.factor as ScoringFactor;
+      if (!SCORING_FACTORS.includes(factor)) {
+        return res.status(404).json({ error: "Unknown scoring factor" });
+      }
+      const parsed = parseScoringRule(factor, req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const before = effectiveScoringRules(await storage.getScoringRules()).find(r => r.factor === factor);
+      const rule = await storage.saveScoringRule({ factor, ...parsed.rule, updatedBy: req.user!.id });
+      await recordAudit(req, { action: "update", entityType: "scoring_rule", entityId: factor, before, after: rule });
+      queueLeadRescore();
+      res.json({ ...rule, isDefault: false, label: SCORING_FACTOR_LABELS[factor] });
+    } catch (error) {
+      console.error("Update scoring rule error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/scoring-rules/rescore", requireAdmin, async (req, res) => {
+    try {
+      const scored = await rescoreLeads();
+      await recordAudit(req, { action: "rescore", entityType: "scoring_rule", details: { scored } });
+      res.json({ scored });
+    } catch (error) {
+      console.error("Rescore leads error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Saved lead-list views: the caller's own and everyone's shared ones, each with its live lead
+  // count within the caller's scope
+  app.get("/api/saved-views", requireManager, async (req, res) => {
+    try {
+      const views = await storage.getSavedViews(req.user!.id);
+      const withCounts = await Promise.all(views.map(async (view) => {
+        const parsed = parseLeadQuery(leadQueryFromString(view.query));
+        // Queries are validated on save, but a tag or custom field they name may since have gone
+        if ("error" in parsed) return { ...view, leadCount: null };
+        const { total } = await storage.getLeads({ ...scopeLeadFilters(parsed.filters, req.user!), limit: 1, offset: 0 });
+        return { ...view, leadCount: total };
+      }));
+      res.json(withCounts);
+    } catch (error) {
+      console.error("Get saved views error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/saved-views", requireManager, async (req, res) => {
+    try {
+      const parsed = parseSavedViewInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const view = await storage.createSavedView({ ...parsed.view, ownerId: req.user!.id });
+      if (req.body.isDefault === true) {
+        await storage.setDefaultSavedView(req.user!.id, view.id);
+      }
+      await recordAudit(req, { action: "create", entityType: "saved_view", entityId: view.id, before: null, after: view });
+      res.json(view);
+    } catch (error) {
+      console.error("Create saved view error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Only the owner can change a view, shared or not
+  app.put("/api/saved-views/:id", requireManager, async (req, res) => {
+    try {
+      const view = await storage.getSavedView(parseInt(req.params.id));
+      if (!view || (view.ownerId !== req.user!.id && !view.isShared)) {
+        return res.status(404).json({ error: "Saved view not found" });
+      }
+      if (view.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the owner can change this view" });
+      }
+      const parsed = parseSavedViewInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const updated = await storage.updateSavedView(view.id, parsed.view);
+      await recordAudit(req, { action: "update", entityType: "saved_view", entityId: view.id, before: view, after: updated });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update saved view error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Owners delete their views; admins can also remove anyone's shared view
+  app.delete("/api/saved-views/:id", requireManager, async (req, res) => {
+    try {
+      const view = await storage.getSavedView(parseInt(req.params.id));
+      if (!view || (view.ownerId !== req.user!.id && !view.isShared)) {
+        return res.status(404).json({ error: "Saved view not found" });
+      }
+      if (view.ownerId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ error: "Only the owner or an admin can delete this view" });
+      }
+      await storage.deleteSavedView(view.id);
+      await recordAudit(req, { action: "delete", entityType: "saved_view", entityId: view.id, before: view, after: null });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete saved view error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The caller's default view, opened when the Leads page URL has no filters
+  app.post("/api/saved-views/:id/default", requireManager, async (req, res) => {
+    try {
+      const view = await storage.getSavedView(parseInt(req.params.id));
+      if (!view || (view.ownerId !== req.user!.id && !view.isShared)) {
+        return res.status(404).json({ error: "Saved view not found" });
+      }
+      await storage.setDefaultSavedView(req.user!.id, view.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Set default saved view error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/saved-views/:id/default", requireManager, async (req, res) => {
+    try {
+      const views = await storage.getSavedViews(req.user!.id);
+      if (views.some(v => v.id === parseInt(req.params.id) && v.isDefault)) {
+        await storage.setDefaultSavedView(req.user!.id, null);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Clear default saved view error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Lead routes
+  // Lead list: filtering, sorting and (when ?page is given) pagination all run in SQL
+  app.get("/api/leads", requireAuth, async (req, res) => {
+    try {
+      const parsed = parseLeadQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const { leads, total } = await storage.getLeads(scopeLeadFilters(parsed.filters, req.user!));
+      if (parsed.page === undefined) {
+        return res.json(leads);
+      }
+      res.json({ leads, total, page: parsed.page, pageSize: parsed.pageSize });
+    } catch (error) {
+      console.error("Get leads error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Global search box: ranked matches on name, email, phone, UID and remarks within the caller's scope
+  app.get("/api/leads/search", requireAuth, async (req, res) => {
+    try {
+      const term = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (term.length < 2) {
+        return res.status(400).json({ error: "Search needs at least 2 characters" });
+      }
+      const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 20));
+      res.json(await storage.searchLeads(term.slice(0, 200), leadScopeFor(req.user!), limit));
+    } catch (error) {
+      console.error("Search leads error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Distinct country/intake/source values for the lead list filters, within the caller's scope
+  app.get("/api/leads/filter-options", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getLeadFilterOptions(leadScopeFor(req.user!)));
+    } catch (error) {
+      console.error("Get lead filter options error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/leads/export-columns", requireAdmin, async (req, res) => {
+    try {
+      res.json(leadExportColumns(await storage.getCustomFields()).map(({ key, label }) => ({ key, label })));
+    } catch (error) {
+      console.error("Get export columns error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Export of the filtered lead list: the GET /api/leads filters plus format (csv or xlsx) and columns
+  // (keys from /api/leads/export-columns, all by default). CSV is streamed as it is read.
+  app.get("/api/leads/export", requireAdmin, async (req, res) => {
+    try {
+      const format = ((req.query.format as string | undefined) || "csv") as LeadExportFormat;
+      if (!LEAD_EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of: ${LEAD_EXPORT_FORMATS.join(", ")}` });
+      }
+      const parsed = parseLeadQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const selected = selectExportColumns(queryList(req.query.columns), leadExportColumns(await storage.getCustomFields()));
+      if ("error" in selected) {
+        return res.status(400).json({ error: selected.error });
+      }
+      const { columns } = selected;
+      const filters = scopeLeadFilters(parsed.filters, req.user!);
+      const { total } = await storage.getLeads({ ...filters, limit: 1, offset: 0 });
+      if (format === "xlsx" && total > MAX_XLSX_EXPORT_ROWS) {
+        return res.status(400).json({ error: `XLSX exports are limited to ${MAX_XLSX_EXPORT_ROWS} leads; narrow the filters or export CSV` });
+      }
+
+      await recordAudit(req, {
+        action: "export",
+        entityType: "lead",
+        details: { format, rows: total, columns: columns.map(c => c.key), query: req.originalUrl.split("?")[1] ?? "" }
+      });
+
+      const filename = `leads-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      const header = columns.map(c => c.label);
+      if (format === "xlsx") {
+        const rows: XlsxCell[][] = [header];
+        for await (const batch of leadExportRows(filters, columns)) {
+          rows.push(...batch);
+        }
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        return res.send(buildXlsx("Leads", rows));
+      }
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      // escapeFormulae stops spreadsheet apps from running cell text such as "=HYPERLINK(...)"
+      const csvChunks = async function* () {
+        // The byte order mark makes Excel read the file as UTF-8
+        yield "\uFEFF" + Papa.unparse([header], { escapeFormulae: true }) + "\r\n";
+        for await (const batch of leadExportRows(filters, columns)) {
+          yield Papa.unparse(batch, { escapeFormulae: true }) + "\r\n";
+        }
+      };
+      // pipeline waits for the client to drain, and stops fetching batches if the download is aborted
+      await pipeline(Readable.from(csvChunks()), res);
+    } catch (error) {
+      console.error("Export leads error:", error);
+      // Once streaming has started the status is sent; cut the download so a partial file is not mistaken for a full one
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/leads/:id", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      res.json(req.lead);
+    } catch (error) {
+      console.error("Get lead error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/leads", requireAuth, async (req, res) => {
+    try {
+      const leadData = { ...req.body };
+      // Archiving goes through the archive endpoint only; scores are computed
+      delete leadData.archivedAt;
+      delete leadData.archivedBy;
+      delete leadData.archiveReason;
+      delete leadData.score;
+      delete leadData.scoreBreakdown;
+      delete leadData.scoredAt;
+      const custom = applyCustomFieldValues(await storage.getCustomFields(), leadData.customFields);
+      if ("error" in custom) {
+        return res.status(400).json({ error: custom.error });
+      }
+      leadData.customFields = custom.values;
+      let assignment = null;
+      if (req.user!.role === "counselor") {
+        // Leads created by a counselor belong to that counselor
+        leadData.counselorId = req.user!.id;
+      } else if (leadData.counselorId) {
+        const assignable = await checkAssignableCounselor(req.user!, leadData.counselorId);
+        if ("error" in assignable) {
+          return res.status(assignable.status).json({ error: assignable.error });
+        }
+        leadData.counselorId = assignable.counselorId;
+      } else {
+        // No counselor chosen: the assignment rules pick one, within the team for a manager
+        const allowed = req.user!.role === "manager"
+          ? new Set((await storage.getTeamCounselors(req.user!.id)).map(c => c.id))
+          : undefined;
+        assignment = await assignNewLead({
+          country: leadData.country || null,
+          source: leadData.source || null,
+          intake: leadData.intake || null,
+          preferredLanguage: leadData.preferredLanguage || null
+        }, allowed);
+        if (assignment) {
+          leadData.counselorId = assignment.counselorId;
+          if (!leadData.currentStage || leadData.currentStage === "Yet to Assign") {
+            leadData.currentStage = "Yet to Contact";
+          }
+        }
+      }
+      // The manager always follows from the counselor's team
+      leadData.managerId = leadData.counselorId
+        ? await storage.getManagerIdForCounselor(parseInt(leadData.counselorId))
+        : req.user!.role === "manager" ? req.user!.id : null;
+      const lead = await storage.createLead(leadData);
+      await rescoreLead(lead.id);
+      await recordAudit(req, {
+        action: "create",
+        entityType: "lead",
+        entityId: lead.id,
+        before: null,
+        after: lead,
+        details: assignment ? { assignmentRule: { id: assignment.ruleId, name: assignment.ruleName } } : undefined
+      });
+      res.json(lead);
+    } catch (error) {
+      console.error("Create lead error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/leads/:id", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      const updates = { ...req.body };
+      // The manager always follows from the counselor's team
+      delete updates.managerId;
+      const counselorUnchanged = updates.counselorId === undefined || (updates.counselorId === null
+        ? req.lead!.counselorId === null
+        : Number(updates.counselorId) === req.lead!.counselorId);
+      if (req.user!.role !== "admin" || counselorUnchanged) {
+        // Only admins change ownership here; everyone else goes through the assign endpoints
+        delete updates.counselorId;
+      } else {
+        const assignable = await checkAssignableCounselor(req.user!, updates.counselorId);
+        if ("error" in assignable) {
+          return res.status(assignable.status).json({ error: assignable.error });
+        }
+        updates.counselorId = assignable.counselorId;
+        updates.managerId = await storage.getManagerIdForCounselor(assignable.counselorId);
+      }
+      // Archiving goes through the archive and restore endpoints only; scores are computed
+      delete updates.archivedAt;
+      delete updates.archivedBy;
+      delete updates.archiveReason;
+      delete updates.score;
+      delete updates.scoreBreakdown;
+      delete updates.scoredAt;
+      if (updates.customFields !== undefined) {
+        const custom = applyCustomFieldValues(await storage.getCustomFields(), updates.customFields, req.lead!.customFields);
+        if ("error" in custom) {
+          return res.status(400).json({ error: custom.error });
+        }
+        updates.customFields = custom.values;
+      }
+      const lead = await storage.updateLead(req.lead!.id, updates, req.user!.id);
+      await rescoreLead(lead.id);
+      await recordAudit(req, { action: "update", entityType: "lead", entityId: lead.id, before: req.lead, after: lead });
+      res.json(lead);
+    } catch (error) {
+      console.error("Update lead error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/leads/:id/assign", requireManager, requireLeadAccess(), async (req, res) => {
+    try {
+      const assignable = await checkAssignableCounselor(req.user!, req.body.counselorId);
+      if ("error" in assignable) {
+        return res.status(assignable.status).json({ error: assignable.error });
+      }
+      await storage.assignLeadToCounselor(req.lead!.id, assignable.counselorId, req.user!.id);
+      await recordAudit(req, {
+        action: "assign",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        before: req.lead,
+        after: await storage.getLead(req.lead!.id)
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Assign lead error:", error);
@@ -877,25 +2510,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads/assign-bulk", async (req, res) => {
+  // Handover: moves an assigned lead to another counselor with a note for them, keeping its stage.
+  // The note is pinned on the lead until the new owner acknowledges it, and they are emailed.
+  app.post("/api/leads/:id/handover", requireManager, requireLeadAccess(), async (req, res) => {
     try {
-      const { leadIds, counselorId } = req.body;
-      
-      for (const leadId of leadIds) {
-        await storage.assignLeadToCounselor(leadId, counselorId);
+      const toCounselorId = Number(req.body.counselorId);
+      const note = typeof req.body.note === "string" ? req.body.note.trim() : "";
+      if (!note || note.length > MAX_HANDOVER_NOTE_LENGTH) {
+        return res.status(400).json({ error: `A handover note of at most ${MAX_HANDOVER_NOTE_LENGTH} characters is required` });
       }
-      
-      res.json({ success: true });
+      if (req.lead!.counselorId === null) {
+        return res.status(400).json({ error: "This lead is unassigned; assign it instead" });
+      }
+      if (req.lead!.counselorId === toCounselorId) {
+        return res.status(400).json({ error: "The lead is already with this counselor" });
+      }
+      const counselor = (await storage.getAllCounselors()).find(c => c.id === toCounselorId && c.isActive);
+      if (!counselor) {
+        return res.status(400).json({ error: "Choose an active counselor" });
+      }
+      if (req.user!.role === "manager" && !(await isTeamCounselor(req.user!.id, toCounselorId))) {
+        return res.status(403).json({ error: "Managers can only hand leads over within their team" });
+      }
+
+      const { before, after, handover } = await storage.handoverLead(req.lead!.id, toCounselorId, note, req.user!.id);
+      await recordAudit(req, {
+        action: "handover",
+        entityType: "lead",
+        entityId: after.id,
+        before,
+        after,
+        details: { handoverId: handover.id, fromCounselorId: before.counselorId, toCounselorId, note }
+      });
+
+      // The handover stands even if the email cannot be sent; the note is waiting on their dashboard
+      try {
+        const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+        await mailer.send({
+          to: counselor.email,
+          subject: `Lead handed over to you: ${after.name}`,
+          text: [
+            `Hi ${counselor.name},`,
+            "",
+            `${req.user!.name} has handed over the lead ${after.name} (stage: ${after.currentStage}) to you.`,
+            "",
+            "Handover note:",
+            note,
+            "",
+            `${baseUrl}/lead/${after.id}`
+          ].join("\n")
+        });
+      } catch (error) {
+        console.error("Handover email error:", error);
+      }
+
+      res.json(handover);
+    } catch (error) {
+      console.error("Handover lead error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/leads/:id/ownership", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      res.json(await storage.getLeadOwnershipTimeline(req.lead!.id));
+    } catch (error) {
+      console.error("Get ownership timeline error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Tasks, stage changes, remarks, field edits, ownership changes, applications and documents in one
+  // feed, newest first. ?types=task,remark narrows it; counts always cover every type.
+  app.get("/api/leads/:id/timeline", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      const types = queryList(req.query.types);
+      const unknown = types?.filter(type => !(LEAD_TIMELINE_EVENT_TYPES as readonly string[]).includes(type)) ?? [];
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown timeline event types: ${unknown.join(", ")}` });
+      }
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const pageSize = Math.min(100, Math.max(1, parseInt(req.query.pageSize as string) || 25));
+
+      const { events, total, counts } = await storage.getLeadTimeline(req.lead!.id, {
+        types: types as LeadTimelineEventType[] | undefined,
+        limit: pageSize,
+        offset: (page - 1) * pageSize
+      });
+      res.json({ events: events.map(maskTimelineEvent), total, counts, page, pageSize });
+    } catch (error) {
+      console.error("Get lead timeline error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The signed-in counselor's unacknowledged handovers, for their dashboard
+  app.get("/api/handovers/pending", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getPendingHandovers(req.user!.id));
+    } catch (error) {
+      console.error("Get pending handovers error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/handovers/:id/acknowledge", requireAuth, async (req, res) => {
+    try {
+      const handover = await storage.getOwnershipChange(parseInt(req.params.id));
+      if (!handover || handover.kind !== "handover") {
+        return res.status(404).json({ error: "Handover not found" });
+      }
+      if (handover.toCounselorId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the receiving counselor can acknowledge a handover" });
+      }
+      if (handover.acknowledgedAt) {
+        return res.json(handover);
+      }
+      const acknowledged = await storage.acknowledgeHandover(handover.id);
+      await recordAudit(req, {
+        action: "acknowledge_handover",
+        entityType: "lead",
+        entityId: handover.leadId,
+        details: { handoverId: handover.id }
+      });
+      res.json(acknowledged);
     } catch (error) {
-      console.error("Bulk assign error:", error);
+      console.error("Acknowledge handover error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Assign, stage change, field update or archive for a selection (leadIds) or for every lead matching
+  // a saved filter (viewId, or a Leads page query string). All or nothing; the response lists each lead's result.
+  app.post("/api/leads/bulk", requireManager, runBulkLeadAction);
+
+  // Older assign-only form of POST /api/leads/bulk, with the same checks and response
+  app.post("/api/leads/assign-bulk", requireManager, (req, res) => {
+    req.body = { action: "assign", counselorId: req.body.counselorId, leadIds: req.body.leadIds ?? [] };
+    return runBulkLeadAction(req, res);
+  });
+
+  // Adds or removes tags on a selection of leads (the lead list's bulk actions)
+  app.post("/api/leads/tags-bulk", requireManager, async (req, res) => {
+    try {
+      const { action } = req.body;
+      if (action !== "add" && action !== "remove") {
+        return res.status(400).json({ error: "action must be add or remove" });
+      }
+      const leadIds = Array.isArray(req.body.leadIds) ? Array.from(new Set(req.body.leadIds.map((id: unknown) => Number(id)))) as number[] : [];
+      if (leadIds.some(id => !Number.isInteger(id))) {
+        return res.status(400).json({ error: "leadIds must be a list of lead ids" });
+      }
+      if (leadIds.length > MAX_BULK_LEADS) {
+        return res.status(400).json({ error: `Bulk actions are limited to ${MAX_BULK_LEADS} leads at a time` });
+      }
+      const tagIds = await resolveTagIds(req.body.tagIds);
+      if (leadIds.length === 0 || !tagIds || tagIds.length === 0) {
+        return res.status(400).json({ error: "leadIds and tagIds must be non-empty lists of existing leads and tags" });
+      }
+      const access = await checkLeadsAccess(req.user!, leadIds);
+      if (access.access === "not_found") {
+        return res.status(404).json({ error: `Lead ${access.leadId} not found` });
+      }
+      if (access.access !== "ok") {
+        return denyLeadAccess(res);
+      }
+
+      const changed = action === "add"
+        ? await storage.addLeadTags(leadIds, tagIds, req.user!.id)
+        : await storage.removeLeadTags(leadIds, tagIds);
+      await recordAudit(req, {
+        action: action === "add" ? "tag" : "untag",
+        entityType: "lead",
+        entityId: null,
+        before: null,
+        after: null,
+        details: { bulk: true, leadIds, tagIds, changed }
+      });
+      res.json({ success: true, changed });
+    } catch (error) {
+      console.error("Bulk tag error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
   // API endpoint to migrate leads with empty counselor fields
-  app.post("/api/leads/migrate-empty-counselors", async (req, res) => {
+  app.post("/api/leads/migrate-empty-counselors", requireAdmin, async (req, res) => {
     try {
       const result = await storage.migrateEmptyCounselorLeads();
+      await recordAudit(req, {
+        action: "migrate_empty_counselors",
+        entityType: "lead",
+        details: { updated: result.updated, leadIds: result.details.filter(d => d.status === "updated").map(d => d.leadId) }
+      });
       res.json({
         success: true,
         message: `Successfully updated ${result.updated} leads from "Yet to Assign" to "Yet to Contact"`,
@@ -907,10 +2714,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/leads/:id/stage", async (req, res) => {
+  app.put("/api/leads/:id/stage", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
-      const { stage, userId, reason } = req.body;
-      await storage.updateLeadStage(parseInt(req.params.id), stage, userId, reason);
+      const { stage, reason } = req.body;
+      await storage.updateLeadStage(req.lead!.id, stage, req.user!.id, reason);
+      await rescoreLead(req.lead!.id);
+      await recordAudit(req, {
+        action: "change_stage",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        before: req.lead,
+        after: await storage.getLead(req.lead!.id),
+        details: reason ? { reason } : undefined
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Update stage error:", error);
@@ -918,8 +2734,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Archive (soft delete): the lead leaves every list, search and stat but keeps its records
+  app.post("/api/leads/:id/archive", requireAdmin, requireLeadAccess(), async (req, res) => {
+    try {
+      const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ error: "A reason is required to archive a lead" });
+      }
+      if (req.lead!.archivedAt) {
+        return res.status(400).json({ error: "Lead is already archived" });
+      }
+      await storage.archiveLead(req.lead!.id, req.user!.id, reason);
+      const after = await storage.getLead(req.lead!.id);
+      await recordAudit(req, {
+        action: "archive",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        before: req.lead,
+        after,
+        details: { reason }
+      });
+      res.json(after);
+    } catch (error) {
+      console.error("Archive lead error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/leads/:id/restore", requireAdmin, requireLeadAccess(), async (req, res) => {
+    try {
+      if (!req.lead!.archivedAt) {
+        return res.status(400).json({ error: "Lead is not archived" });
+      }
+      await storage.restoreLead(req.lead!.id, req.user!.id);
+      await rescoreLead(req.lead!.id);
+      const after = await storage.getLead(req.lead!.id);
+      await recordAudit(req, { action: "restore", entityType: "lead", entityId: req.lead!.id, before: req.lead, after });
+      res.json(after);
+    } catch (error) {
+      console.error("Restore lead error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Hard purge: deletes the lead with its tasks, remarks, history, documents and universities.
+  // Only archived leads can be purged, so every purge is preceded by a recorded archive reason.
+  app.delete("/api/leads/:id", requireAdmin, requireLeadAccess(), async (req, res) => {
+    try {
+      if (!req.lead!.archivedAt) {
+        return res.status(400).json({ error: "Archive the lead before purging it" });
+      }
+      const deletedRecords = await storage.purgeLead(req.lead!.id);
+      await recordAudit(req, {
+        action: "purge",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        before: req.lead,
+        after: null,
+        details: { deletedRecords }
+      });
+      res.json({ success: true, deletedRecords });
+    } catch (error) {
+      console.error("Purge lead error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Family and sponsor contacts of a lead
+  app.get("/api/leads/:id/contacts", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      res.json(await storage.getLeadContacts(req.lead!.id));
+    } catch (error) {
+      console.error("Get lead contacts error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/leads/:id/contacts", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      const parsed = parseLeadContactInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const contact = await storage.createLeadContact({ ...parsed.contact, leadId: req.lead!.id, createdBy: req.user!.id });
+      await recordAudit(req, {
+        action: "add_contact",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        after: contact
+      });
+      res.status(201).json(contact);
+    } catch (error) {
+      console.error("Create lead contact error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/leads/:id/contacts/:contactId", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      const contact = await storage.getLeadContact(parseInt(req.params.contactId));
+      if (!contact || contact.leadId !== req.lead!.id) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      const parsed = parseLeadContactInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const updated = await storage.updateLeadContact(contact.id, parsed.contact);
+      await recordAudit(req, {
+        action: "update_contact",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        before: contact,
+        after: updated
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Update lead contact error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/leads/:id/contacts/:contactId", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      const contact = await storage.getLeadContact(parseInt(req.params.contactId));
+      if (!contact || contact.leadId !== req.lead!.id) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      await storage.deleteLeadContact(contact.id);
+      await recordAudit(req, {
+        action: "delete_contact",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        before: contact,
+        after: null
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete lead contact error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Task routes
-  app.get("/api/leads/:id/tasks", async (req, res) => {
+  app.get("/api/leads/:id/tasks", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
       const tasks = await storage.getTasksByLead(parseInt(req.params.id));
       res.json(tasks);
@@ -929,10 +2887,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads/:id/tasks", async (req, res) => {
+  app.post("/api/leads/:id/tasks", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
       const {
-        userId,
         taskType,
         callType,
         connectStatus,
@@ -960,13 +2917,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         username,
         password,
         reasonNotInterested,
-        preferredLanguage
+        preferredLanguage,
+        contactId
       } = req.body;
 
       // Filter out undefined values and create clean task data
       const taskData: any = {
         leadId: parseInt(req.params.id),
-        userId: parseInt(userId),
+        userId: req.user!.id,
         taskType
       };
 
@@ -998,8 +2956,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       taskData.remarks = remarks.trim();
       if (reasonNotInterested) taskData.reasonNotInterested = reasonNotInterested;
       if (preferredLanguage) taskData.preferredLanguage = preferredLanguage;
+      // A call or meeting with one of the lead's family contacts rather than the lead
+      if (contactId !== undefined && contactId !== null) {
+        const contact = await storage.getLeadContact(Number(contactId));
+        if (!contact || contact.leadId !== req.lead!.id) {
+          return res.status(400).json({ error: "contactId must be a contact of this lead" });
+        }
+        taskData.contactId = contact.id;
+      }
 
       const task = await storage.createTask(taskData);
+      await rescoreLead(req.lead!.id);
+      await recordAudit(req, {
+        action: "add_task",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        details: { taskId: task.id, taskType: task.taskType, contactId: task.contactId }
+      });
       res.json(task);
     } catch (error) {
       console.error("Create task error:", error);
@@ -1008,7 +2981,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Stage history routes
-  app.get("/api/leads/:id/history", async (req, res) => {
+  app.get("/api/leads/:id/history", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
       const history = await storage.getStageHistory(parseInt(req.params.id));
       res.json(history);
@@ -1018,8 +2991,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Tags on one lead
+  app.get("/api/leads/:id/tags", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      res.json(await storage.getLeadTags(req.lead!.id));
+    } catch (error) {
+      console.error("Get lead tags error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Replaces the lead's tags with the given set
+  app.put("/api/leads/:id/tags", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      const tagIds = await resolveTagIds(req.body.tagIds);
+      if (!tagIds) {
+        return res.status(400).json({ error: "tagIds must be a list of existing tag ids" });
+      }
+      const current = (await storage.getLeadTags(req.lead!.id)).map(t => t.id);
+      const added = tagIds.filter(id => !current.includes(id));
+      const removed = current.filter(id => !tagIds.includes(id));
+      await storage.addLeadTags([req.lead!.id], added, req.user!.id);
+      await storage.removeLeadTags([req.lead!.id], removed);
+      if (added.length > 0 || removed.length > 0) {
+        await recordAudit(req, {
+          action: "tag",
+          entityType: "lead",
+          entityId: req.lead!.id,
+          before: { tagIds: current },
+          after: { tagIds },
+          details: { added, removed }
+        });
+      }
+      res.json(await storage.getLeadTags(req.lead!.id));
+    } catch (error) {
+      console.error("Update lead tags error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Field-level edit history (old/new value per changed field), newest first
+  app.get("/api/leads/:id/changes", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      res.json(await storage.getLeadFieldChanges(req.lead!.id));
+    } catch (error) {
+      console.error("Get lead changes error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Remarks routes
-  app.get("/api/leads/:id/remarks", async (req, res) => {
+  app.get("/api/leads/:id/remarks", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
       const remarks = await storage.getRemarksByLead(parseInt(req.params.id));
       res.json(remarks);
@@ -1029,15 +3051,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads/:id/remarks", async (req, res) => {
+  app.post("/api/leads/:id/remarks", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
       const remarkData = {
         leadId: parseInt(req.params.id),
-        userId: req.body.userId,
+        userId: req.user!.id,
         content: req.body.content,
         isVisible: req.body.isVisible ?? true
       };
       await storage.createRemark(remarkData);
+      await recordAudit(req, {
+        action: "add_remark",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        details: { content: remarkData.content, isVisible: remarkData.isVisible }
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Create remark error:", error);
@@ -1046,23 +3074,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // University application routes
-  app.get("/api/leads/:id/universities", async (req, res) => {
+  app.get("/api/leads/:id/universities", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
       const apps = await storage.getUniversityApplications(parseInt(req.params.id));
-      res.json(apps);
+      res.json(apps.map(maskUniversityApplication));
     } catch (error) {
       console.error("Get university applications error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/leads/:id/universities", async (req, res) => {
+  app.post("/api/leads/:id/universities", requireAuth, requireLeadAccess(), async (req, res) => {
     try {
       const appData = {
         ...req.body,
         leadId: parseInt(req.params.id)
       };
-      await storage.createUniversityApplication(appData);
+      await storage.createUniversityApplication(encryptUniversityCredentials(appData));
+      await recordAudit(req, {
+        action: "add_university_application",
+        entityType: "lead",
+        entityId: req.lead!.id,
+        details: {
+          universityName: appData.universityName,
+          universityUrl: appData.universityUrl,
+          hasCredentials: !!(appData.username || appData.password)
+        }
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Create university application error:", error);
@@ -1070,8 +3108,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Decrypts an application's portal login; every reveal is recorded in the audit log
+  app.post("/api/leads/:id/universities/:appId/reveal", requireAuth, requireLeadAccess(), async (req, res) => {
+    try {
+      const application = await storage.getUniversityApplication(parseInt(req.params.appId));
+      if (!application || application.leadId !== req.lead!.id) {
+        return res.status(404).json({ error: "University application not found" });
+      }
+      const credentials = revealUniversityCredentials(application);
+      await recordAudit(req, {
+        action: "reveal_credentials",
+        entityType: "university_application",
+        entityId: application.id,
+        details: { leadId: application.leadId, universityName: application.universityName }
+      });
+      res.json(credentials);
+    } catch (error) {
+      console.error("Reveal university credentials error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Duplicate review queue (admin): pairs found by the background scan in server/duplicates.ts
+  app.get("/api/duplicates", requireAdmin, async (req, res) => {
+    try {
+      const pairs = await storage.getPendingLeadDuplicates();
+      res.json({ pairs, lastScan: getLastDuplicateScan() });
+    } catch (error) {
+      console.error("Get duplicates error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/duplicates/scan", requireAdmin, async (req, res) => {
+    try {
+      const result = await scanForDuplicates();
+      res.json(result);
+    } catch (error) {
+      console.error("Duplicate scan error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/duplicates/:id/dismiss", requireAdmin, async (req, res) => {
+    try {
+      const pair = await storage.getLeadDuplicate(parseInt(req.params.id));
+      if (!pair || pair.status !== "pending") {
+        return res.status(404).json({ error: "Duplicate pair not found" });
+      }
+      await storage.dismissLeadDuplicate(pair.id, req.user!.id);
+      await recordAudit(req, {
+        action: "dismiss_duplicate",
+        entityType: "lead",
+        entityId: pair.leadId,
+        details: { duplicateLeadId: pair.duplicateLeadId, reasons: pair.reasons }
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Dismiss duplicate error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Merges the pair into whichever lead the admin keeps; the other lead is removed
+  app.post("/api/duplicates/:id/merge", requireAdmin, async (req, res) => {
+    try {
+      const pair = await storage.getLeadDuplicate(parseInt(req.params.id));
+      if (!pair || pair.status !== "pending") {
+        return res.status(404).json({ error: "Duplicate pair not found" });
+      }
+      const survivingLeadId = parseInt(req.body.survivingLeadId);
+      if (survivingLeadId !== pair.leadId && survivingLeadId !== pair.duplicateLeadId) {
+        return res.status(400).json({ error: "survivingLeadId must be one of the two leads in the pair" });
+      }
+      const mergedLeadId = survivingLeadId === pair.leadId ? pair.duplicateLeadId : pair.leadId;
+
+      const before = await storage.getLead(survivingLeadId);
+      const merge = await storage.mergeLeads(survivingLeadId, mergedLeadId, req.user!.id);
+      await rescoreLead(survivingLeadId);
+      const after = await storage.getLead(survivingLeadId);
+      await recordAudit(req, {
+        action: "merge",
+        entityType: "lead",
+        entityId: survivingLeadId,
+        before,
+        after,
+        details: { mergeId: merge.id, mergedLeadId, reasons: pair.reasons, movedRecords: merge.movedRecords }
+      });
+      res.json({ success: true, merge, lead: after });
+    } catch (error) {
+      console.error("Merge leads error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Bulk Import route for high-volume resilient processing
-  app.post("/api/imports/leads/bulk", async (req, res) => {
+  app.post("/api/imports/leads/bulk", requireAdmin, async (req, res) => {
     try {
       const { leads, dryRun = false, chunkSize = 1000 } = req.body;
       
@@ -1079,7 +3211,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid leads data" });
       }
 
-      const result = await processBulkLeadImport(leads, dryRun, chunkSize, storage);
+      const result = await processBulkLeadImport(leads, dryRun, chunkSize, storage, req.user!.id);
+      if (!dryRun) {
+        await recordAudit(req, { action: "import", entityType: "lead", details: importAuditDetails(result.batchSummary) });
+        queueDuplicateScan();
+        queueLeadRescore();
+      }
       res.json(result);
     } catch (error) {
       console.error("Bulk import error:", error);
@@ -1088,7 +3225,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File Upload endpoint for large CSV imports (5000+ leads)
-  app.post("/api/imports/leads/upload", upload.single('csvFile'), async (req, res) => {
+  app.post("/api/imports/leads/upload", requireAdmin, upload.single('csvFile'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No CSV file uploaded" });
@@ -1132,7 +3269,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Process through bulk import system
-      const result = await processBulkLeadImport(leads, isDryRun, processChunkSize, storage);
+      const result = await processBulkLeadImport(leads, isDryRun, processChunkSize, storage, req.user!.id);
+      if (!isDryRun) {
+        await recordAudit(req, {
+          action: "import",
+          entityType: "lead",
+          details: { ...importAuditDetails(result.batchSummary), fileName: req.file.originalname }
+        });
+        queueDuplicateScan();
+        queueLeadRescore();
+      }
       
       // Clean up uploaded file
       fs.unlinkSync(req.file.path);
@@ -1153,7 +3299,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhanced CSV Import route
-  app.post("/api/leads/import-csv", async (req, res) => {
+  app.post("/api/leads/import-csv", requireAdmin, async (req, res) => {
     try {
       const { leads } = req.body;
       
@@ -1163,23 +3309,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const importedLeads = [];
       const errors = [];
-      let managerId = null;
+      const customFieldDefinitions = await storage.getCustomFields();
+      let managersByCounselor = new Map<number, number | null>();
       let counselors: any[] = [];
-      let defaultCounselor: any = null;
+      let assigner: LeadAssigner | null = null;
 
-      // Find manager ID (Anupriya) and fetch all counselors
+      // Fetch all counselors and the manager of each counselor's team
       try {
         const users = await storage.getAllUsers();
-        const manager = users.find(u => u.name.toLowerCase().includes('anupriya') || u.role === 'admin');
-        managerId = manager?.id || null;
+        managersByCounselor = teamManagersByCounselor(users, await storage.getAllTeams());
         
-        // Get all counselors for smart assignment
-        counselors = users.filter(u => u.role === 'counselor');
+        // Get all active counselors for smart assignment
+        counselors = users.filter(u => u.role === 'counselor' && u.isActive);
         
-        // Find default counselor (Likitha)
-        defaultCounselor = counselors.find(c => c.name.toLowerCase().includes('likitha'));
+        // Leads without a matching counselor name go through the assignment rules
+        assigner = await loadLeadAssigner();
       } catch (error) {
-        console.log("Could not find manager or counselors, using null");
+        console.log("Could not fetch counselors, teams or assignment rules, using null");
       }
 
       for (let i = 0; i < leads.length; i++) {
@@ -1207,13 +3353,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
               // Found exact match
               assignedCounselorId = matchedCounselor.id;
               assignedStage = "Yet to Contact";
-            } else if (defaultCounselor) {
-              // No match found, assign to default counselor (Likitha)
-              assignedCounselorId = defaultCounselor.id;
+            }
+          }
+
+          const preferredLanguage = leadData.preferredLanguage?.trim() || null;
+          if (!assignedCounselorId && assigner) {
+            const decision = assigner.assign({
+              country: leadData.normalizedCountry || leadData.country || null,
+              source: leadData.source || null,
+              intake: leadData.normalizedIntake || leadData.intake || null,
+              preferredLanguage
+            });
+            if (decision) {
+              assignedCounselorId = decision.counselorId;
               assignedStage = "Yet to Contact";
             }
           }
 
+          const custom = customFieldValuesFromRow(customFieldDefinitions, leadData.customFields);
+          custom.issues.forEach(issue => errors.push(`Row ${leadData.rowIndex || i + 1}: ${issue} - value skipped`));
+
           // Create lead with enhanced assignment logic
           const newLead = await storage.createLead({
             uid: leadData.uid || null,
@@ -1226,11 +3385,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             source: leadData.source,
             currentStage: leadData.currentStage || assignedStage,
             counselorId: assignedCounselorId,
-            managerId: managerId,
+            managerId: assignedCounselorId ? managersByCounselor.get(assignedCounselorId) ?? null : null,
             prevConsultancy: null,
             passportStatus: leadData.passportStatus || null,
             remarks: null, // We'll handle remarks separately
-            counsellors: leadData.counsellors || null
+            counsellors: leadData.counsellors || null,
+            preferredLanguage,
+            customFields: custom.values
           });
 
           // Create initial remarks entry from CSV if remarks exist
@@ -1238,7 +3399,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             try {
               await storage.createRemark({
                 leadId: newLead.id,
-                userId: assignedCounselorId || managerId || 1,
+                userId: assignedCounselorId || req.user!.id,
                 content: `CSV Import: ${leadData.remarks.trim()}`,
                 isVisible: true
               });
@@ -1254,7 +3415,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 leadId: newLead.id,
                 fromStage: null,
                 toStage: leadData.currentStage || assignedStage,
-                userId: assignedCounselorId || managerId || 1,
+                userId: assignedCounselorId || req.user!.id,
                 reason: `Initial import from CSV${assignedCounselorId ? ` - Assigned to counselor` : ''}`,
                 createdAt: leadData.leadCreatedDate && !leadData.defaultedDate ? 
                   new Date(leadData.leadCreatedDate) : new Date()
@@ -1270,6 +3431,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      await assigner?.commit();
+      await recordAudit(req, {
+        action: "import",
+        entityType: "lead",
+        details: { totalRows: leads.length, imported: importedLeads.length, failed: errors.length }
+      });
+      if (importedLeads.length > 0) {
+        queueDuplicateScan();
+        queueLeadRescore();
+      }
+
       res.json({
         success: true,
         imported: importedLeads.length,
@@ -1283,9 +3455,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard stats routes
-  app.get("/api/stats/overview", async (req, res) => {
+  // Both stats routes take ?tag=<id> (repeatable) to report on tagged leads only
+  app.get("/api/stats/overview", requireAdmin, async (req, res) => {
     try {
-      const allLeads = await storage.getAllLeads();
+      const tagIds = queryIdList(req.query.tag);
+      if (tagIds === null) {
+        return res.status(400).json({ error: "Invalid tag filter" });
+      }
+      const allLeads = tagIds
+        ? (await storage.getLeads({ tagIds, sortBy: "createdAt", sortDir: "desc" })).leads
+        : await storage.getAllLeads();
       const totalLeads = allLeads.length;
       const unassignedLeads = allLeads.filter(l => l.currentStage === "Yet to Assign").length;
       const activeCounselors = await storage.getAllCounselors();
@@ -1302,41 +3481,165 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Team-scoped overview for the manager dashboard
+  app.get("/api/stats/team", requireAuth, requireRole("manager"), async (req, res) => {
+    try {
+      const tagIds = queryIdList(req.query.tag);
+      if (tagIds === null) {
+        return res.status(400).json({ error: "Invalid tag filter" });
+      }
+      const [teamLeads, counselors] = await Promise.all([
+        tagIds
+          ? storage.getLeads({ managerId: req.user!.id, tagIds, sortBy: "createdAt", sortDir: "desc" }).then(r => r.leads)
+          : storage.getLeadsByManager(req.user!.id),
+        storage.getTeamCounselors(req.user!.id)
+      ]);
+      const totalLeads = teamLeads.length;
+
+      res.json({
+        totalLeads,
+        unassignedLeads: teamLeads.filter(l => !l.counselorId).length,
+        activeCounselors: counselors.filter(c => c.isActive).length,
+        conversionRate: totalLeads > 0 ? ((teamLeads.filter(l => l.currentStage === "Commission Received").length / totalLeads) * 100).toFixed(1) : "0.0",
+        counselors: counselors.map(c => {
+          const ownLeads = teamLeads.filter(l => l.counselorId === c.id);
+          return {
+            id: c.id,
+            name: c.name,
+            isActive: c.isActive,
+            totalLeads: ownLeads.length,
+            openLeads: ownLeads.filter(l => !CLOSED_LEAD_STAGES.includes(l.currentStage)).length
+          };
+        })
+      });
+    } catch (error) {
+      console.error("Get team stats error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Audit log routes
+  app.get("/api/audit-log", requireAdmin, async (req, res) => {
+    try {
+      const { actorId, entityType, entityId, action, from, to } = req.query;
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const pageSize = Math.min(200, Math.max(1, parseInt(req.query.pageSize as string) || 50));
+
+      const fromDate = parseDateParam(from);
+      const toDate = parseDateParam(to, true);
+      if (fromDate === null || toDate === null) {
+        return res.status(400).json({ error: "Invalid date filter" });
+      }
+
+      const { entries, total } = await storage.getAuditLogs({
+        actorId: actorId ? parseInt(actorId as string) : undefined,
+        entityType: entityType ? String(entityType) : undefined,
+        entityId: entityId ? String(entityId) : undefined,
+        action: action ? String(action) : undefined,
+        from: fromDate,
+        to: toDate,
+        limit: pageSize,
+        offset: (page - 1) * pageSize
+      });
+
+      res.json({ entries, total, page, pageSize });
+    } catch (error) {
+      console.error("Get audit log error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Document routes
-  app.get("/api/documents/:leadId", async (req, res) => {
+  app.get("/api/documents/:leadId", requireAuth, requireLeadAccess("leadId"), async (req, res) => {
     try {
       const leadId = parseInt(req.params.leadId);
       const documents = await storage.getDocumentsByLead(leadId);
-      res.json(documents);
+      res.json(documents.map(maskDocument));
     } catch (error) {
       console.error("Get documents error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/documents", async (req, res) => {
+  app.post("/api/documents", requireAuth, async (req, res) => {
     try {
-      const documentData = req.body;
-      const document = await storage.createDocument(documentData);
-      res.json(document);
+      const documentData = { ...req.body, uploadedBy: req.user!.id };
+      const access = await checkLeadAccess(req.user!, parseInt(documentData.leadId));
+      if (access === "not_found") {
+        return res.status(404).json({ error: "Lead not found" });
+      }
+      if (access === "forbidden") {
+        return denyLeadAccess(res);
+      }
+      const document = await storage.createDocument(encryptDocumentFields(documentData.documentType, documentData));
+      await rescoreLead(document.leadId);
+      await recordAudit(req, { action: "create", entityType: "document", entityId: document.id, before: null, after: document });
+      res.json(maskDocument(document));
     } catch (error) {
       console.error("Create document error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.patch("/api/documents/:id", async (req, res) => {
+  app.patch("/api/documents/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updateData = req.body;
-      const document = await storage.updateDocument(id, updateData);
-      res.json(document);
+      const existing = await storage.getDocument(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if ((await checkLeadAccess(req.user!, existing.leadId)) !== "ok") {
+        return denyLeadAccess(res);
+      }
+      // Documents cannot be moved to another lead
+      const { leadId: _, ...updateData } = req.body;
+      const documentType = updateData.documentType ?? existing.documentType;
+      if (isCredentialsDocument(documentType)) {
+        // Keep the stored ciphertext for unchanged fields so the audit diff only shows real edits
+        for (const field of ["documentUrl", "remarks"] as const) {
+          const stored = existing[field];
+          if (updateData[field] !== undefined && stored && decryptSecret(stored) === updateData[field]) {
+            updateData[field] = stored;
+          }
+        }
+      }
+      const document = await storage.updateDocument(id, encryptDocumentFields(documentType, updateData));
+      await rescoreLead(document.leadId);
+      await recordAudit(req, { action: "update", entityType: "document", entityId: document.id, before: existing, after: document });
+      res.json(maskDocument(document));
     } catch (error) {
       console.error("Update document error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // Decrypts an exam login document; every reveal is recorded in the audit log
+  app.post("/api/documents/:id/reveal", requireAuth, async (req, res) => {
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if ((await checkLeadAccess(req.user!, document.leadId)) !== "ok") {
+        return denyLeadAccess(res);
+      }
+      if (!isCredentialsDocument(document.documentType)) {
+        return res.status(400).json({ error: "This document does not hold credentials" });
+      }
+      const credentials = revealDocumentCredentials(document);
+      await recordAudit(req, {
+        action: "reveal_credentials",
+        entityType: "document",
+        entityId: document.id,
+        details: { leadId: document.leadId, documentType: document.documentType }
+      });
+      res.json(credentials);
+    } catch (error) {
+      console.error("Reveal document credentials error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
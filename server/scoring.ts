@@ -0,0 +1,241 @@
+import { storage, type LeadScoreInput } from "./storage";
+import {
+  SCORING_FACTORS,
+  type LeadScoreItem,
+  type ScoringFactor,
+  type ScoringRule,
+  type ScoringRuleConfig
+} from "@shared/schema";
+
+// Rule-based lead scoring. Each factor adds points for one signal (intake, country, source,
+// passport, last call outcome, documents, recent activity); the score is their sum, never below 0.
+// Scores are stored on the lead and recomputed after every event that can change them, plus a
+// periodic pass so time-based factors (intake, recency) keep up without any edits.
+
+const FIRST_RESCORE_DELAY_MS = 2 * 60 * 1000; // let the server finish starting up
+const RESCORE_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const RESCORE_BATCH_SIZE = 500;
+
+export type EffectiveScoringRule = Pick<ScoringRule, "factor" | "points" | "config" | "isActive"> & {
+  factor: ScoringFactor;
+  isDefault: boolean;
+};
+
+export const SCORING_FACTOR_LABELS: Record<ScoringFactor, string> = {
+  intake: "Intake proximity",
+  country: "Destination country",
+  source: "Lead source",
+  passport: "Passport status",
+  connect: "Last call outcome",
+  documents: "Document completeness",
+  recency: "Recent activity"
+};
+
+export const DEFAULT_SCORING_RULES: Record<ScoringFactor, { points: number; config: ScoringRuleConfig }> = {
+  intake: { points: 25, config: { fullWithin: 4, zeroAfter: 15 } },
+  country: {
+    points: 15,
+    config: {
+      values: {
+        UK: 15, GB: 15, "United Kingdom": 15, Ireland: 15, IE: 15, Germany: 12, DE: 12,
+        Canada: 10, CA: 10, Australia: 10, AU: 10, USA: 10, US: 10, "New Zealand": 8, Singapore: 8
+      }
+    }
+  },
+  source: { points: 10, config: { values: { Referral: 10, "Walk-in": 10, Website: 6, Event: 6, "Social Media": 3 } } },
+  passport: { points: 10, config: { values: { Yes: 10, Available: 10, Valid: 10, Applied: 5, "In Process": 5 } } },
+  connect: {
+    points: 20,
+    config: {
+      values: {
+        Interested: 20, "Session Scheduling": 20, "Yet to Decide": 8, "Call back": 8, "Casual Follow-up": 5,
+        "Planning later": 2, DNP: -5, "Call Rejected": -10, "Not Interested": -20, Irrelevant: -20
+      }
+    }
+  },
+  documents: {
+    points: 15,
+    config: {
+      requiredTypes: [
+        "10th Marksheet",
+        "12th Marksheet",
+        "Degree Certificate / Provisional degree",
+        "Passport with Address page / Main page",
+        "IELTS /TOEFL /PTE Score Cards"
+      ]
+    }
+  },
+  recency: { points: 15, config: { fullWithin: 3, zeroAfter: 30 } }
+};
+
+// Stored rules over the defaults, one per factor in SCORING_FACTORS order
+export function effectiveScoringRules(stored: ScoringRule[]): EffectiveScoringRule[] {
+  const byFactor = new Map(stored.map(r => [r.factor, r]));
+  return SCORING_FACTORS.map(factor => {
+    const rule = byFactor.get(factor);
+    return rule
+      ? { factor, points: rule.points, config: rule.config, isActive: rule.isActive, isDefault: false }
+      : { factor, ...DEFAULT_SCORING_RULES[factor], isActive: true, isDefault: true };
+  });
+}
+
+const SEASON_MONTHS: Record<string, number> = {
+  jan: 0, spring: 0, feb: 1, mar: 2, apr: 3, may: 4, summer: 4, jun: 5, jul: 6, aug: 7,
+  sep: 8, fall: 8, autumn: 8, oct: 9, nov: 10, dec: 11, winter: 11
+};
+
+// "2025-Fall", "Sep 2025", "January 2026" -> first day of that month; null if there is no year
+export function parseIntakeDate(intake: string | null): Date | null {
+  const year = intake?.match(/\d{4}/);
+  if (!intake || !year) return null;
+  const words = intake.toLowerCase().match(/[a-z]+/g) ?? [];
+  // No month or season given: assume the main (September) intake
+  const month = words.map(w => SEASON_MONTHS[w] ?? SEASON_MONTHS[w.slice(0, 3)]).find(m => m !== undefined) ?? 8;
+  return new Date(Date.UTC(parseInt(year[0]), month, 1));
+}
+
+// Full points up to `fullWithin`, none from `zeroAfter`, linear in between
+function decay(points: number, distance: number, config: ScoringRuleConfig): number {
+  const fullWithin = config.fullWithin ?? 0;
+  const zeroAfter = Math.max(config.zeroAfter ?? fullWithin, fullWithin);
+  if (distance <= fullWithin) return points;
+  if (distance >= zeroAfter) return 0;
+  return Math.round(points * (zeroAfter - distance) / (zeroAfter - fullWithin));
+}
+
+function lookup(config: ScoringRuleConfig, value: string | null): { key: string; points: number } | null {
+  if (!value) return null;
+  const wanted = value.trim().toLowerCase();
+  const entry = Object.entries(config.values ?? {}).find(([key]) => key.toLowerCase() === wanted);
+  return entry ? { key: value.trim(), points: entry[1] } : null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function scoreFactor(rule: EffectiveScoringRule, input: LeadScoreInput, now: Date): LeadScoreItem | null {
+  const { lead } = input;
+  switch (rule.factor) {
+    case "intake": {
+      const intakeDate = parseIntakeDate(lead.intake);
+      if (!intakeDate) return null;
+      const months = (intakeDate.getTime() - now.getTime()) / (30.44 * DAY_MS);
+      if (months < -1) return { factor: "intake", points: 0, detail: `${lead.intake} has passed` };
+      return { factor: "intake", points: decay(rule.points, Math.max(0, months), rule.config), detail: `${lead.intake} is ${Math.max(0, Math.round(months))} months away` };
+    }
+    case "country":
+    case "source":
+    case "passport":
+    case "connect": {
+      const value = rule.factor === "country" ? lead.country
+        : rule.factor === "source" ? lead.source
+        : rule.factor === "passport" ? lead.passportStatus
+        : input.lastConnectStatus;
+      const match = lookup(rule.config, value);
+      return match ? { factor: rule.factor, points: match.points, detail: match.key } : null;
+    }
+    case "documents": {
+      const required = rule.config.requiredTypes ?? [];
+      if (required.length === 0) return null;
+      const uploaded = required.filter(type => input.documentTypes.includes(type)).length;
+      return {
+        factor: "documents",
+        points: Math.round(rule.points * uploaded / required.length),
+        detail: `${uploaded} of ${required.length} key documents uploaded`
+      };
+    }
+    case "recency": {
+      const lastActivity = input.lastTaskAt && input.lastTaskAt > lead.updatedAt ? input.lastTaskAt : lead.updatedAt;
+      const days = Math.max(0, (now.getTime() - lastActivity.getTime()) / DAY_MS);
+      return { factor: "recency", points: decay(rule.points, days, rule.config), detail: `Last activity ${Math.floor(days)} days ago` };
+    }
+  }
+}
+
+export function computeLeadScore(
+  input: LeadScoreInput,
+  rules: EffectiveScoringRule[],
+  now = new Date()
+): { score: number; breakdown: LeadScoreItem[] } {
+  const breakdown = rules
+    .filter(rule => rule.isActive)
+    .map(rule => scoreFactor(rule, input, now))
+    .filter((item): item is LeadScoreItem => item !== null && item.points !== 0);
+  const score = Math.max(0, breakdown.reduce((sum, item) => sum + item.points, 0));
+  return { score, breakdown };
+}
+
+// Rescores the given leads, or every live lead when no ids are passed
+export async function rescoreLeads(leadIds?: number[]): Promise<number> {
+  const rules = effectiveScoringRules(await storage.getScoringRules());
+  let scored = 0;
+  for (let afterId = 0; ;) {
+    const inputs = await storage.getLeadScoreInputs({ leadIds, afterId, limit: RESCORE_BATCH_SIZE });
+    if (inputs.length === 0) break;
+    await storage.saveLeadScores(inputs.map(input => ({ leadId: input.lead.id, ...computeLeadScore(input, rules) })));
+    scored += inputs.length;
+    afterId = inputs[inputs.length - 1].lead.id;
+  }
+  return scored;
+}
+
+// Rescore after an edit to one lead, before the response goes out so the client refetches the new
+// score. A scoring failure is only logged; the edit itself already succeeded.
+export async function rescoreLead(leadId: number): Promise<void> {
+  try {
+    await rescoreLeads([leadId]);
+  } catch (error) {
+    console.error("Lead scoring error:", error);
+  }
+}
+
+// Fire-and-forget rescore, e.g. after an import or a rule change; failures are only logged
+export function queueLeadRescore(leadIds?: number[]): void {
+  rescoreLeads(leadIds).catch(error => console.error("Lead scoring error:", error));
+}
+
+export function startLeadScorer(): void {
+  setTimeout(() => queueLeadRescore(), FIRST_RESCORE_DELAY_MS).unref();
+  setInterval(() => queueLeadRescore(), RESCORE_INTERVAL_MS).unref();
+}
+
+// Validates an admin's change to one factor's rule
+export function parseScoringRule(
+  factor: ScoringFactor,
+  body: any
+): { rule: { points: number; config: ScoringRuleConfig; isActive: boolean } } | { error: string } {
+  const points = Number(body.points);
+  if (!Number.isInteger(points) || points < 0 || points > 100) {
+    return { error: "points must be a whole number from 0 to 100" };
+  }
+  const config: ScoringRuleConfig = {};
+  const input = body.config ?? {};
+
+  if (factor === "country" || factor === "source" || factor === "passport" || factor === "connect") {
+    if (typeof input.values !== "object" || input.values === null || Array.isArray(input.values)) {
+      return { error: "config.values must map values to points" };
+    }
+    config.values = {};
+    for (const [key, value] of Object.entries(input.values)) {
+      const valuePoints = Number(value);
+      if (!key.trim() || !Number.isInteger(valuePoints) || Math.abs(valuePoints) > 100) {
+        return { error: `Points for "${key}" must be a whole number from -100 to 100` };
+      }
+      config.values[key.trim()] = valuePoints;
+    }
+  } else if (factor === "intake" || factor === "recency") {
+    const fullWithin = Number(input.fullWithin);
+    const zeroAfter = Number(input.zeroAfter);
+    if (!Number.isFinite(fullWithin) || !Number.isFinite(zeroAfter) || fullWithin < 0 || zeroAfter < fullWithin) {
+      return { error: "config.fullWithin and config.zeroAfter must be numbers with fullWithin <= zeroAfter" };
+    }
+    config.fullWithin = fullWithin;
+    config.zeroAfter = zeroAfter;
+  } else if (factor === "documents") {
+    if (!Array.isArray(input.requiredTypes)) {
+      return { error: "config.requiredTypes must be a list of document types" };
+    }
+    config.requiredTypes = Array.from(new Set(input.requiredTypes.map((t: unknown) => String(t).trim()).filter(Boolean))) as string[];
+  }
+
+  return { rule: { points, config, isActive: body.isActive !== false } };
+}
@@ -1,26 +1,73 @@
 import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool, neonConfig } from "@neondatabase/serverless";
-import { eq, and, desc, sql, isNull } from "drizzle-orm";
+import { eq, ne, and, or, asc, desc, sql, ilike, isNull, isNotNull, gt, gte, lt, inArray, notInArray, type SQL, type AnyColumn } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import ws from "ws";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { Pool as PgPool } from "pg";
 import { 
   users, 
   leads, 
   tasks, 
   stageHistory, 
+  leadFieldChanges,
+  leadOwnershipChanges,
+  leadContacts,
   remarks, 
   universityApplications,
   documents,
+  setupRuns,
+  passwordResetTokens,
+  recoveryCodes,
+  teams,
+  auditLog,
+  leadDuplicates,
+  leadMerges,
+  customFields,
+  tags,
+  leadTags,
+  scoringRules,
+  assignmentRules,
+  savedViews,
+  savedViewDefaults,
+  CLOSED_LEAD_STAGES,
   type User, 
   type InsertUser, 
   type Lead,
   type InsertLead,
   type Task,
   type InsertTask,
+  type StageHistory,
   type InsertStageHistory,
+  type LeadFieldChange,
+  type LeadOwnershipChange,
+  type OwnershipChangeKind,
+  type Remark,
   type InsertRemark,
   type InsertUniversityApplication,
+  type UniversityApplication,
   type Document,
-  type InsertDocument
+  type InsertDocument,
+  type SetupRun,
+  type InsertSetupRun,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type Team,
+  type InsertTeam,
+  type AuditLog,
+  type InsertAuditLog,
+  type LeadDuplicate,
+  type LeadMerge,
+  type CustomField,
+  type InsertCustomField,
+  type Tag,
+  type ScoringRule,
+  type LeadScoreItem,
+  type AssignmentRule,
+  type SavedView,
+  type LeadContact,
+  type InsertLeadContact
 } from "@shared/schema";
 
 // Configure WebSocket for serverless environment
@@ -29,7 +76,166 @@ neonConfig.webSocketConstructor = ws;
 const pool = new Pool({ connectionString: process.env.DATABASE_URL! });
 export const db = drizzle(pool);
 
+const PostgresSessionStore = connectPg(session);
+
+export interface AuditLogFilters {
+  actorId?: number;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date; // exclusive
+  limit: number;
+  offset: number;
+}
+
+export type AuditLogEntry = AuditLog & { actorName: string | null };
+
+export const LEAD_SORT_FIELDS = ["createdAt", "updatedAt", "name", "currentStage", "country", "intake", "score"] as const;
+export type LeadSortField = (typeof LEAD_SORT_FIELDS)[number];
+
+export interface LeadFilters {
+  // Scope: set by the route from the caller's role, never straight from the query string
+  managerId?: number;
+  counselorId?: number | null; // null = unassigned leads only
+  stages?: string[];
+  countries?: string[];
+  intakes?: string[];
+  sources?: string[];
+  search?: string;
+  customFields?: Record<string, string[]>; // custom field key -> accepted values (any of them)
+  tagIds?: number[]; // leads carrying any of these tags
+  createdFrom?: Date;
+  createdTo?: Date; // exclusive
+  updatedFrom?: Date;
+  updatedTo?: Date; // exclusive
+  archived?: boolean; // true = only archived leads, otherwise archived leads are left out
+  sortBy: LeadSortField;
+  sortDir: "asc" | "desc";
+  // Omit both to get every matching lead
+  limit?: number;
+  offset?: number;
+}
+
+export const LEAD_SEARCH_FIELDS = ["name", "email", "phone", "uid", "remarks", "contact_phone"] as const;
+
+export interface LeadSearchResult {
+  lead: Pick<Lead, "id" | "name" | "email" | "phone" | "uid" | "currentStage" | "counselorId"> & { counselorName: string | null };
+  matchedField: (typeof LEAD_SEARCH_FIELDS)[number];
+  snippet: string;
+  score: number;
+}
+
+export interface DuplicatePair {
+  leadId: number;
+  duplicateLeadId: number;
+  reasons: string[];
+  score: number;
+}
+
+export type LeadFieldChangeEntry = LeadFieldChange & { changedByName: string | null };
+
+export type LeadOwnershipEntry = LeadOwnershipChange & {
+  fromCounselorName: string | null;
+  toCounselorName: string | null;
+  changedByName: string | null;
+};
+
+// A handover the receiving counselor has not acknowledged yet, on a lead they still own
+export type PendingHandover = LeadOwnershipEntry & { leadName: string };
+
+export type TagWithUsage = Tag & { leadCount: number };
+
+// List rows carry their counselor's name and tags so the lead tables need no request per lead
+export type LeadListRow = Lead & { counselorName: string | null; tags: Tag[] };
+
+// Everything the scoring engine looks at for one lead
+export interface LeadScoreInput {
+  lead: Pick<Lead, "id" | "intake" | "country" | "source" | "passportStatus" | "updatedAt">;
+  lastConnectStatus: string | null;
+  lastTaskAt: Date | null;
+  documentTypes: string[];
+}
+
+// The lead attributes assignment rules match on
+export type AssignableLead = Pick<Lead, "country" | "source" | "intake" | "preferredLanguage">;
+
+export type UnassignedLead = AssignableLead & Pick<Lead, "id" | "name" | "currentStage">;
+
+export type LeadOwnership = Pick<Lead, "id" | "counselorId" | "managerId" | "archivedAt">;
+
+export type SavedViewListRow = SavedView & { ownerName: string | null; isDefault: boolean };
+
+// What the lead export adds to each lead row beyond the lead's own columns
+export interface LeadExportDetail {
+  leadId: number;
+  latestRemark: Pick<Remark, "content" | "createdAt"> | null;
+  lastTask: Task | null;
+}
+
+// Event types merged into a lead's activity timeline (GET /api/leads/:id/timeline)
+export const LEAD_TIMELINE_EVENT_TYPES = [
+  "task", "stage_change", "remark", "field_change", "ownership", "university_application", "document"
+] as const;
+export type LeadTimelineEventType = (typeof LEAD_TIMELINE_EVENT_TYPES)[number];
+
+interface LeadTimelineEventData {
+  task: Task & { contactName: string | null };
+  stage_change: StageHistory;
+  remark: Remark;
+  field_change: LeadFieldChange;
+  ownership: LeadOwnershipEntry;
+  university_application: UniversityApplication;
+  document: Document;
+}
+
+// One entry of the timeline: when it happened, who did it, and the underlying row
+export type LeadTimelineEvent = {
+  [T in LeadTimelineEventType]: {
+    type: T;
+    id: number;
+    occurredAt: Date;
+    actorId: number | null;
+    actorName: string | null;
+    data: LeadTimelineEventData[T];
+  }
+}[LeadTimelineEventType];
+
+export interface LeadTimelineFilters {
+  types?: LeadTimelineEventType[];
+  limit: number;
+  offset: number;
+}
+
+// Lead fields the bulk update action may set; anything else is edited on the lead itself
+export const BULK_UPDATE_FIELDS = ["country", "course", "intake", "source", "passportStatus", "preferredLanguage", "prevConsultancy"] as const;
+export type BulkUpdateField = (typeof BULK_UPDATE_FIELDS)[number];
+
+export type BulkLeadAction =
+  | { type: "assign"; counselorId: number }
+  | { type: "stage"; stage: string; reason: string }
+  | { type: "update"; fields: Partial<Record<BulkUpdateField, string | null>> }
+  | { type: "archive"; reason: string };
+
+// "unchanged" when the lead already matched the action (e.g. already at that stage); no history is written for it
+export interface BulkLeadResult {
+  leadId: number;
+  status: "updated" | "unchanged";
+  before: Lead;
+  after: Lead;
+}
+
+export type LeadDuplicateWithLeads = LeadDuplicate & { lead: Lead; duplicateLead: Lead };
+
+export interface LeadFilterOptions {
+  countries: string[];
+  intakes: string[];
+  sources: string[];
+}
+
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -37,16 +243,134 @@ export interface IStorage {
   updateUser(id: number, user: Partial<InsertUser>): Promise<User>;
   getAllUsers(): Promise<User[]>;
   getAllCounselors(): Promise<User[]>;
+  hasActiveAdmin(): Promise<boolean>;
+  recordFailedLogin(id: number): Promise<User>;
+  resetLoginAttempts(id: number): Promise<void>;
+  
+  // Bootstrap audit methods
+  bootstrapAdmin(
+    admin: InsertUser,
+    run: Omit<InsertSetupRun, "method" | "adminUserId">,
+    allowExistingAdmin: boolean
+  ): Promise<{ admin: User; method: "first_admin" | "setup_token" } | { error: "setup_completed" | "email_taken" }>;
+  getSetupRuns(): Promise<SetupRun[]>;
+  
+  // Password reset methods
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
+  
+  // Two-factor recovery code methods
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  deleteRecoveryCodes(userId: number): Promise<void>;
+  consumeTotpStep(userId: number, step: number): Promise<boolean>;
+  
+  // Team methods
+  getAllTeams(): Promise<Team[]>;
+  getTeam(id: number): Promise<Team | undefined>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team>;
+  getTeamCounselors(managerId: number): Promise<User[]>;
+  getManagerIdForCounselor(counselorId: number): Promise<number | null>;
+  syncLeadManagers(counselorIds: number[]): Promise<void>;
+  
+  // Custom field definitions
+  getCustomFields(includeInactive?: boolean): Promise<CustomField[]>;
+  getCustomField(id: number): Promise<CustomField | undefined>;
+  createCustomField(field: InsertCustomField): Promise<CustomField>;
+  updateCustomField(id: number, field: Partial<InsertCustomField>): Promise<CustomField>;
+  
+  // Tag palette and lead tagging
+  getTags(): Promise<TagWithUsage[]>;
+  getTag(id: number): Promise<Tag | undefined>;
+  createTag(tag: Pick<Tag, "name" | "color">): Promise<Tag>;
+  updateTag(id: number, tag: Partial<Pick<Tag, "name" | "color">>): Promise<Tag>;
+  deleteTag(id: number): Promise<number>;
+  getLeadTags(leadId: number): Promise<Tag[]>;
+  addLeadTags(leadIds: number[], tagIds: number[], actorId: number): Promise<number>;
+  removeLeadTags(leadIds: number[], tagIds: number[]): Promise<number>;
+  
+  // Lead scoring
+  getScoringRules(): Promise<ScoringRule[]>;
+  saveScoringRule(rule: Omit<ScoringRule, "updatedAt">): Promise<ScoringRule>;
+  getLeadScoreInputs(batch: { leadIds?: number[]; afterId: number; limit: number }): Promise<LeadScoreInput[]>;
+  getLeadExportDetails(leadIds: number[]): Promise<LeadExportDetail[]>;
+  saveLeadScores(scores: { leadId: number; score: number; breakdown: LeadScoreItem[] }[]): Promise<void>;
+  
+  // Assignment rules
+  getAssignmentRules(): Promise<AssignmentRule[]>;
+  getAssignmentRule(id: number): Promise<AssignmentRule | undefined>;
+  createAssignmentRule(rule: Pick<AssignmentRule, "name" | "priority" | "conditions" | "strategy" | "targets" | "isActive" | "createdBy">): Promise<AssignmentRule>;
+  updateAssignmentRule(id: number, rule: Partial<Pick<AssignmentRule, "name" | "priority" | "conditions" | "strategy" | "targets" | "isActive">>): Promise<AssignmentRule>;
+  deleteAssignmentRule(id: number): Promise<void>;
+  recordRuleAssignments(ruleId: number, counts: Record<number, number>): Promise<void>;
+  getUnassignedLeads(limit: number): Promise<UnassignedLead[]>;
+  assignUnassignedLeads(assignments: { leadId: number; counselorId: number; ruleId: number }[], actorId: number, reason: string): Promise<number[]>;
+  
+  // Saved lead-list views
+  getSavedViews(userId: number): Promise<SavedViewListRow[]>;
+  getSavedView(id: number): Promise<SavedView | undefined>;
+  createSavedView(view: Pick<SavedView, "name" | "query" | "ownerId" | "isShared">): Promise<SavedView>;
+  updateSavedView(id: number, view: Partial<Pick<SavedView, "name" | "query" | "isShared">>): Promise<SavedView>;
+  deleteSavedView(id: number): Promise<void>;
+  setDefaultSavedView(userId: number, viewId: number | null): Promise<void>;
+  
+  // Audit log methods (append-only: there is deliberately no update or delete)
+  createAuditLog(entry: InsertAuditLog): Promise<void>;
+  getAuditLogs(filters: AuditLogFilters): Promise<{ entries: AuditLogEntry[]; total: number }>;
   
   // Lead methods
   getAllLeads(): Promise<Lead[]>;
+  getLeads(filters: LeadFilters): Promise<{ leads: LeadListRow[]; total: number }>;
+  getLeadFilterOptions(scope: Pick<LeadFilters, "managerId" | "counselorId">): Promise<LeadFilterOptions>;
+  findDuplicateLeadPairs(): Promise<DuplicatePair[]>;
+  saveLeadDuplicates(pairs: DuplicatePair[]): Promise<void>;
+  getPendingLeadDuplicates(): Promise<LeadDuplicateWithLeads[]>;
+  getLeadDuplicate(id: number): Promise<LeadDuplicate | undefined>;
+  dismissLeadDuplicate(id: number, actorId: number): Promise<void>;
+  mergeLeads(survivingLeadId: number, mergedLeadId: number, actorId: number): Promise<LeadMerge>;
+  searchLeads(term: string, scope: Pick<LeadFilters, "managerId" | "counselorId">, limit: number): Promise<LeadSearchResult[]>;
+  enableSearchExtensions(): Promise<void>;
   getLeadsByStage(stage: string): Promise<Lead[]>;
   getLeadsByCounselor(counselorId: number): Promise<Lead[]>;
+  getLeadsByManager(managerId: number): Promise<Lead[]>;
   getLead(id: number): Promise<Lead | undefined>;
+  getLeadOwnership(ids: number[]): Promise<LeadOwnership[]>;
   createLead(lead: InsertLead): Promise<Lead>;
-  updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead>;
-  assignLeadToCounselor(leadId: number, counselorId: number): Promise<void>;
+  updateLead(id: number, lead: Partial<InsertLead>, changedBy: number): Promise<Lead>;
+  getLeadFieldChanges(leadId: number): Promise<LeadFieldChangeEntry[]>;
+  getLeadOwnershipTimeline(leadId: number): Promise<LeadOwnershipEntry[]>;
+  getLeadTimeline(leadId: number, filters: LeadTimelineFilters): Promise<{
+    events: LeadTimelineEvent[];
+    total: number;
+    counts: Record<LeadTimelineEventType, number>;
+  }>;
+  getPendingHandovers(counselorId: number): Promise<PendingHandover[]>;
+  getOwnershipChange(id: number): Promise<LeadOwnershipChange | undefined>;
+  acknowledgeHandover(id: number): Promise<LeadOwnershipChange>;
+  handoverLead(leadId: number, toCounselorId: number, note: string, actorId: number): Promise<{ before: Lead; after: Lead; handover: LeadOwnershipChange }>;
+  assignLeadToCounselor(leadId: number, counselorId: number, actorId: number): Promise<void>;
+  applyBulkLeadAction(leadIds: number[], action: BulkLeadAction, actorId: number): Promise<BulkLeadResult[]>;
+  getOpenLeadsByCounselor(counselorId: number): Promise<Lead[]>;
+  getOpenLeadCountsByCounselor(): Promise<{ counselorId: number; openLeads: number }[]>;
+  deactivateUserWithReassignment(
+    userId: number,
+    assignments: { leadId: number; counselorId: number }[],
+    actorId: number
+  ): Promise<User>;
   updateLeadStage(leadId: number, newStage: string, userId: number, reason?: string): Promise<void>;
+  archiveLead(leadId: number, actorId: number, reason: string): Promise<Lead>;
+  restoreLead(leadId: number, actorId: number): Promise<Lead>;
+  purgeLead(leadId: number): Promise<Record<string, number>>;
+
+  // Lead contact methods
+  getLeadContacts(leadId: number): Promise<LeadContact[]>;
+  getLeadContact(id: number): Promise<LeadContact | undefined>;
+  createLeadContact(contact: InsertLeadContact): Promise<LeadContact>;
+  updateLeadContact(id: number, updates: Partial<InsertLeadContact>): Promise<LeadContact>;
+  deleteLeadContact(id: number): Promise<void>;
   
   // Task methods
   getTasksByLead(leadId: number): Promise<Task[]>;
@@ -61,16 +385,153 @@ export interface IStorage {
   createRemark(remark: InsertRemark): Promise<void>;
   
   // University applications
-  getUniversityApplications(leadId: number): Promise<any[]>;
+  getUniversityApplications(leadId: number): Promise<UniversityApplication[]>;
+  getAllUniversityApplications(): Promise<UniversityApplication[]>;
+  getUniversityApplication(id: number): Promise<UniversityApplication | undefined>;
   createUniversityApplication(app: InsertUniversityApplication): Promise<void>;
+  updateUniversityApplication(id: number, app: Partial<InsertUniversityApplication>): Promise<void>;
   
   // Document methods
+  getDocument(id: number): Promise<Document | undefined>;
   getDocumentsByLead(leadId: number): Promise<Document[]>;
+  getDocumentsByType(documentType: string): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: number, document: Partial<InsertDocument>): Promise<Document>;
 }
 
+// Columns of a lead list row: the lead plus its counselor's name (joined from users)
+const leadListColumns = {
+  id: leads.id,
+  uid: leads.uid,
+  name: leads.name,
+  email: leads.email,
+  phone: leads.phone,
+  country: leads.country,
+  course: leads.course,
+  intake: leads.intake,
+  source: leads.source,
+  currentStage: leads.currentStage,
+  counselorId: leads.counselorId,
+  managerId: leads.managerId,
+  prevConsultancy: leads.prevConsultancy,
+  passportStatus: leads.passportStatus,
+  remarks: leads.remarks,
+  counsellors: leads.counsellors,
+  preferredLanguage: leads.preferredLanguage,
+  customFields: leads.customFields,
+  archivedAt: leads.archivedAt,
+  archivedBy: leads.archivedBy,
+  archiveReason: leads.archiveReason,
+  score: leads.score,
+  scoreBreakdown: leads.scoreBreakdown,
+  scoredAt: leads.scoredAt,
+  counselorName: users.name,
+  createdAt: leads.createdAt,
+  updatedAt: leads.updatedAt,
+};
+
+// Names this similar (pg_trgm, 0..1) count as duplicates without a matching phone or email
+const DUPLICATE_NAME_SIMILARITY = 0.9;
+
+// Survivor fields that a merge fills in from the merged lead when they are empty
+const MERGE_FILL_FIELDS = [
+  "uid", "email", "country", "course", "intake", "source", "prevConsultancy", "passportStatus", "remarks", "counsellors", "preferredLanguage"
+] as const;
+
+// Lead columns that are not user-edited data and so never appear in the field change history
+const UNTRACKED_LEAD_FIELDS = new Set(["id", "createdAt", "updatedAt", "score", "scoreBreakdown", "scoredAt"]);
+
+// Field history stores every value as text; empty strings and null both mean "no value"
+function fieldValueText(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// One field history row per tracked field whose value the update actually changes
+function trackedFieldChanges(current: Lead, lead: Partial<InsertLead>, changedBy: number) {
+  return Object.entries(lead).flatMap(([field, value]) => {
+    if (value === undefined || UNTRACKED_LEAD_FIELDS.has(field) || !(field in current)) return [];
+    // Custom fields are recorded one key at a time, as "customFields.<key>"
+    const pairs: [string, unknown, unknown][] = field === "customFields"
+      ? Array.from(new Set([...Object.keys(current.customFields), ...Object.keys(lead.customFields ?? {})]))
+        .map(key => [`customFields.${key}`, current.customFields[key], lead.customFields?.[key]])
+      : [[field, current[field as keyof Lead], value]];
+    return pairs.flatMap(([name, before, after]) => {
+      const oldValue = fieldValueText(before);
+      const newValue = fieldValueText(after);
+      return oldValue === newValue ? [] : [{ leadId: current.id, field: name, oldValue, newValue, changedBy }];
+    });
+  });
+}
+
+// Ownership timeline row for a lead moving to a new counselor, stamped with its stage at the time
+function ownershipChange(
+  lead: Pick<Lead, "id" | "counselorId" | "currentStage">,
+  toCounselorId: number,
+  kind: OwnershipChangeKind,
+  changedBy: number,
+  note: string | null = null
+) {
+  return { leadId: lead.id, fromCounselorId: lead.counselorId, toCounselorId, kind, stage: lead.currentStage, note, changedBy };
+}
+
+// Any fixed number works; it only has to differ from other advisory locks taken on the database
+const SETUP_LOCK_KEY = 73_110_001;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Adds to a rule's per-counselor tallies; the row lock keeps concurrent imports from losing counts
+async function addRuleAssignmentCounts(tx: Transaction, ruleId: number, counts: Record<number, number>): Promise<void> {
+  const [rule] = await tx
+    .select({ assignedCounts: assignmentRules.assignedCounts })
+    .from(assignmentRules)
+    .where(eq(assignmentRules.id, ruleId))
+    .for("update");
+  if (!rule) return; // deleted in the meantime
+  const assignedCounts = { ...rule.assignedCounts };
+  for (const [counselorId, count] of Object.entries(counts)) {
+    assignedCounts[counselorId] = (assignedCounts[counselorId] ?? 0) + count;
+  }
+  await tx.update(assignmentRules).set({ assignedCounts }).where(eq(assignmentRules.id, ruleId));
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+// A window of remark text around the first search word, so results show why they matched
+function snippetAround(text: string, term: string, radius = 60): string {
+  const lower = text.toLowerCase();
+  const positions = term.toLowerCase().split(/\s+/).filter(Boolean).map(word => lower.indexOf(word)).filter(i => i >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, at - radius);
+  const end = Math.min(text.length, at + radius);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+// Unless a query asks for archived leads, it only sees live ones
+const notArchived = isNull(leads.archivedAt);
+
+function leadScopeConditions(scope: Pick<LeadFilters, "managerId" | "counselorId">): SQL[] {
+  const conditions: SQL[] = [];
+  if (scope.managerId !== undefined) conditions.push(eq(leads.managerId, scope.managerId));
+  if (scope.counselorId === null) conditions.push(isNull(leads.counselorId));
+  else if (scope.counselorId !== undefined) conditions.push(eq(leads.counselorId, scope.counselorId));
+  return conditions;
+}
+
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      // neon's Pool is API-compatible with pg's, which is what connect-pg-simple is typed against
+      pool: pool as unknown as PgPool,
+      createTableIfMissing: true,
+    });
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.id, id));
     return result[0];
@@ -99,6 +560,564 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users).where(eq(users.role, "counselor"));
   }
 
+  async hasActiveAdmin(): Promise<boolean> {
+    const result = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.role, "admin"), eq(users.isActive, true)))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async recordFailedLogin(id: number): Promise<User> {
+    const result = await db
+      .update(users)
+      .set({
+        failedLoginAttempts: sql`${users.failedLoginAttempts} + 1`,
+        lastFailedLoginAt: new Date()
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async resetLoginAttempts(id: number): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
+  // Creates the setup admin and its setup_runs row. The transaction-scoped advisory lock makes
+  // concurrent bootstrap requests take turns, so on a fresh install only the first one finds no admin.
+  async bootstrapAdmin(
+    admin: InsertUser,
+    run: Omit<InsertSetupRun, "method" | "adminUserId">,
+    allowExistingAdmin: boolean
+  ): Promise<{ admin: User; method: "first_admin" | "setup_token" } | { error: "setup_completed" | "email_taken" }> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${SETUP_LOCK_KEY})`);
+      const [existingAdmin] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.role, "admin"), eq(users.isActive, true)))
+        .limit(1);
+      if (existingAdmin && !allowExistingAdmin) return { error: "setup_completed" as const };
+      const [taken] = await tx.select({ id: users.id }).from(users).where(eq(users.email, admin.email));
+      if (taken) return { error: "email_taken" as const };
+
+      const [created] = await tx.insert(users).values(admin).returning();
+      const method = existingAdmin ? "setup_token" as const : "first_admin" as const;
+      await tx.insert(setupRuns).values({ ...run, method, adminUserId: created.id });
+      return { admin: created, method };
+    });
+  }
+
+  async getSetupRuns(): Promise<SetupRun[]> {
+    return await db.select().from(setupRuns).orderBy(desc(setupRuns.createdAt));
+  }
+
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const result = await db.insert(passwordResetTokens).values(token).returning();
+    return result[0];
+  }
+
+  async getValidPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const result = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ));
+    return result[0];
+  }
+
+  // Returns false when the token was already consumed by a concurrent request
+  async markPasswordResetTokenUsed(id: number): Promise<boolean> {
+    const result = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return result.length > 0;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      await db.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    }
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning({ id: recoveryCodes.id });
+    return result.length > 0;
+  }
+
+  async deleteRecoveryCodes(userId: number): Promise<void> {
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  }
+
+  // Records an accepted authenticator code's time step. Only succeeds when the step is newer than
+  // the last one used, in a single statement, so two requests with the same code can't both pass.
+  async consumeTotpStep(userId: number, step: number): Promise<boolean> {
+    const result = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+      ))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  async getAllTeams(): Promise<Team[]> {
+    return await db.select().from(teams).orderBy(teams.name);
+  }
+
+  async getTeam(id: number): Promise<Team | undefined> {
+    const result = await db.select().from(teams).where(eq(teams.id, id));
+    return result[0];
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const result = await db.insert(teams).values(team).returning();
+    return result[0];
+  }
+
+  async updateTeam(id: number, team: Partial<InsertTeam>): Promise<Team> {
+    const result = await db.update(teams).set(team).where(eq(teams.id, id)).returning();
+    return result[0];
+  }
+
+  // Counselors in every team the given user manages
+  async getTeamCounselors(managerId: number): Promise<User[]> {
+    const result = await db
+      .select({ user: users })
+      .from(users)
+      .innerJoin(teams, eq(users.teamId, teams.id))
+      .where(and(eq(teams.managerId, managerId), eq(users.role, "counselor")));
+    return result.map(r => r.user);
+  }
+
+  async getManagerIdForCounselor(counselorId: number): Promise<number | null> {
+    const result = await db
+      .select({ managerId: teams.managerId })
+      .from(users)
+      .innerJoin(teams, eq(users.teamId, teams.id))
+      .where(eq(users.id, counselorId));
+    return result[0]?.managerId ?? null;
+  }
+
+  // Re-derives leads.managerId from the counselor's current team after team or membership changes
+  async syncLeadManagers(counselorIds: number[]): Promise<void> {
+    if (counselorIds.length === 0) return;
+    await db.update(leads).set({
+      managerId: sql`(
+        select ${teams.managerId} from ${users}
+        inner join ${teams} on ${users.teamId} = ${teams.id}
+        where ${users.id} = ${leads.counselorId}
+      )`
+    }).where(inArray(leads.counselorId, counselorIds));
+  }
+
+  async getCustomFields(includeInactive = false): Promise<CustomField[]> {
+    return await db
+      .select()
+      .from(customFields)
+      .where(includeInactive ? undefined : eq(customFields.isActive, true))
+      .orderBy(asc(customFields.sortOrder), asc(customFields.id));
+  }
+
+  async getCustomField(id: number): Promise<CustomField | undefined> {
+    const result = await db.select().from(customFields).where(eq(customFields.id, id));
+    return result[0];
+  }
+
+  async createCustomField(field: InsertCustomField): Promise<CustomField> {
+    const result = await db.insert(customFields).values(field).returning();
+    return result[0];
+  }
+
+  async updateCustomField(id: number, field: Partial<InsertCustomField>): Promise<CustomField> {
+    const result = await db.update(customFields).set({ ...field, updatedAt: new Date() }).where(eq(customFields.id, id)).returning();
+    return result[0];
+  }
+
+  async getTags(): Promise<TagWithUsage[]> {
+    return await db
+      .select({
+        id: tags.id,
+        name: tags.name,
+        color: tags.color,
+        createdAt: tags.createdAt,
+        updatedAt: tags.updatedAt,
+        leadCount: sql<number>`(select count(*)::int from ${leadTags} where ${leadTags.tagId} = ${tags.id})`
+      })
+      .from(tags)
+      .orderBy(asc(tags.name));
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    const result = await db.select().from(tags).where(eq(tags.id, id));
+    return result[0];
+  }
+
+  async createTag(tag: Pick<Tag, "name" | "color">): Promise<Tag> {
+    const result = await db.insert(tags).values(tag).returning();
+    return result[0];
+  }
+
+  async updateTag(id: number, tag: Partial<Pick<Tag, "name" | "color">>): Promise<Tag> {
+    const result = await db.update(tags).set({ ...tag, updatedAt: new Date() }).where(eq(tags.id, id)).returning();
+    return result[0];
+  }
+
+  // Deleting a tag takes it off every lead; returns how many leads had it
+  async deleteTag(id: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const untagged = await tx.delete(leadTags).where(eq(leadTags.tagId, id)).returning({ id: leadTags.id });
+      await tx.delete(tags).where(eq(tags.id, id));
+      return untagged.length;
+    });
+  }
+
+  async getLeadTags(leadId: number): Promise<Tag[]> {
+    const rows = await db
+      .select({ tag: tags })
+      .from(leadTags)
+      .innerJoin(tags, eq(leadTags.tagId, tags.id))
+      .where(eq(leadTags.leadId, leadId))
+      .orderBy(asc(tags.name));
+    return rows.map(r => r.tag);
+  }
+
+  // Tags every lead with every tag; pairs that already exist are skipped. Returns the rows added.
+  async addLeadTags(leadIds: number[], tagIds: number[], actorId: number): Promise<number> {
+    if (leadIds.length === 0 || tagIds.length === 0) return 0;
+    const rows = leadIds.flatMap(leadId => tagIds.map(tagId => ({ leadId, tagId, taggedBy: actorId })));
+    const added = await db.insert(leadTags).values(rows).onConflictDoNothing().returning({ id: leadTags.id });
+    return added.length;
+  }
+
+  async removeLeadTags(leadIds: number[], tagIds: number[]): Promise<number> {
+    if (leadIds.length === 0 || tagIds.length === 0) return 0;
+    const removed = await db
+      .delete(leadTags)
+      .where(and(inArray(leadTags.leadId, leadIds), inArray(leadTags.tagId, tagIds)))
+      .returning({ id: leadTags.id });
+    return removed.length;
+  }
+
+  async getScoringRules(): Promise<ScoringRule[]> {
+    return await db.select().from(scoringRules);
+  }
+
+  async saveScoringRule(rule: Omit<ScoringRule, "updatedAt">): Promise<ScoringRule> {
+    const values = { ...rule, updatedAt: new Date() };
+    const result = await db.insert(scoringRules).values(values)
+      .onConflictDoUpdate({ target: scoringRules.factor, set: values })
+      .returning();
+    return result[0];
+  }
+
+  // Latest visible remark and latest task of each lead, one query each
+  async getLeadExportDetails(leadIds: number[]): Promise<LeadExportDetail[]> {
+    if (leadIds.length === 0) return [];
+    const [latestRemarks, lastTasks] = await Promise.all([
+      db
+        .selectDistinctOn([remarks.leadId], { leadId: remarks.leadId, content: remarks.content, createdAt: remarks.createdAt })
+        .from(remarks)
+        .where(and(inArray(remarks.leadId, leadIds), eq(remarks.isVisible, true)))
+        .orderBy(remarks.leadId, desc(remarks.createdAt), desc(remarks.id)),
+      db
+        .selectDistinctOn([tasks.leadId])
+        .from(tasks)
+        .where(inArray(tasks.leadId, leadIds))
+        .orderBy(tasks.leadId, desc(tasks.createdAt), desc(tasks.id))
+    ]);
+    const remarksByLead = new Map(latestRemarks.map(({ leadId, ...remark }) => [leadId, remark]));
+    const tasksByLead = new Map(lastTasks.map(task => [task.leadId, task]));
+    return leadIds.map(leadId => ({
+      leadId,
+      latestRemark: remarksByLead.get(leadId) ?? null,
+      lastTask: tasksByLead.get(leadId) ?? null
+    }));
+  }
+
+  // Live leads in id order, one batch at a time, with their latest call outcome and uploaded document types
+  async getLeadScoreInputs(batch: { leadIds?: number[]; afterId: number; limit: number }): Promise<LeadScoreInput[]> {
+    if (batch.leadIds?.length === 0) return [];
+    const rows = await db
+      .select({
+        id: leads.id,
+        intake: leads.intake,
+        country: leads.country,
+        source: leads.source,
+        passportStatus: leads.passportStatus,
+        updatedAt: leads.updatedAt,
+        lastConnectStatus: sql<string | null>`(
+          select ${tasks.connectStatus} from ${tasks}
+          where ${tasks.leadId} = ${leads.id} and ${tasks.connectStatus} is not null and ${tasks.connectStatus} <> ''
+          order by ${tasks.createdAt} desc limit 1
+        )`,
+        lastTaskAt: sql<string | null>`(select max(${tasks.createdAt}) from ${tasks} where ${tasks.leadId} = ${leads.id})`,
+        documentTypes: sql<string[]>`coalesce((
+          select array_agg(distinct ${documents.documentType}) from ${documents} where ${documents.leadId} = ${leads.id}
+        ), '{}')`
+      })
+      .from(leads)
+      .where(and(
+        notArchived,
+        gt(leads.id, batch.afterId),
+        batch.leadIds ? inArray(leads.id, batch.leadIds) : undefined
+      ))
+      .orderBy(asc(leads.id))
+      .limit(batch.limit);
+
+    return rows.map(({ lastConnectStatus, lastTaskAt, documentTypes, ...lead }) => ({
+      lead,
+      lastConnectStatus,
+      lastTaskAt: lastTaskAt ? new Date(lastTaskAt) : null,
+      documentTypes
+    }));
+  }
+
+  // Scores are derived data: saving them leaves updatedAt and the field change history alone
+  async saveLeadScores(scores: { leadId: number; score: number; breakdown: LeadScoreItem[] }[]): Promise<void> {
+    if (scores.length === 0) return;
+    const scoredAt = new Date();
+    await db.transaction(async (tx) => {
+      for (const { leadId, score, breakdown } of scores) {
+        await tx.update(leads).set({ score, scoreBreakdown: breakdown, scoredAt }).where(eq(leads.id, leadId));
+      }
+    });
+  }
+
+  async getAssignmentRules(): Promise<AssignmentRule[]> {
+    return await db.select().from(assignmentRules).orderBy(asc(assignmentRules.priority), asc(assignmentRules.id));
+  }
+
+  async getAssignmentRule(id: number): Promise<AssignmentRule | undefined> {
+    const result = await db.select().from(assignmentRules).where(eq(assignmentRules.id, id));
+    return result[0];
+  }
+
+  async createAssignmentRule(
+    rule: Pick<AssignmentRule, "name" | "priority" | "conditions" | "strategy" | "targets" | "isActive" | "createdBy">
+  ): Promise<AssignmentRule> {
+    const result = await db.insert(assignmentRules).values(rule).returning();
+    return result[0];
+  }
+
+  // Any edit restarts the rule's distribution, so a newly added counselor is not flooded to catch up
+  async updateAssignmentRule(
+    id: number,
+    rule: Partial<Pick<AssignmentRule, "name" | "priority" | "conditions" | "strategy" | "targets" | "isActive">>
+  ): Promise<AssignmentRule> {
+    const result = await db.update(assignmentRules)
+      .set({ ...rule, assignedCounts: {}, updatedAt: new Date() })
+      .where(eq(assignmentRules.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteAssignmentRule(id: number): Promise<void> {
+    await db.delete(assignmentRules).where(eq(assignmentRules.id, id));
+  }
+
+  async recordRuleAssignments(ruleId: number, counts: Record<number, number>): Promise<void> {
+    await db.transaction(tx => addRuleAssignmentCounts(tx, ruleId, counts));
+  }
+
+  // Open live leads without a counselor, oldest first
+  async getUnassignedLeads(limit: number): Promise<UnassignedLead[]> {
+    return await db
+      .select({
+        id: leads.id,
+        name: leads.name,
+        currentStage: leads.currentStage,
+        country: leads.country,
+        source: leads.source,
+        intake: leads.intake,
+        preferredLanguage: leads.preferredLanguage
+      })
+      .from(leads)
+      .where(and(isNull(leads.counselorId), notInArray(leads.currentStage, CLOSED_LEAD_STAGES), notArchived))
+      .orderBy(asc(leads.createdAt), asc(leads.id))
+      .limit(limit);
+  }
+
+  // Gives unassigned leads their counselors and adds them to their rules' tallies in one transaction.
+  // Returns the leads that have been assigned or archived since the assignments were proposed; if
+  // there are any, nothing is saved. "Yet to Assign" moves on to "Yet to Contact".
+  async assignUnassignedLeads(
+    assignments: { leadId: number; counselorId: number; ruleId: number }[],
+    actorId: number,
+    reason: string
+  ): Promise<number[]> {
+    if (assignments.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      const targets = await tx
+        .select({ id: users.id, managerId: teams.managerId })
+        .from(users)
+        .leftJoin(teams, eq(users.teamId, teams.id))
+        .where(inArray(users.id, Array.from(new Set(assignments.map(a => a.counselorId)))));
+      const managersById = new Map(targets.map(t => [t.id, t.managerId]));
+
+      // Locked so a concurrent assignment can't slip in between the check and the update
+      const affected = await tx
+        .select({ id: leads.id, currentStage: leads.currentStage, counselorId: leads.counselorId, archivedAt: leads.archivedAt })
+        .from(leads)
+        .where(inArray(leads.id, assignments.map(a => a.leadId)))
+        .for("update");
+      const leadsById = new Map(affected.map(l => [l.id, l]));
+
+      const conflicts = assignments
+        .filter(({ leadId }) => {
+          const lead = leadsById.get(leadId);
+          return !lead || lead.counselorId !== null || lead.archivedAt;
+        })
+        .map(a => a.leadId);
+      if (conflicts.length > 0) return conflicts;
+
+      const byRule = new Map<number, Record<number, number>>();
+      for (const { leadId, counselorId, ruleId } of assignments) {
+        const lead = leadsById.get(leadId)!;
+        const toStage = lead.currentStage === "Yet to Assign" ? "Yet to Contact" : lead.currentStage;
+
+        await tx.update(leads).set({
+          counselorId,
+          managerId: managersById.get(counselorId) ?? null,
+          currentStage: toStage,
+          updatedAt: new Date()
+        }).where(eq(leads.id, leadId));
+
+        await tx.insert(stageHistory).values({
+          leadId,
+          fromStage: lead.currentStage,
+          toStage,
+          userId: actorId,
+          reason
+        });
+        await tx.insert(leadOwnershipChanges).values(
+          ownershipChange(lead, counselorId, "assignment_rules", actorId)
+        );
+
+        const counts = byRule.get(ruleId) ?? {};
+        counts[counselorId] = (counts[counselorId] ?? 0) + 1;
+        byRule.set(ruleId, counts);
+      }
+      for (const [ruleId, counts] of Array.from(byRule)) {
+        await addRuleAssignmentCounts(tx, ruleId, counts);
+      }
+      return [];
+    });
+  }
+
+  // The user's own views plus everyone's shared ones, by name
+  async getSavedViews(userId: number): Promise<SavedViewListRow[]> {
+    const rows = await db
+      .select({ view: savedViews, ownerName: users.name, defaultViewId: savedViewDefaults.viewId })
+      .from(savedViews)
+      .leftJoin(users, eq(savedViews.ownerId, users.id))
+      .leftJoin(savedViewDefaults, and(eq(savedViewDefaults.userId, userId), eq(savedViewDefaults.viewId, savedViews.id)))
+      .where(or(eq(savedViews.ownerId, userId), eq(savedViews.isShared, true)))
+      .orderBy(asc(savedViews.name), asc(savedViews.id));
+    return rows.map(r => ({ ...r.view, ownerName: r.ownerName, isDefault: r.defaultViewId !== null }));
+  }
+
+  async getSavedView(id: number): Promise<SavedView | undefined> {
+    const result = await db.select().from(savedViews).where(eq(savedViews.id, id));
+    return result[0];
+  }
+
+  async createSavedView(view: Pick<SavedView, "name" | "query" | "ownerId" | "isShared">): Promise<SavedView> {
+    const result = await db.insert(savedViews).values(view).returning();
+    return result[0];
+  }
+
+  // Unsharing a view also takes it away as other users' default
+  async updateSavedView(id: number, view: Partial<Pick<SavedView, "name" | "query" | "isShared">>): Promise<SavedView> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(savedViews).set({ ...view, updatedAt: new Date() }).where(eq(savedViews.id, id)).returning();
+      if (view.isShared === false) {
+        await tx.delete(savedViewDefaults).where(and(
+          eq(savedViewDefaults.viewId, id),
+          ne(savedViewDefaults.userId, updated.ownerId)
+        ));
+      }
+      return updated;
+    });
+  }
+
+  // Also clears it as anyone's default
+  async deleteSavedView(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(savedViewDefaults).where(eq(savedViewDefaults.viewId, id));
+      await tx.delete(savedViews).where(eq(savedViews.id, id));
+    });
+  }
+
+  async setDefaultSavedView(userId: number, viewId: number | null): Promise<void> {
+    if (viewId === null) {
+      await db.delete(savedViewDefaults).where(eq(savedViewDefaults.userId, userId));
+      return;
+    }
+    await db.insert(savedViewDefaults).values({ userId, viewId })
+      .onConflictDoUpdate({ target: savedViewDefaults.userId, set: { viewId } });
+  }
+
+  async createAuditLog(entry: InsertAuditLog): Promise<void> {
+    await db.insert(auditLog).values(entry);
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.actorId !== undefined) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(auditLog.createdAt, filters.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [entries, [{ total }]] = await Promise.all([
+      db
+        .select({ entry: auditLog, actorName: users.name })
+        .from(auditLog)
+        .leftJoin(users, eq(auditLog.actorId, users.id))
+        .where(where)
+        .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(auditLog).where(where)
+    ]);
+
+    return {
+      entries: entries.map(r => ({ ...r.entry, actorName: r.actorName })),
+      total
+    };
+  }
+
   async getAllLeads(): Promise<Lead[]> {
     return await db
       .select({
@@ -118,15 +1137,370 @@ export class DatabaseStorage implements IStorage {
         passportStatus: leads.passportStatus,
         remarks: leads.remarks,
         counsellors: leads.counsellors,
+        preferredLanguage: leads.preferredLanguage,
+        customFields: leads.customFields,
+        archivedAt: leads.archivedAt,
+        archivedBy: leads.archivedBy,
+        archiveReason: leads.archiveReason,
+        score: leads.score,
+        scoreBreakdown: leads.scoreBreakdown,
+        scoredAt: leads.scoredAt,
         counselorName: users.name,
         createdAt: leads.createdAt,
         updatedAt: leads.updatedAt,
       })
       .from(leads)
       .leftJoin(users, eq(leads.counselorId, users.id))
+      .where(notArchived)
       .orderBy(desc(leads.createdAt));
   }
 
+  async getLeads(filters: LeadFilters): Promise<{ leads: LeadListRow[]; total: number }> {
+    const conditions = leadScopeConditions(filters);
+    conditions.push(filters.archived ? isNotNull(leads.archivedAt) : notArchived);
+    if (filters.stages?.length) conditions.push(inArray(leads.currentStage, filters.stages));
+    if (filters.countries?.length) conditions.push(inArray(leads.country, filters.countries));
+    if (filters.intakes?.length) conditions.push(inArray(leads.intake, filters.intakes));
+    if (filters.sources?.length) conditions.push(inArray(leads.source, filters.sources));
+    if (filters.search) {
+      const pattern = `%${escapeLike(filters.search)}%`;
+      const digits = filters.search.replace(/\D/g, "");
+      conditions.push(or(
+        ilike(leads.name, pattern),
+        ilike(leads.email, pattern),
+        ilike(leads.phone, pattern),
+        ilike(leads.uid, pattern),
+        digits.length >= 3 ? sql`regexp_replace(${leads.phone}, '[^0-9]', '', 'g') like ${`%${digits}%`}` : undefined,
+        digits.length >= 3
+          ? sql`exists (select 1 from ${leadContacts} where ${leadContacts.leadId} = ${leads.id}
+              and regexp_replace(${leadContacts.phone}, '[^0-9]', '', 'g') like ${`%${digits}%`})`
+          : undefined
+      )!);
+    }
+    for (const [key, values] of Object.entries(filters.customFields ?? {})) {
+      // Matches a single value (text, number, date, select) or any element of a multiselect array
+      const list = sql.join(values.map(value => sql`${value}`), sql`, `);
+      conditions.push(sql`(${leads.customFields}->>${key} in (${list}) or ${leads.customFields}->${key} ?| array[${list}]::text[])`);
+    }
+    if (filters.tagIds?.length) {
+      conditions.push(sql`exists (select 1 from ${leadTags} where ${leadTags.leadId} = ${leads.id} and ${inArray(leadTags.tagId, filters.tagIds)})`);
+    }
+    if (filters.createdFrom) conditions.push(gte(leads.createdAt, filters.createdFrom));
+    if (filters.createdTo) conditions.push(lt(leads.createdAt, filters.createdTo));
+    if (filters.updatedFrom) conditions.push(gte(leads.updatedAt, filters.updatedFrom));
+    if (filters.updatedTo) conditions.push(lt(leads.updatedAt, filters.updatedTo));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const direction = filters.sortDir === "asc" ? asc : desc;
+    let query = db
+      .select(leadListColumns)
+      .from(leads)
+      .leftJoin(users, eq(leads.counselorId, users.id))
+      .where(where)
+      // id breaks ties so pages never overlap or skip rows
+      .orderBy(direction(leads[filters.sortBy]), direction(leads.id))
+      .$dynamic();
+    if (filters.limit !== undefined) query = query.limit(filters.limit);
+    if (filters.offset !== undefined) query = query.offset(filters.offset);
+
+    const [rows, [{ total }]] = await Promise.all([
+      query,
+      db.select({ total: sql<number>`count(*)::int` }).from(leads).where(where)
+    ]);
+
+    const tagRows = rows.length > 0
+      ? await db
+        .select({ leadId: leadTags.leadId, tag: tags })
+        .from(leadTags)
+        .innerJoin(tags, eq(leadTags.tagId, tags.id))
+        .where(inArray(leadTags.leadId, rows.map(r => r.id)))
+        .orderBy(asc(tags.name))
+      : [];
+    const tagsByLead = new Map<number, Tag[]>();
+    for (const { leadId, tag } of tagRows) {
+      tagsByLead.set(leadId, [...(tagsByLead.get(leadId) ?? []), tag]);
+    }
+    return { leads: rows.map(r => ({ ...r, tags: tagsByLead.get(r.id) ?? [] })), total };
+  }
+
+  async getLeadFilterOptions(scope: Pick<LeadFilters, "managerId" | "counselorId">): Promise<LeadFilterOptions> {
+    const conditions = leadScopeConditions(scope);
+    const distinctValues = async (column: typeof leads.country | typeof leads.intake | typeof leads.source) => {
+      const rows = await db
+        .selectDistinct({ value: column })
+        .from(leads)
+        .where(and(...conditions, notArchived, sql`${column} is not null and ${column} <> ''`))
+        .orderBy(column);
+      return rows.map(r => r.value as string);
+    };
+    const [countries, intakes, sources] = await Promise.all([
+      distinctValues(leads.country),
+      distinctValues(leads.intake),
+      distinctValues(leads.source)
+    ]);
+    return { countries, intakes, sources };
+  }
+
+  // Candidate duplicate pairs across the whole leads table: same phone (last 10 digits,
+  // formatting ignored), same email (case-insensitive) or a near-identical name
+  async findDuplicateLeadPairs(): Promise<DuplicatePair[]> {
+    const phoneKey = (column: AnyColumn) => sql`right(regexp_replace(${column}, '[^0-9]', '', 'g'), 10)`;
+    const a = alias(leads, "a");
+    const b = alias(leads, "b");
+
+    const rows = await db.transaction(async (tx) => {
+      // Lets the name trigram index pre-filter on the 0.9 similarity we require anyway
+      await tx.execute(sql`select set_config('pg_trgm.similarity_threshold', ${String(DUPLICATE_NAME_SIMILARITY)}, true)`);
+      return await tx
+        .select({
+          leadId: a.id,
+          duplicateLeadId: b.id,
+          phoneMatch: sql<boolean>`length(${phoneKey(a.phone)}) >= 7 and ${phoneKey(a.phone)} = ${phoneKey(b.phone)}`,
+          emailMatch: sql<boolean>`coalesce(lower(trim(${a.email})) = lower(trim(${b.email})) and trim(${a.email}) <> '', false)`,
+          nameSimilarity: sql<number>`similarity(${a.name}, ${b.name})::float8`,
+        })
+        .from(a)
+        .innerJoin(b, and(
+          lt(a.id, b.id),
+          isNull(b.archivedAt),
+          or(
+            sql`length(${phoneKey(a.phone)}) >= 7 and ${phoneKey(a.phone)} = ${phoneKey(b.phone)}`,
+            sql`trim(${a.email}) <> '' and lower(trim(${a.email})) = lower(trim(${b.email}))`,
+            sql`${a.name} % ${b.name}`
+          )
+        ))
+        .where(isNull(a.archivedAt));
+    });
+
+    return rows.flatMap(row => {
+      const reasons: string[] = [];
+      let score = 0;
+      if (row.phoneMatch) { reasons.push("phone"); score += 0.6; }
+      if (row.emailMatch) { reasons.push("email"); score += 0.6; }
+      // A similar name backs up a phone/email match; on its own it must be near-identical
+      if (row.nameSimilarity >= (reasons.length > 0 ? 0.6 : DUPLICATE_NAME_SIMILARITY)) {
+        reasons.push("name");
+        score += 0.4 * row.nameSimilarity;
+      }
+      if (reasons.length === 0) return [];
+      return [{ leadId: row.leadId, duplicateLeadId: row.duplicateLeadId, reasons, score: Math.min(1, score) }];
+    });
+  }
+
+  // Dismissed pairs stay dismissed; pending ones get their reasons refreshed
+  async saveLeadDuplicates(pairs: DuplicatePair[]): Promise<void> {
+    for (let i = 0; i < pairs.length; i += 500) {
+      await db.insert(leadDuplicates)
+        .values(pairs.slice(i, i + 500))
+        .onConflictDoUpdate({
+          target: [leadDuplicates.leadId, leadDuplicates.duplicateLeadId],
+          set: { reasons: sql`excluded.reasons`, score: sql`excluded.score` },
+          setWhere: eq(leadDuplicates.status, "pending")
+        });
+    }
+  }
+
+  async getPendingLeadDuplicates(): Promise<LeadDuplicateWithLeads[]> {
+    const duplicateLeads = alias(leads, "duplicate_leads");
+    const duplicateCounselors = alias(users, "duplicate_counselors");
+    const rows = await db
+      .select({
+        pair: leadDuplicates,
+        lead: leads,
+        leadCounselorName: users.name,
+        duplicateLead: duplicateLeads,
+        duplicateCounselorName: duplicateCounselors.name,
+      })
+      .from(leadDuplicates)
+      .innerJoin(leads, eq(leadDuplicates.leadId, leads.id))
+      .leftJoin(users, eq(leads.counselorId, users.id))
+      .innerJoin(duplicateLeads, eq(leadDuplicates.duplicateLeadId, duplicateLeads.id))
+      .leftJoin(duplicateCounselors, eq(duplicateLeads.counselorId, duplicateCounselors.id))
+      .where(and(eq(leadDuplicates.status, "pending"), notArchived, isNull(duplicateLeads.archivedAt)))
+      .orderBy(desc(leadDuplicates.score), desc(leadDuplicates.detectedAt));
+
+    return rows.map(row => ({
+      ...row.pair,
+      lead: { ...row.lead, counselorName: row.leadCounselorName },
+      duplicateLead: { ...row.duplicateLead, counselorName: row.duplicateCounselorName }
+    }));
+  }
+
+  async getLeadDuplicate(id: number): Promise<LeadDuplicate | undefined> {
+    const result = await db.select().from(leadDuplicates).where(eq(leadDuplicates.id, id));
+    return result[0];
+  }
+
+  async dismissLeadDuplicate(id: number, actorId: number): Promise<void> {
+    await db.update(leadDuplicates)
+      .set({ status: "dismissed", resolvedBy: actorId, resolvedAt: new Date() })
+      .where(eq(leadDuplicates.id, id));
+  }
+
+  // Moves every record of the merged lead onto the survivor, fills the survivor's empty fields
+  // from it, then deletes it. The merged lead is kept as a snapshot in lead_merges.
+  async mergeLeads(survivingLeadId: number, mergedLeadId: number, actorId: number): Promise<LeadMerge> {
+    return await db.transaction(async (tx) => {
+      const [survivor] = await tx.select().from(leads).where(eq(leads.id, survivingLeadId));
+      const [merged] = await tx.select().from(leads).where(eq(leads.id, mergedLeadId));
+      if (!survivor || !merged) throw new Error("Lead not found");
+
+      // The survivor keeps its own tags and gains the merged lead's other ones
+      const mergedTags = await tx.select().from(leadTags).where(eq(leadTags.leadId, mergedLeadId));
+      const movedTags = mergedTags.length > 0
+        ? await tx.insert(leadTags)
+          .values(mergedTags.map(t => ({ leadId: survivingLeadId, tagId: t.tagId, taggedBy: t.taggedBy, createdAt: t.createdAt })))
+          .onConflictDoNothing()
+          .returning({ id: leadTags.id })
+        : [];
+      await tx.delete(leadTags).where(eq(leadTags.leadId, mergedLeadId));
+
+      const movedRecords = {
+        tasks: (await tx.update(tasks).set({ leadId: survivingLeadId })
+          .where(eq(tasks.leadId, mergedLeadId)).returning({ id: tasks.id })).length,
+        stageHistory: (await tx.update(stageHistory).set({ leadId: survivingLeadId })
+          .where(eq(stageHistory.leadId, mergedLeadId)).returning({ id: stageHistory.id })).length,
+        fieldChanges: (await tx.update(leadFieldChanges).set({ leadId: survivingLeadId })
+          .where(eq(leadFieldChanges.leadId, mergedLeadId)).returning({ id: leadFieldChanges.id })).length,
+        ownershipChanges: (await tx.update(leadOwnershipChanges).set({ leadId: survivingLeadId })
+          .where(eq(leadOwnershipChanges.leadId, mergedLeadId)).returning({ id: leadOwnershipChanges.id })).length,
+        contacts: (await tx.update(leadContacts).set({ leadId: survivingLeadId })
+          .where(eq(leadContacts.leadId, mergedLeadId)).returning({ id: leadContacts.id })).length,
+        remarks: (await tx.update(remarks).set({ leadId: survivingLeadId })
+          .where(eq(remarks.leadId, mergedLeadId)).returning({ id: remarks.id })).length,
+        universityApplications: (await tx.update(universityApplications).set({ leadId: survivingLeadId })
+          .where(eq(universityApplications.leadId, mergedLeadId)).returning({ id: universityApplications.id })).length,
+        documents: (await tx.update(documents).set({ leadId: survivingLeadId })
+          .where(eq(documents.leadId, mergedLeadId)).returning({ id: documents.id })).length,
+        // Earlier merges into the merged lead now point at the survivor
+        merges: (await tx.update(leadMerges).set({ survivingLeadId })
+          .where(eq(leadMerges.survivingLeadId, mergedLeadId)).returning({ id: leadMerges.id })).length,
+        tags: movedTags.length,
+      };
+
+      const filled: Partial<InsertLead> = {};
+      for (const field of MERGE_FILL_FIELDS) {
+        if (!survivor[field] && merged[field]) filled[field] = merged[field];
+      }
+      // Custom field values: the survivor's win, the merged lead fills the gaps
+      if (Object.keys(merged.customFields).some(key => survivor.customFields[key] === undefined)) {
+        filled.customFields = { ...merged.customFields, ...survivor.customFields };
+      }
+      if (!survivor.counselorId && merged.counselorId) {
+        filled.counselorId = merged.counselorId;
+        filled.managerId = merged.managerId;
+        await tx.insert(leadOwnershipChanges).values(ownershipChange(survivor, merged.counselorId, "merge", actorId));
+      }
+      await tx.update(leads).set({ ...filled, updatedAt: new Date() }).where(eq(leads.id, survivingLeadId));
+
+      await tx.insert(stageHistory).values({
+        leadId: survivingLeadId,
+        fromStage: survivor.currentStage,
+        toStage: survivor.currentStage,
+        userId: actorId,
+        reason: `Merged duplicate lead #${merged.id} (${merged.name}, ${merged.currentStage}) into this lead`
+      });
+
+      // Every pair that mentions the merged lead is settled by the merge
+      await tx.delete(leadDuplicates).where(or(
+        eq(leadDuplicates.leadId, mergedLeadId),
+        eq(leadDuplicates.duplicateLeadId, mergedLeadId)
+      ));
+
+      const [record] = await tx.insert(leadMerges).values({
+        survivingLeadId,
+        mergedLeadId,
+        mergedLeadSnapshot: merged,
+        movedRecords,
+        mergedBy: actorId
+      }).returning();
+
+      await tx.delete(leads).where(eq(leads.id, mergedLeadId));
+      return record;
+    });
+  }
+
+  // Ranked search over names (typo-tolerant trigram similarity), emails, UIDs, phone digits of the
+  // lead and its family contacts (formatting ignored) and remark text (full-text). Each lead appears once, under its best match.
+  async searchLeads(
+    term: string,
+    scope: Pick<LeadFilters, "managerId" | "counselorId">,
+    limit: number
+  ): Promise<LeadSearchResult[]> {
+    const pattern = `%${escapeLike(term)}%`;
+    const digits = term.replace(/\D/g, "");
+    const tsQuery = sql`plainto_tsquery('simple', ${term})`;
+    const leadRemarks = sql`to_tsvector('simple', coalesce(${leads.remarks}, ''))`;
+
+    const phoneMatches = digits.length >= 3
+      ? sql`union all
+        select ${leads.id}, 'phone', ${leads.phone}, 1.0::float8 from ${leads}
+        where regexp_replace(${leads.phone}, '[^0-9]', '', 'g') like ${`%${digits}%`}
+        union all
+        select ${leadContacts.leadId}, 'contact_phone', ${leadContacts.name} || ' (' || ${leadContacts.relationship} || '): ' || ${leadContacts.phone}, 0.9::float8
+        from ${leadContacts}
+        where regexp_replace(${leadContacts.phone}, '[^0-9]', '', 'g') like ${`%${digits}%`}`
+      : sql``;
+
+    const matches = sql`
+      select ${leads.id} as lead_id, 'name' as field, ${leads.name} as matched,
+        greatest(similarity(${leads.name}, ${term}), word_similarity(${term}, ${leads.name}),
+          case when ${leads.name} ilike ${pattern} then 0.9 else 0 end)::float8 as score
+      from ${leads}
+      where ${leads.name} ilike ${pattern} or ${leads.name} % ${term} or ${term} <% ${leads.name}
+      union all
+      select ${leads.id}, 'email', ${leads.email}, 0.95::float8 from ${leads} where ${leads.email} ilike ${pattern}
+      union all
+      select ${leads.id}, 'uid', ${leads.uid}, 1.0::float8 from ${leads} where ${leads.uid} ilike ${pattern}
+      ${phoneMatches}
+      union all
+      select ${leads.id}, 'remarks', ${leads.remarks}, (0.3 + ts_rank(${leadRemarks}, ${tsQuery}))::float8
+      from ${leads} where ${leadRemarks} @@ ${tsQuery}
+      union all
+      select ${remarks.leadId}, 'remarks', ${remarks.content}, (0.3 + ts_rank(to_tsvector('simple', ${remarks.content}), ${tsQuery}))::float8
+      from ${remarks} where ${remarks.isVisible} and to_tsvector('simple', ${remarks.content}) @@ ${tsQuery}
+    `;
+
+    const scopeConditions = [...leadScopeConditions(scope), notArchived];
+    const result = await db.execute(sql`
+      select ${leads.id} as id, ${leads.name} as name, ${leads.email} as email, ${leads.phone} as phone,
+        ${leads.uid} as uid, ${leads.currentStage} as current_stage, ${leads.counselorId} as counselor_id,
+        ${users.name} as counselor_name, best.field, best.matched, best.score
+      from (
+        select distinct on (lead_id) lead_id, field, matched, score
+        from (${matches}) m
+        order by lead_id, score desc
+      ) best
+      join ${leads} on ${leads.id} = best.lead_id
+      left join ${users} on ${users.id} = ${leads.counselorId}
+      where ${and(...scopeConditions)}
+      order by best.score desc, ${leads.updatedAt} desc
+      limit ${limit}
+    `);
+
+    return result.rows.map((row: any) => ({
+      lead: {
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        phone: row.phone,
+        uid: row.uid,
+        currentStage: row.current_stage,
+        counselorId: row.counselor_id,
+        counselorName: row.counselor_name
+      },
+      matchedField: row.field,
+      snippet: row.field === "remarks" ? snippetAround(row.matched, term) : row.matched,
+      score: Number(row.score)
+    }));
+  }
+
+  // The search indexes need pg_trgm. Runs at startup; on a fresh database create the
+  // extension before the first `npm run db:push`, which builds those indexes
+  async enableSearchExtensions(): Promise<void> {
+    await db.execute(sql`create extension if not exists pg_trgm`);
+  }
+
   async getLeadsByStage(stage: string): Promise<Lead[]> {
     return await db
       .select({
@@ -146,13 +1520,21 @@ export class DatabaseStorage implements IStorage {
         passportStatus: leads.passportStatus,
         remarks: leads.remarks,
         counsellors: leads.counsellors,
+        preferredLanguage: leads.preferredLanguage,
+        customFields: leads.customFields,
+        archivedAt: leads.archivedAt,
+        archivedBy: leads.archivedBy,
+        archiveReason: leads.archiveReason,
+        score: leads.score,
+        scoreBreakdown: leads.scoreBreakdown,
+        scoredAt: leads.scoredAt,
         counselorName: users.name,
         createdAt: leads.createdAt,
         updatedAt: leads.updatedAt,
       })
       .from(leads)
       .leftJoin(users, eq(leads.counselorId, users.id))
-      .where(eq(leads.currentStage, stage))
+      .where(and(eq(leads.currentStage, stage), notArchived))
       .orderBy(desc(leads.createdAt));
   }
 
@@ -175,17 +1557,63 @@ export class DatabaseStorage implements IStorage {
         passportStatus: leads.passportStatus,
         remarks: leads.remarks,
         counsellors: leads.counsellors,
+        preferredLanguage: leads.preferredLanguage,
+        customFields: leads.customFields,
+        archivedAt: leads.archivedAt,
+        archivedBy: leads.archivedBy,
+        archiveReason: leads.archiveReason,
+        score: leads.score,
+        scoreBreakdown: leads.scoreBreakdown,
+        scoredAt: leads.scoredAt,
+        counselorName: users.name,
+        createdAt: leads.createdAt,
+        updatedAt: leads.updatedAt,
+      })
+      .from(leads)
+      .leftJoin(users, eq(leads.counselorId, users.id))
+      .where(and(eq(leads.counselorId, counselorId), notArchived))
+      .orderBy(desc(leads.createdAt));
+  }
+
+  async getLeadsByManager(managerId: number): Promise<Lead[]> {
+    return await db
+      .select({
+        id: leads.id,
+        uid: leads.uid,
+        name: leads.name,
+        email: leads.email,
+        phone: leads.phone,
+        country: leads.country,
+        course: leads.course,
+        intake: leads.intake,
+        source: leads.source,
+        currentStage: leads.currentStage,
+        counselorId: leads.counselorId,
+        managerId: leads.managerId,
+        prevConsultancy: leads.prevConsultancy,
+        passportStatus: leads.passportStatus,
+        remarks: leads.remarks,
+        counsellors: leads.counsellors,
+        preferredLanguage: leads.preferredLanguage,
+        customFields: leads.customFields,
+        archivedAt: leads.archivedAt,
+        archivedBy: leads.archivedBy,
+        archiveReason: leads.archiveReason,
+        score: leads.score,
+        scoreBreakdown: leads.scoreBreakdown,
+        scoredAt: leads.scoredAt,
         counselorName: users.name,
         createdAt: leads.createdAt,
         updatedAt: leads.updatedAt,
       })
       .from(leads)
       .leftJoin(users, eq(leads.counselorId, users.id))
-      .where(eq(leads.counselorId, counselorId))
+      .where(and(eq(leads.managerId, managerId), notArchived))
       .orderBy(desc(leads.createdAt));
   }
 
   async getLead(id: number): Promise<Lead | undefined> {
+    const managers = alias(users, "managers");
     const result = await db
       .select({
         id: leads.id,
@@ -204,40 +1632,416 @@ export class DatabaseStorage implements IStorage {
         passportStatus: leads.passportStatus,
         remarks: leads.remarks,
         counsellors: leads.counsellors,
+        preferredLanguage: leads.preferredLanguage,
+        customFields: leads.customFields,
+        archivedAt: leads.archivedAt,
+        archivedBy: leads.archivedBy,
+        archiveReason: leads.archiveReason,
+        score: leads.score,
+        scoreBreakdown: leads.scoreBreakdown,
+        scoredAt: leads.scoredAt,
         counselorName: users.name,
+        managerName: managers.name,
         createdAt: leads.createdAt,
         updatedAt: leads.updatedAt,
       })
       .from(leads)
       .leftJoin(users, eq(leads.counselorId, users.id))
+      .leftJoin(managers, eq(leads.managerId, managers.id))
       .where(eq(leads.id, id));
     return result[0];
   }
 
+  // Just the columns lead access depends on, for checking many leads in one round trip
+  async getLeadOwnership(ids: number[]): Promise<LeadOwnership[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select({ id: leads.id, counselorId: leads.counselorId, managerId: leads.managerId, archivedAt: leads.archivedAt })
+      .from(leads)
+      .where(inArray(leads.id, ids));
+  }
+
   async createLead(lead: InsertLead): Promise<Lead> {
     const result = await db.insert(leads).values(lead).returning();
     return result[0];
   }
 
-  async updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead> {
-    const result = await db.update(leads).set(lead).where(eq(leads.id, id)).returning();
-    return result[0];
+  // Records the old and new value of every field that actually changes, in the same transaction
+  async updateLead(id: number, lead: Partial<InsertLead>, changedBy: number): Promise<Lead> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(leads).where(eq(leads.id, id));
+      if (!current) throw new Error("Lead not found");
+
+      const changes = trackedFieldChanges(current, lead, changedBy);
+
+      const [updated] = await tx.update(leads).set({ ...lead, updatedAt: new Date() }).where(eq(leads.id, id)).returning();
+      if (changes.length > 0) {
+        await tx.insert(leadFieldChanges).values(changes);
+      }
+      if (updated.counselorId !== null && updated.counselorId !== current.counselorId) {
+        await tx.insert(leadOwnershipChanges).values(
+          ownershipChange(current, updated.counselorId, "edit", changedBy)
+        );
+      }
+      return updated;
+    });
   }
 
-  async assignLeadToCounselor(leadId: number, counselorId: number): Promise<void> {
-    await db.update(leads).set({ 
-      counselorId, 
-      currentStage: "Assigned",
-      updatedAt: new Date()
-    }).where(eq(leads.id, leadId));
-    
-    // Add stage history
-    await db.insert(stageHistory).values({
-      leadId,
-      fromStage: "Yet to Assign",
-      toStage: "Assigned",
-      userId: counselorId,
-      reason: "Lead assigned to counselor"
+  async getLeadFieldChanges(leadId: number): Promise<LeadFieldChangeEntry[]> {
+    const result = await db
+      .select({ change: leadFieldChanges, changedByName: users.name })
+      .from(leadFieldChanges)
+      .leftJoin(users, eq(leadFieldChanges.changedBy, users.id))
+      .where(eq(leadFieldChanges.leadId, leadId))
+      .orderBy(desc(leadFieldChanges.changedAt), desc(leadFieldChanges.id));
+    return result.map(r => ({ ...r.change, changedByName: r.changedByName }));
+  }
+
+  private ownershipEntries() {
+    const fromCounselors = alias(users, "from_counselors");
+    const toCounselors = alias(users, "to_counselors");
+    const changedByUsers = alias(users, "changed_by_users");
+    return db
+      .select({
+        change: leadOwnershipChanges,
+        fromCounselorName: fromCounselors.name,
+        toCounselorName: toCounselors.name,
+        changedByName: changedByUsers.name,
+        leadName: leads.name
+      })
+      .from(leadOwnershipChanges)
+      .innerJoin(leads, eq(leadOwnershipChanges.leadId, leads.id))
+      .leftJoin(fromCounselors, eq(leadOwnershipChanges.fromCounselorId, fromCounselors.id))
+      .leftJoin(toCounselors, eq(leadOwnershipChanges.toCounselorId, toCounselors.id))
+      .leftJoin(changedByUsers, eq(leadOwnershipChanges.changedBy, changedByUsers.id))
+      .$dynamic();
+  }
+
+  // Oldest first, so the timeline reads in the order the lead changed hands
+  async getLeadOwnershipTimeline(leadId: number): Promise<LeadOwnershipEntry[]> {
+    const rows = await this.ownershipEntries()
+      .where(eq(leadOwnershipChanges.leadId, leadId))
+      .orderBy(asc(leadOwnershipChanges.createdAt), asc(leadOwnershipChanges.id));
+    return rows.map(({ change, leadName, ...names }) => ({ ...change, ...names }));
+  }
+
+  // Everything that happened on the lead, newest first. A union over the event tables gives the
+  // order, the page and the per-type counts; the page's rows are then loaded from their own tables.
+  async getLeadTimeline(leadId: number, filters: LeadTimelineFilters): Promise<{
+    events: LeadTimelineEvent[];
+    total: number;
+    counts: Record<LeadTimelineEventType, number>;
+  }> {
+    const sources: Record<LeadTimelineEventType, SQL> = {
+      task: sql`select 'task' as type, ${tasks.id} as id, ${tasks.createdAt} as occurred_at, ${tasks.userId} as actor_id
+        from ${tasks} where ${tasks.leadId} = ${leadId}`,
+      stage_change: sql`select 'stage_change', ${stageHistory.id}, ${stageHistory.createdAt}, ${stageHistory.userId}
+        from ${stageHistory} where ${stageHistory.leadId} = ${leadId}`,
+      remark: sql`select 'remark', ${remarks.id}, ${remarks.createdAt}, ${remarks.userId}
+        from ${remarks} where ${remarks.leadId} = ${leadId}`,
+      field_change: sql`select 'field_change', ${leadFieldChanges.id}, ${leadFieldChanges.changedAt}, ${leadFieldChanges.changedBy}
+        from ${leadFieldChanges} where ${leadFieldChanges.leadId} = ${leadId}`,
+      ownership: sql`select 'ownership', ${leadOwnershipChanges.id}, ${leadOwnershipChanges.createdAt}, ${leadOwnershipChanges.changedBy}
+        from ${leadOwnershipChanges} where ${leadOwnershipChanges.leadId} = ${leadId}`,
+      // Applications do not record who added them
+      university_application: sql`select 'university_application', ${universityApplications.id}, ${universityApplications.createdAt}, null::integer
+        from ${universityApplications} where ${universityApplications.leadId} = ${leadId}`,
+      document: sql`select 'document', ${documents.id}, ${documents.createdAt}, ${documents.uploadedBy}
+        from ${documents} where ${documents.leadId} = ${leadId}`
+    };
+    const types: readonly LeadTimelineEventType[] = filters.types?.length ? filters.types : LEAD_TIMELINE_EVENT_TYPES;
+    const unionOf = (list: readonly LeadTimelineEventType[]) => sql.join(list.map(type => sources[type]), sql` union all `);
+
+    const [countResult, pageResult] = await Promise.all([
+      db.execute(sql`select type, count(*)::int as count from (${unionOf(LEAD_TIMELINE_EVENT_TYPES)}) e group by type`),
+      db.execute(sql`
+        select e.type, e.id, e.occurred_at, e.actor_id, ${users.name} as actor_name
+        from (${unionOf(types)}) e
+        left join ${users} on ${users.id} = e.actor_id
+        order by e.occurred_at desc, e.id desc
+        limit ${filters.limit} offset ${filters.offset}
+      `)
+    ]);
+
+    // Counts cover every type so the filters can show how many events each would add
+    const counts = Object.fromEntries(LEAD_TIMELINE_EVENT_TYPES.map(type => [type, 0])) as Record<LeadTimelineEventType, number>;
+    for (const row of countResult.rows as { type: LeadTimelineEventType; count: number }[]) {
+      counts[row.type] = Number(row.count);
+    }
+    const total = types.reduce((sum, type) => sum + counts[type], 0);
+
+    const loaders: Record<LeadTimelineEventType, (ids: number[]) => Promise<{ id: number }[]>> = {
+      task: async ids => (await db.select({ task: tasks, contactName: leadContacts.name })
+        .from(tasks)
+        .leftJoin(leadContacts, eq(tasks.contactId, leadContacts.id))
+        .where(inArray(tasks.id, ids)))
+        .map(({ task, contactName }) => ({ ...task, contactName })),
+      stage_change: ids => db.select().from(stageHistory).where(inArray(stageHistory.id, ids)),
+      remark: ids => db.select().from(remarks).where(inArray(remarks.id, ids)),
+      field_change: ids => db.select().from(leadFieldChanges).where(inArray(leadFieldChanges.id, ids)),
+      ownership: async ids => (await this.ownershipEntries().where(inArray(leadOwnershipChanges.id, ids)))
+        .map(({ change, leadName, ...names }) => ({ ...change, ...names })),
+      university_application: ids => db.select().from(universityApplications).where(inArray(universityApplications.id, ids)),
+      document: ids => db.select().from(documents).where(inArray(documents.id, ids))
+    };
+    const pageRows = pageResult.rows as {
+      type: LeadTimelineEventType;
+      id: number;
+      occurred_at: Date | string;
+      actor_id: number | null;
+      actor_name: string | null;
+    }[];
+    const idsByType = new Map<LeadTimelineEventType, number[]>();
+    for (const row of pageRows) {
+      idsByType.set(row.type, [...(idsByType.get(row.type) ?? []), row.id]);
+    }
+    const details = new Map<string, { id: number }>();
+    await Promise.all(Array.from(idsByType, async ([type, ids]) => {
+      for (const row of await loaders[type](ids)) details.set(`${type}:${row.id}`, row);
+    }));
+
+    const events = pageRows.map(row => ({
+      type: row.type,
+      id: row.id,
+      occurredAt: new Date(row.occurred_at),
+      actorId: row.actor_id,
+      actorName: row.actor_name,
+      data: details.get(`${row.type}:${row.id}`)
+    }) as LeadTimelineEvent);
+    return { events, total, counts };
+  }
+
+  async getPendingHandovers(counselorId: number): Promise<PendingHandover[]> {
+    const rows = await this.ownershipEntries()
+      .where(and(
+        eq(leadOwnershipChanges.kind, "handover"),
+        eq(leadOwnershipChanges.toCounselorId, counselorId),
+        isNull(leadOwnershipChanges.acknowledgedAt),
+        eq(leads.counselorId, counselorId),
+        notArchived
+      ))
+      .orderBy(desc(leadOwnershipChanges.createdAt), desc(leadOwnershipChanges.id));
+    return rows.map(({ change, ...names }) => ({ ...change, ...names }));
+  }
+
+  async getOwnershipChange(id: number): Promise<LeadOwnershipChange | undefined> {
+    const [change] = await db.select().from(leadOwnershipChanges).where(eq(leadOwnershipChanges.id, id));
+    return change;
+  }
+
+  async acknowledgeHandover(id: number): Promise<LeadOwnershipChange> {
+    const [change] = await db.update(leadOwnershipChanges)
+      .set({ acknowledgedAt: new Date() })
+      .where(eq(leadOwnershipChanges.id, id))
+      .returning();
+    return change;
+  }
+
+  // Moves an assigned lead to another counselor without touching its stage. The note is kept on the
+  // ownership timeline and a stage history row records who handed the lead to whom.
+  async handoverLead(
+    leadId: number,
+    toCounselorId: number,
+    note: string,
+    actorId: number
+  ): Promise<{ before: Lead; after: Lead; handover: LeadOwnershipChange }> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leads).where(eq(leads.id, leadId)).for("update");
+      if (!before) throw new Error("Lead not found");
+      if (before.counselorId === null || before.counselorId === toCounselorId) {
+        throw new Error("A handover needs an assigned lead and a different counselor");
+      }
+
+      const counselors = await tx
+        .select({ id: users.id, name: users.name, managerId: teams.managerId })
+        .from(users)
+        .leftJoin(teams, eq(users.teamId, teams.id))
+        .where(inArray(users.id, [before.counselorId, toCounselorId]));
+      const from = counselors.find(c => c.id === before.counselorId);
+      const to = counselors.find(c => c.id === toCounselorId);
+      if (!to) throw new Error("Counselor not found");
+
+      const [after] = await tx.update(leads).set({
+        counselorId: toCounselorId,
+        managerId: to.managerId,
+        updatedAt: new Date()
+      }).where(eq(leads.id, leadId)).returning();
+
+      await tx.insert(stageHistory).values({
+        leadId,
+        fromStage: before.currentStage,
+        toStage: before.currentStage,
+        userId: actorId,
+        reason: `Handed over from ${from?.name ?? `user #${before.counselorId}`} to ${to.name}`
+      });
+      const [handover] = await tx.insert(leadOwnershipChanges)
+        .values(ownershipChange(before, toCounselorId, "handover", actorId, note))
+        .returning();
+      return { before, after, handover };
+    });
+  }
+
+  async assignLeadToCounselor(leadId: number, counselorId: number, actorId: number): Promise<void> {
+    await this.applyBulkLeadAction([leadId], { type: "assign", counselorId }, actorId);
+  }
+
+  // Applies one action to every lead in a single transaction, so either all leads change or none do.
+  // Stage history records each lead's real previous stage; assign and update also write field history.
+  async applyBulkLeadAction(leadIds: number[], action: BulkLeadAction, actorId: number): Promise<BulkLeadResult[]> {
+    if (leadIds.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      const current = await tx.select().from(leads).where(inArray(leads.id, leadIds)).for("update");
+      const leadsById = new Map(current.map(l => [l.id, l]));
+
+      // Counselor names for the "Assigned to" / "Reassigned from" history reasons
+      const counselorIds = action.type === "assign"
+        ? Array.from(new Set([action.counselorId, ...current.map(l => l.counselorId).filter((id): id is number => id !== null)]))
+        : [];
+      const counselors = counselorIds.length > 0
+        ? await tx
+          .select({ id: users.id, name: users.name, managerId: teams.managerId })
+          .from(users)
+          .leftJoin(teams, eq(users.teamId, teams.id))
+          .where(inArray(users.id, counselorIds))
+        : [];
+      const counselorsById = new Map(counselors.map(c => [c.id, c]));
+      const counselorName = (id: number) => counselorsById.get(id)?.name ?? `user #${id}`;
+      if (action.type === "assign" && !counselorsById.has(action.counselorId)) {
+        throw new Error(`Counselor ${action.counselorId} not found`);
+      }
+
+      const results: BulkLeadResult[] = [];
+      for (const leadId of leadIds) {
+        const lead = leadsById.get(leadId);
+        if (!lead) throw new Error(`Lead ${leadId} not found`);
+
+        let set: Partial<InsertLead> = {};
+        let history: { toStage: string; reason: string } | null = null;
+        if (action.type === "assign" && lead.counselorId !== action.counselorId) {
+          const toStage = lead.currentStage === "Yet to Assign" ? "Yet to Contact" : lead.currentStage;
+          set = { counselorId: action.counselorId, managerId: counselorsById.get(action.counselorId)!.managerId, currentStage: toStage };
+          history = {
+            toStage,
+            reason: lead.counselorId === null
+              ? `Assigned to ${counselorName(action.counselorId)}`
+              : `Reassigned from ${counselorName(lead.counselorId)} to ${counselorName(action.counselorId)}`
+          };
+        } else if (action.type === "stage" && lead.currentStage !== action.stage) {
+          set = { currentStage: action.stage };
+          history = { toStage: action.stage, reason: action.reason };
+        } else if (action.type === "update") {
+          set = Object.fromEntries(Object.entries(action.fields).filter(([field, value]) =>
+            fieldValueText(lead[field as BulkUpdateField]) !== fieldValueText(value)
+          ));
+        } else if (action.type === "archive" && !lead.archivedAt) {
+          set = { archivedAt: new Date(), archivedBy: actorId, archiveReason: action.reason };
+          history = { toStage: lead.currentStage, reason: `Archived: ${action.reason}` };
+        }
+
+        if (Object.keys(set).length === 0) {
+          results.push({ leadId, status: "unchanged", before: lead, after: lead });
+          continue;
+        }
+
+        const [after] = await tx.update(leads).set({ ...set, updatedAt: new Date() }).where(eq(leads.id, leadId)).returning();
+        if (history) {
+          await tx.insert(stageHistory).values({ leadId, fromStage: lead.currentStage, userId: actorId, ...history });
+        }
+        if (action.type === "assign") {
+          await tx.insert(leadOwnershipChanges).values(ownershipChange(lead, action.counselorId, "assign", actorId));
+        }
+        if (action.type === "assign" || action.type === "update") {
+          const changes = trackedFieldChanges(lead, set, actorId);
+          if (changes.length > 0) {
+            await tx.insert(leadFieldChanges).values(changes);
+          }
+        }
+        results.push({ leadId, status: "updated", before: lead, after });
+      }
+      return results;
+    });
+  }
+
+  async getOpenLeadsByCounselor(counselorId: number): Promise<Lead[]> {
+    return await db
+      .select()
+      .from(leads)
+      .where(and(
+        eq(leads.counselorId, counselorId),
+        notInArray(leads.currentStage, CLOSED_LEAD_STAGES),
+        notArchived
+      ))
+      .orderBy(desc(leads.updatedAt));
+  }
+
+  async getOpenLeadCountsByCounselor(): Promise<{ counselorId: number; openLeads: number }[]> {
+    const result = await db
+      .select({
+        counselorId: leads.counselorId,
+        openLeads: sql<number>`count(*)::int`,
+      })
+      .from(leads)
+      .where(and(notInArray(leads.currentStage, CLOSED_LEAD_STAGES), notArchived))
+      .groupBy(leads.counselorId);
+    return result.filter((r): r is { counselorId: number; openLeads: number } => r.counselorId !== null);
+  }
+
+  // Moves the user's open leads to the chosen counselors and deactivates the account in one
+  // transaction. The stage is kept; a stage history row records each reassignment.
+  async deactivateUserWithReassignment(
+    userId: number,
+    assignments: { leadId: number; counselorId: number }[],
+    actorId: number
+  ): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!user) throw new Error("User not found");
+
+      if (assignments.length > 0) {
+        const targetIds = Array.from(new Set(assignments.map(a => a.counselorId)));
+        const targets = await tx
+          .select({ id: users.id, name: users.name, managerId: teams.managerId })
+          .from(users)
+          .leftJoin(teams, eq(users.teamId, teams.id))
+          .where(inArray(users.id, targetIds));
+        const targetsById = new Map(targets.map(t => [t.id, t]));
+
+        const affected = await tx
+          .select({ id: leads.id, currentStage: leads.currentStage, counselorId: leads.counselorId })
+          .from(leads)
+          .where(inArray(leads.id, assignments.map(a => a.leadId)));
+        const leadsById = new Map(affected.map(l => [l.id, l]));
+
+        for (const { leadId, counselorId } of assignments) {
+          const lead = leadsById.get(leadId);
+          if (!lead || lead.counselorId !== userId) {
+            throw new Error(`Lead ${leadId} is not assigned to this user`);
+          }
+
+          await tx.update(leads).set({
+            counselorId,
+            managerId: targetsById.get(counselorId)?.managerId ?? null,
+            updatedAt: new Date()
+          }).where(eq(leads.id, leadId));
+
+          await tx.insert(stageHistory).values({
+            leadId,
+            fromStage: lead.currentStage,
+            toStage: lead.currentStage,
+            userId: actorId,
+            reason: `Reassigned from ${user.name} to ${targetsById.get(counselorId)?.name ?? `user #${counselorId}`}: ${user.name} was deactivated`
+          });
+          await tx.insert(leadOwnershipChanges).values(
+            ownershipChange(lead, counselorId, "deactivation", actorId)
+          );
+        }
+      }
+
+      const [updated] = await tx.update(users).set({
+        isActive: false,
+        updatedAt: new Date()
+      }).where(eq(users.id, userId)).returning();
+      return updated;
     });
   }
 
@@ -259,6 +2063,80 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // Soft delete: the lead keeps all its records and can be restored. A stage history row
+  // records the reason so the lead's timeline shows why it disappeared.
+  async archiveLead(leadId: number, actorId: number, reason: string): Promise<Lead> {
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx.update(leads).set({
+        archivedAt: new Date(),
+        archivedBy: actorId,
+        archiveReason: reason,
+        updatedAt: new Date()
+      }).where(eq(leads.id, leadId)).returning();
+
+      await tx.insert(stageHistory).values({
+        leadId,
+        fromStage: lead.currentStage,
+        toStage: lead.currentStage,
+        userId: actorId,
+        reason: `Archived: ${reason}`
+      });
+      return lead;
+    });
+  }
+
+  async restoreLead(leadId: number, actorId: number): Promise<Lead> {
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx.update(leads).set({
+        archivedAt: null,
+        archivedBy: null,
+        archiveReason: null,
+        updatedAt: new Date()
+      }).where(eq(leads.id, leadId)).returning();
+
+      await tx.insert(stageHistory).values({
+        leadId,
+        fromStage: lead.currentStage,
+        toStage: lead.currentStage,
+        userId: actorId,
+        reason: "Restored from archive"
+      });
+      return lead;
+    });
+  }
+
+  // Hard delete: removes the lead and everything attached to it in one transaction.
+  // Returns how many rows went from each table.
+  async purgeLead(leadId: number): Promise<Record<string, number>> {
+    return await db.transaction(async (tx) => {
+      const deletedRecords = {
+        tasks: (await tx.delete(tasks).where(eq(tasks.leadId, leadId)).returning({ id: tasks.id })).length,
+        stageHistory: (await tx.delete(stageHistory)
+          .where(eq(stageHistory.leadId, leadId)).returning({ id: stageHistory.id })).length,
+        fieldChanges: (await tx.delete(leadFieldChanges)
+          .where(eq(leadFieldChanges.leadId, leadId)).returning({ id: leadFieldChanges.id })).length,
+        ownershipChanges: (await tx.delete(leadOwnershipChanges)
+          .where(eq(leadOwnershipChanges.leadId, leadId)).returning({ id: leadOwnershipChanges.id })).length,
+        // After tasks, which may point at a contact
+        contacts: (await tx.delete(leadContacts).where(eq(leadContacts.leadId, leadId)).returning({ id: leadContacts.id })).length,
+        remarks: (await tx.delete(remarks).where(eq(remarks.leadId, leadId)).returning({ id: remarks.id })).length,
+        universityApplications: (await tx.delete(universityApplications)
+          .where(eq(universityApplications.leadId, leadId)).returning({ id: universityApplications.id })).length,
+        documents: (await tx.delete(documents).where(eq(documents.leadId, leadId)).returning({ id: documents.id })).length,
+        tags: (await tx.delete(leadTags).where(eq(leadTags.leadId, leadId)).returning({ id: leadTags.id })).length,
+        duplicatePairs: (await tx.delete(leadDuplicates)
+          .where(or(eq(leadDuplicates.leadId, leadId), eq(leadDuplicates.duplicateLeadId, leadId)))
+          .returning({ id: leadDuplicates.id })).length,
+        merges: (await tx.delete(leadMerges)
+          .where(eq(leadMerges.survivingLeadId, leadId)).returning({ id: leadMerges.id })).length,
+      };
+
+      const deleted = await tx.delete(leads).where(eq(leads.id, leadId)).returning({ id: leads.id });
+      if (deleted.length === 0) throw new Error("Lead not found");
+      return deletedRecords;
+    });
+  }
+
   // Enhanced function to fix stage assignment for leads with empty counselor fields
   async migrateEmptyCounselorLeads(): Promise<{ updated: number; details: any[] }> {
     // Find all leads that are in "Yet to Assign" stage with no counselor assigned
@@ -314,6 +2192,38 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getLeadContacts(leadId: number): Promise<LeadContact[]> {
+    return await db.select().from(leadContacts)
+      .where(eq(leadContacts.leadId, leadId))
+      .orderBy(asc(leadContacts.createdAt), asc(leadContacts.id));
+  }
+
+  async getLeadContact(id: number): Promise<LeadContact | undefined> {
+    const [contact] = await db.select().from(leadContacts).where(eq(leadContacts.id, id));
+    return contact;
+  }
+
+  async createLeadContact(contact: InsertLeadContact): Promise<LeadContact> {
+    const [created] = await db.insert(leadContacts).values(contact).returning();
+    return created;
+  }
+
+  async updateLeadContact(id: number, updates: Partial<InsertLeadContact>): Promise<LeadContact> {
+    const [updated] = await db.update(leadContacts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leadContacts.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Calls logged with the contact stay in the task history, no longer linked to anyone
+  async deleteLeadContact(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(tasks).set({ contactId: null }).where(eq(tasks.contactId, id));
+      await tx.delete(leadContacts).where(eq(leadContacts.id, id));
+    });
+  }
+
   async getTasksByLead(leadId: number): Promise<Task[]> {
     return await db
       .select({
@@ -321,6 +2231,8 @@ export class DatabaseStorage implements IStorage {
         leadId: tasks.leadId,
         userId: tasks.userId,
         userName: users.name,
+        contactId: tasks.contactId,
+        contactName: leadContacts.name,
         taskType: tasks.taskType,
         callType: tasks.callType,
         callStatus: tasks.callStatus,
@@ -346,6 +2258,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(tasks)
       .leftJoin(users, eq(tasks.userId, users.id))
+      .leftJoin(leadContacts, eq(tasks.contactId, leadContacts.id))
       .where(eq(tasks.leadId, leadId))
       .orderBy(desc(tasks.createdAt));
   }
@@ -406,18 +2319,40 @@ export class DatabaseStorage implements IStorage {
     await db.insert(remarks).values(remark);
   }
 
-  async getUniversityApplications(leadId: number): Promise<any[]> {
+  async getUniversityApplications(leadId: number): Promise<UniversityApplication[]> {
     return await db.select().from(universityApplications).where(eq(universityApplications.leadId, leadId));
   }
 
+  async getAllUniversityApplications(): Promise<UniversityApplication[]> {
+    return await db.select().from(universityApplications);
+  }
+
+  async getUniversityApplication(id: number): Promise<UniversityApplication | undefined> {
+    const result = await db.select().from(universityApplications).where(eq(universityApplications.id, id));
+    return result[0];
+  }
+
   async createUniversityApplication(app: InsertUniversityApplication): Promise<void> {
     await db.insert(universityApplications).values(app);
   }
 
+  async updateUniversityApplication(id: number, app: Partial<InsertUniversityApplication>): Promise<void> {
+    await db.update(universityApplications).set(app).where(eq(universityApplications.id, id));
+  }
+
+  async getDocument(id: number): Promise<Document | undefined> {
+    const result = await db.select().from(documents).where(eq(documents.id, id));
+    return result[0];
+  }
+
   async getDocumentsByLead(leadId: number): Promise<Document[]> {
     return await db.select().from(documents).where(eq(documents.leadId, leadId));
   }
 
+  async getDocumentsByType(documentType: string): Promise<Document[]> {
+    return await db.select().from(documents).where(eq(documents.documentType, documentType));
+  }
+
   async createDocument(document: InsertDocument): Promise<Document> {
     const result = await db.insert(documents).values(document).returning();
     return result[0];
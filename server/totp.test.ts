@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { base32Decode, base32Encode, timeStep, totp, verifyTotp, type TotpAlgorithm } from "./totp";
+
+// RFC 6238 appendix B: 8-digit codes, 30 second steps, a different ASCII seed per algorithm
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from("12345678901234567890"),
+  sha256: Buffer.from("12345678901234567890123456789012"),
+  sha512: Buffer.from("1234567890123456789012345678901234567890123456789012345678901234"),
+};
+
+const VECTORS: { seconds: number; codes: Record<TotpAlgorithm, string> }[] = [
+  { seconds: 59, codes: { sha1: "94287082", sha256: "46119246", sha512: "90693936" } },
+  { seconds: 1111111109, codes: { sha1: "07081804", sha256: "68084774", sha512: "25091201" } },
+  { seconds: 1111111111, codes: { sha1: "14050471", sha256: "67062674", sha512: "99943326" } },
+];
+
+const ALGORITHMS = Object.keys(SEEDS) as TotpAlgorithm[];
+
+test("base32 round-trips the RFC seeds", () => {
+  for (const algorithm of ALGORITHMS) {
+    assert.deepEqual(base32Decode(base32Encode(SEEDS[algorithm])), SEEDS[algorithm]);
+  }
+  assert.equal(base32Encode(Buffer.from("12345678901234567890")), "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+});
+
+test("totp matches the RFC 6238 vectors", () => {
+  for (const { seconds, codes } of VECTORS) {
+    for (const algorithm of ALGORITHMS) {
+      assert.equal(totp(SEEDS[algorithm], seconds * 1000, { digits: 8, algorithm }), codes[algorithm], `${algorithm} at T=${seconds}`);
+    }
+  }
+});
+
+test("verifyTotp accepts the RFC 6238 vectors and returns their step", () => {
+  for (const { seconds, codes } of VECTORS) {
+    for (const algorithm of ALGORITHMS) {
+      const step = verifyTotp(base32Encode(SEEDS[algorithm]), codes[algorithm], {
+        timeMs: seconds * 1000,
+        window: 0,
+        digits: 8,
+        algorithm,
+      });
+      assert.equal(step, timeStep(seconds * 1000), `${algorithm} at T=${seconds}`);
+    }
+  }
+});
+
+test("verifyTotp rejects malformed and wrong codes", () => {
+  const secret = base32Encode(SEEDS.sha1);
+  const timeMs = 1111111111 * 1000;
+  assert.equal(verifyTotp(secret, "1405047", { timeMs, digits: 8 }), null);
+  assert.equal(verifyTotp(secret, "1405047x", { timeMs, digits: 8 }), null);
+  assert.equal(verifyTotp(secret, "14050472", { timeMs, digits: 8 }), null);
+  assert.equal(verifyTotp(secret, "1405 0471", { timeMs, digits: 8 }), timeStep(timeMs));
+});
+
+test("verifyTotp absorbs clock drift within the window only", () => {
+  const secret = base32Encode(SEEDS.sha1);
+  const key = SEEDS.sha1;
+  const now = 1111111111 * 1000;
+  const current = timeStep(now);
+
+  const previous = totp(key, now - 30_000);
+  const next = totp(key, now + 30_000);
+  const twoAhead = totp(key, now + 60_000);
+
+  assert.equal(verifyTotp(secret, previous, { timeMs: now }), current - 1);
+  assert.equal(verifyTotp(secret, next, { timeMs: now }), current + 1);
+  assert.equal(verifyTotp(secret, twoAhead, { timeMs: now }), null);
+  assert.equal(verifyTotp(secret, twoAhead, { timeMs: now, window: 2 }), current + 2);
+  assert.equal(verifyTotp(secret, previous, { timeMs: now, window: 0 }), null);
+});
+
+test("a replayed code resolves to an already used step", () => {
+  const secret = base32Encode(SEEDS.sha1);
+  const now = 1111111111 * 1000;
+  const code = totp(SEEDS.sha1, now);
+
+  // The caller records the returned step and rejects any code whose step is not newer
+  const firstStep = verifyTotp(secret, code, { timeMs: now });
+  assert.equal(firstStep, timeStep(now));
+
+  // Same code again, later in the same step and one step later (still inside the window)
+  assert.equal(verifyTotp(secret, code, { timeMs: now + 5_000 }), firstStep);
+  assert.equal(verifyTotp(secret, code, { timeMs: now + 30_000 }), firstStep);
+
+  // The next step's code is newer, so it is accepted
+  const nextStep = verifyTotp(secret, totp(SEEDS.sha1, now + 30_000), { timeMs: now + 30_000 });
+  assert.ok(nextStep !== null && firstStep !== null && nextStep > firstStep);
+});
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+
+// RFC 4226 (HOTP) / RFC 6238 (TOTP) implementation with no external dependencies.
+// Time is always injectable so the RFC 6238 appendix B vectors can be checked offline.
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+export interface TotpOptions {
+  digits?: number;
+  stepSeconds?: number;
+  algorithm?: TotpAlgorithm;
+}
+
+const DEFAULTS = { digits: 6, stepSeconds: 30, algorithm: "sha1" as TotpAlgorithm };
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function hotp(key: Buffer, counter: number, options: TotpOptions = {}): string {
+  const { digits, algorithm } = { ...DEFAULTS, ...options };
+
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac(algorithm, key).update(counterBuffer).digest();
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+export function timeStep(timeMs: number, stepSeconds = DEFAULTS.stepSeconds): number {
+  return Math.floor(timeMs / 1000 / stepSeconds);
+}
+
+export function totp(key: Buffer, timeMs = Date.now(), options: TotpOptions = {}): string {
+  const { stepSeconds } = { ...DEFAULTS, ...options };
+  return hotp(key, timeStep(timeMs, stepSeconds), options);
+}
+
+// Returns the matching time step (for replay protection) or null.
+// window = number of steps accepted either side of now to absorb clock drift.
+export function verifyTotp(
+  secret: string,
+  token: string,
+  { timeMs = Date.now(), window = 1, ...options }: TotpOptions & { timeMs?: number; window?: number } = {}
+): number | null {
+  const { digits, stepSeconds } = { ...DEFAULTS, ...options };
+  const normalized = token.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== digits) return null;
+
+  const key = base32Decode(secret);
+  const current = timeStep(timeMs, stepSeconds);
+  for (let offset = -window; offset <= window; offset++) {
+    const step = current + offset;
+    if (step < 0) continue;
+    const expected = hotp(key, step, options);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// Key URI understood by Google Authenticator, 1Password, Authy, etc.
+export function buildOtpauthUrl(issuer: string, accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DEFAULTS.digits),
+    period: String(DEFAULTS.stepSeconds),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, jsonb, real, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,13 +9,64 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("counselor"), // 'admin' or 'counselor'
+  role: text("role").notNull().default("counselor"), // 'admin', 'manager' or 'counselor'
   phone: text("phone"),
+  teamId: integer("team_id").references((): AnyPgColumn => teams.id),
   isActive: boolean("is_active").notNull().default(true),
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  totpRequired: boolean("totp_required").notNull().default(false), // set by admins
+  totpLastUsedStep: integer("totp_last_used_step"), // rejects replay of an accepted code
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+export const USER_ROLES = ["admin", "manager", "counselor"] as const;
+
+// Counselor teams; the team's manager becomes the manager of every lead its counselors hold
+export const teams = pgTable("teams", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  managerId: integer("manager_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One row per run of the one-time bootstrap flow (first admin / setup token)
+export const setupRuns = pgTable("setup_runs", {
+  id: serial("id").primaryKey(),
+  method: text("method").notNull(), // 'first_admin' or 'setup_token'
+  adminUserId: integer("admin_user_id").references(() => users.id),
+  hashedPasswordCount: integer("hashed_password_count").notNull().default(0),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use password reset tokens issued by admins (only the SHA-256 hash is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Hashed single-use recovery codes for two-factor authentication
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Leads table
 export const leads = pgTable("leads", {
   id: serial("id").primaryKey(),
@@ -33,10 +85,173 @@ export const leads = pgTable("leads", {
   passportStatus: text("passport_status"),
   remarks: text("remarks"),
   counsellors: text("counsellors"), // From CSV - assigned counselor names
+  preferredLanguage: text("preferred_language"),
+  // Values of the admin-defined custom fields, keyed by custom_fields.key
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
+  // Soft delete: archived leads drop out of every list, search and stat until restored
+  archivedAt: timestamp("archived_at"),
+  archivedBy: integer("archived_by").references(() => users.id),
+  archiveReason: text("archive_reason"),
+  // Lead score: recomputed by server/scoring.ts, never written through the lead API
+  score: integer("score").notNull().default(0),
+  scoreBreakdown: jsonb("score_breakdown").$type<LeadScoreItem[]>().notNull().default([]),
+  scoredAt: timestamp("scored_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // Back the filters and default sort of the paginated lead list
+  index("leads_current_stage_idx").on(table.currentStage),
+  index("leads_counselor_id_idx").on(table.counselorId),
+  index("leads_manager_id_idx").on(table.managerId),
+  index("leads_created_at_idx").on(table.createdAt),
+  index("leads_archived_at_idx").on(table.archivedAt),
+  index("leads_score_idx").on(table.score),
+  // Lead search (GET /api/leads/search): trigram indexes need the pg_trgm extension
+  index("leads_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  index("leads_email_trgm_idx").using("gin", table.email.op("gin_trgm_ops")),
+  index("leads_uid_trgm_idx").using("gin", table.uid.op("gin_trgm_ops")),
+  index("leads_phone_digits_trgm_idx").using("gin", sql`(regexp_replace(${table.phone}, '[^0-9]', '', 'g')) gin_trgm_ops`),
+  index("leads_remarks_fts_idx").using("gin", sql`to_tsvector('simple', coalesce(${table.remarks}, ''))`),
+]);
+
+export const CUSTOM_FIELD_TYPES = ["text", "number", "date", "select", "multiselect"] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+// Stored form of a value: text, YYYY-MM-DD date or single select -> string, number -> number, multiselect -> string[]
+export type CustomFieldValue = string | number | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Optional limits checked on save: min/max for numbers, maxLength for text
+export interface CustomFieldValidation {
+  min?: number;
+  max?: number;
+  maxLength?: number;
+}
+
+// Admin-defined lead attributes. The key is fixed at creation because lead values are stored under it;
+// fields are deactivated rather than deleted so existing values are kept.
+export const customFields = pgTable("custom_fields", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  label: text("label").notNull(),
+  fieldType: text("field_type").notNull(), // one of CUSTOM_FIELD_TYPES; cannot be changed after creation
+  options: jsonb("options").$type<string[]>().notNull().default([]), // choices for select and multiselect
+  validation: jsonb("validation").$type<CustomFieldValidation>().notNull().default({}),
+  required: boolean("required").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Fixed palette for tag colours; the client maps each name to its badge classes
+export const TAG_COLORS = ["gray", "red", "orange", "amber", "green", "teal", "blue", "indigo", "purple", "pink"] as const;
+export type TagColor = (typeof TAG_COLORS)[number];
+
+// Admin-managed labels that can be put on any number of leads
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  color: text("color").notNull().default("gray"), // one of TAG_COLORS
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+export const leadTags = pgTable("lead_tags", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id),
+  tagId: integer("tag_id").notNull().references(() => tags.id),
+  taggedBy: integer("tagged_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("lead_tags_lead_tag_idx").on(table.leadId, table.tagId),
+  index("lead_tags_tag_id_idx").on(table.tagId),
+]);
+
+// Lead scoring: each factor adds points to a lead's score. Admins tune the points per factor;
+// factors without a stored rule use the defaults in server/scoring.ts.
+export const SCORING_FACTORS = ["intake", "country", "source", "passport", "connect", "documents", "recency"] as const;
+export type ScoringFactor = (typeof SCORING_FACTORS)[number];
+
+export interface ScoringRuleConfig {
+  values?: Record<string, number>; // country, source, passport, connect: points per value (case-insensitive)
+  fullWithin?: number; // intake (months), recency (days): full points up to here...
+  zeroAfter?: number; // ...then falling linearly to nothing at this point
+  requiredTypes?: string[]; // documents: points scale with the share of these types uploaded
+}
+
+// One line of a lead's score breakdown
+export interface LeadScoreItem {
+  factor: ScoringFactor;
+  points: number;
+  detail: string;
+}
+
+export const scoringRules = pgTable("scoring_rules", {
+  factor: text("factor").primaryKey(), // one of SCORING_FACTORS
+  points: integer("points").notNull(), // maximum points (intake, documents, recency); lookups use config.values
+  config: jsonb("config").$type<ScoringRuleConfig>().notNull().default({}),
+  isActive: boolean("is_active").notNull().default(true),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Automatic counselor assignment for new leads that arrive without a counselor. Active rules are
+// tried in priority order (lowest first); the first matching rule with an available counselor wins.
+export const ASSIGNMENT_STRATEGIES = ["round_robin", "least_loaded", "weighted"] as const;
+export type AssignmentStrategy = (typeof ASSIGNMENT_STRATEGIES)[number];
+
+// Every non-empty list must match (case-insensitive); intakes match as substrings, so "2026" covers all 2026 intakes
+export interface AssignmentConditions {
+  countries?: string[];
+  sources?: string[];
+  intakes?: string[];
+  languages?: string[];
+}
+
+export interface AssignmentTarget {
+  counselorId: number;
+  weight: number; // share of leads under the weighted strategy; ignored otherwise
+}
+
+export const assignmentRules = pgTable("assignment_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  priority: integer("priority").notNull().default(0),
+  conditions: jsonb("conditions").$type<AssignmentConditions>().notNull().default({}),
+  strategy: text("strategy").notNull().default("round_robin"), // one of ASSIGNMENT_STRATEGIES
+  targets: jsonb("targets").$type<AssignmentTarget[]>().notNull().default([]),
+  // Leads given to each counselor (by id) since the rule was last edited; drives round robin and weighted
+  assignedCounts: jsonb("assigned_counts").$type<Record<string, number>>().notNull().default({}),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Named lead-list filters. The query is the Leads page query string (the GET /api/leads params);
+// shared views are listed for every admin and manager, each seeing counts within their own scope.
+export const savedViews = pgTable("saved_views", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  ownerId: integer("owner_id").notNull().references(() => users.id),
+  isShared: boolean("is_shared").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("saved_views_owner_id_idx").on(table.ownerId),
+]);
+
+// The view each user's Leads page opens with when its URL carries no filters
+export const savedViewDefaults = pgTable("saved_view_defaults", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  viewId: integer("view_id").notNull().references(() => savedViews.id),
+});
+
+// Stages where a lead needs no further work; everything else counts as an open lead
+export const CLOSED_LEAD_STAGES = ["Not Interested", "Irrelevant Lead", "Commission Received"];
+
 // Stage history tracking
 export const stageHistory = pgTable("stage_history", {
   id: serial("id").primaryKey(),
@@ -48,11 +263,69 @@ export const stageHistory = pgTable("stage_history", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Field-level edit history: one row per lead field changed through updateLead
+export const leadFieldChanges = pgTable("lead_field_changes", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id),
+  field: text("field").notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  changedBy: integer("changed_by").notNull().references(() => users.id),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => [
+  index("lead_field_changes_lead_id_idx").on(table.leadId),
+]);
+
+// How a lead changed counselor; "handover" is the only kind that carries a note for the new owner
+export const OWNERSHIP_CHANGE_KINDS = ["assign", "handover", "assignment_rules", "deactivation", "edit", "merge"] as const;
+export type OwnershipChangeKind = (typeof OWNERSHIP_CHANGE_KINDS)[number];
+
+// Ownership timeline: one row each time a lead's counselor changes. A handover note stays pinned
+// on the lead for the receiving counselor until they acknowledge it.
+export const leadOwnershipChanges = pgTable("lead_ownership_changes", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id),
+  fromCounselorId: integer("from_counselor_id").references(() => users.id), // null when the lead was unassigned
+  toCounselorId: integer("to_counselor_id").notNull().references(() => users.id),
+  kind: text("kind").notNull(), // one of OWNERSHIP_CHANGE_KINDS
+  stage: text("stage").notNull(), // the lead's stage when it changed hands
+  note: text("note"),
+  changedBy: integer("changed_by").notNull().references(() => users.id),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("lead_ownership_changes_lead_id_idx").on(table.leadId),
+  index("lead_ownership_changes_to_counselor_id_idx").on(table.toCounselorId),
+]);
+
+export const LEAD_CONTACT_RELATIONSHIPS = ["parent", "guardian", "sibling", "spouse", "sponsor", "other"] as const;
+export type LeadContactRelationship = (typeof LEAD_CONTACT_RELATIONSHIPS)[number];
+
+// Family members and sponsors of a lead, who often make the financial decision. Calls with them
+// are logged as tasks with contactId set.
+export const leadContacts = pgTable("lead_contacts", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id),
+  name: text("name").notNull(),
+  relationship: text("relationship").notNull(), // one of LEAD_CONTACT_RELATIONSHIPS
+  phone: text("phone"),
+  email: text("email"),
+  notes: text("notes"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("lead_contacts_lead_id_idx").on(table.leadId),
+  // Lead search matches contact phones the same way as lead phones
+  index("lead_contacts_phone_digits_trgm_idx").using("gin", sql`(regexp_replace(${table.phone}, '[^0-9]', '', 'g')) gin_trgm_ops`),
+]);
+
 // Tasks and interactions
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
   leadId: integer("lead_id").notNull().references(() => leads.id),
   userId: integer("user_id").notNull().references(() => users.id),
+  contactId: integer("contact_id").references(() => leadContacts.id), // family contact spoken to; null for the lead
   taskType: text("task_type").notNull(), // 'Call', 'Meet Done', etc.
   callType: text("call_type"),
   callStatus: text("call_status"),
@@ -97,7 +370,9 @@ export const remarks = pgTable("remarks", {
   content: text("content").notNull(),
   isVisible: boolean("is_visible").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("remarks_content_fts_idx").using("gin", sql`to_tsvector('simple', ${table.content})`),
+]);
 
 // Documents management
 export const documents = pgTable("documents", {
@@ -111,11 +386,60 @@ export const documents = pgTable("documents", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Possible duplicate lead pairs found by the duplicate scan, reviewed by admins.
+// leadId is always the older (lower id) lead of the pair.
+export const leadDuplicates = pgTable("lead_duplicates", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull().references(() => leads.id),
+  duplicateLeadId: integer("duplicate_lead_id").notNull().references(() => leads.id),
+  reasons: jsonb("reasons").$type<string[]>().notNull(), // 'phone', 'email', 'name'
+  score: real("score").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending' or 'dismissed'
+  detectedAt: timestamp("detected_at").notNull().defaultNow(),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => [
+  uniqueIndex("lead_duplicates_pair_idx").on(table.leadId, table.duplicateLeadId),
+]);
+
+// One row per merge: the removed lead's data is kept as a snapshot, its records move to the survivor
+export const leadMerges = pgTable("lead_merges", {
+  id: serial("id").primaryKey(),
+  survivingLeadId: integer("surviving_lead_id").notNull().references(() => leads.id),
+  mergedLeadId: integer("merged_lead_id").notNull(), // no FK: the merged lead row is deleted
+  mergedLeadSnapshot: jsonb("merged_lead_snapshot").$type<Record<string, unknown>>().notNull(),
+  movedRecords: jsonb("moved_records").$type<Record<string, number>>().notNull(),
+  mergedBy: integer("merged_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Append-only record of every write made through the API (rows are never updated or deleted)
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id), // null for anonymous requests (failed logins, bootstrap)
+  action: text("action").notNull(), // 'create', 'update', 'assign', 'import', 'login', ...
+  entityType: text("entity_type").notNull(), // 'lead', 'user', 'document', 'team', ...
+  entityId: text("entity_id"),
+  changes: jsonb("changes").$type<Record<string, { from: unknown; to: unknown }>>(),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  method: text("method"),
+  path: text("path"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Schema validations
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
-export const insertLeadSchema = createInsertSchema(leads);
-export const selectLeadSchema = createSelectSchema(leads);
+// jsonb columns default to a generic JSON type; spell out the custom field value shape
+const customFieldValuesSchema = z.record(z.union([z.string(), z.number(), z.array(z.string())]));
+const leadScoreBreakdownSchema = z.array(z.object({ factor: z.enum(SCORING_FACTORS), points: z.number(), detail: z.string() }));
+export const insertLeadSchema = createInsertSchema(leads, {
+  customFields: customFieldValuesSchema.optional(),
+  scoreBreakdown: leadScoreBreakdownSchema.optional()
+});
+export const selectLeadSchema = createSelectSchema(leads, { customFields: customFieldValuesSchema, scoreBreakdown: leadScoreBreakdownSchema });
 export const insertTaskSchema = createInsertSchema(tasks);
 export const selectTaskSchema = createSelectSchema(tasks);
 export const insertStageHistorySchema = createInsertSchema(stageHistory);
@@ -123,6 +447,10 @@ export const insertRemarkSchema = createInsertSchema(remarks);
 export const insertUniversityApplicationSchema = createInsertSchema(universityApplications);
 export const insertDocumentSchema = createInsertSchema(documents);
 export const selectDocumentSchema = createSelectSchema(documents);
+export const insertSetupRunSchema = createInsertSchema(setupRuns);
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens);
+export const insertTeamSchema = createInsertSchema(teams);
+export const insertAuditLogSchema = createInsertSchema(auditLog);
 
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -133,9 +461,30 @@ export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = z.infer<typeof selectTaskSchema>;
 export type InsertStageHistory = z.infer<typeof insertStageHistorySchema>;
 export type StageHistory = typeof stageHistory.$inferSelect;
+export type LeadFieldChange = typeof leadFieldChanges.$inferSelect;
+export type LeadOwnershipChange = typeof leadOwnershipChanges.$inferSelect;
 export type InsertRemark = z.infer<typeof insertRemarkSchema>;
 export type Remark = typeof remarks.$inferSelect;
 export type InsertUniversityApplication = z.infer<typeof insertUniversityApplicationSchema>;
 export type UniversityApplication = typeof universityApplications.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+export type InsertSetupRun = z.infer<typeof insertSetupRunSchema>;
+export type SetupRun = typeof setupRuns.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type Team = typeof teams.$inferSelect;
+export type InsertAuditLog = typeof auditLog.$inferInsert;
+export type AuditLog = typeof auditLog.$inferSelect;
+export type LeadDuplicate = typeof leadDuplicates.$inferSelect;
+export type LeadMerge = typeof leadMerges.$inferSelect;
+export type CustomField = typeof customFields.$inferSelect;
+export type InsertCustomField = typeof customFields.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type LeadTag = typeof leadTags.$inferSelect;
+export type ScoringRule = typeof scoringRules.$inferSelect;
+export type AssignmentRule = typeof assignmentRules.$inferSelect;
+export type SavedView = typeof savedViews.$inferSelect;
+export type LeadContact = typeof leadContacts.$inferSelect;
+export type InsertLeadContact = typeof leadContacts.$inferInsert;